@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  CredentialsProvider,
+  CredentialsWithGeneration,
+  GetCredentialsOptions,
+} from "#src/credentials_provider/index.js";
+import { GET_CREDENTIALS_RPC_ID } from "#src/credentials_provider/index.js";
+import type { RPC } from "#src/worker/worker_rpc.js";
+
+/**
+ * Obtains credentials from the `CredentialsManager` of the main thread.
+ *
+ * The most recent credentials for each origin are cached, so that the main thread is only
+ * consulted again once they are rejected.
+ */
+export class RpcCredentialsProvider implements CredentialsProvider {
+  private cache = new Map<
+    string,
+    Promise<CredentialsWithGeneration | undefined>
+  >();
+
+  constructor(private rpc: RPC) {}
+
+  get(
+    origin: string,
+    options: GetCredentialsOptions,
+  ): Promise<CredentialsWithGeneration | undefined> {
+    const { cache } = this;
+    const cached = cache.get(origin);
+    if (!options.prompt && cached !== undefined) return cached;
+    const promise = this.rpc.promiseInvoke<
+      CredentialsWithGeneration | undefined
+    >(GET_CREDENTIALS_RPC_ID, { origin, options });
+    cache.set(origin, promise);
+    // Don't cache failures.
+    promise.catch(() => {
+      if (cache.get(origin) === promise) cache.delete(origin);
+    });
+    return promise;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Dialog for entering the credentials for an origin.
+ */
+
+import type { Credentials } from "#src/credentials_provider/index.js";
+
+export interface CredentialsDialogResult {
+  credentials: Credentials;
+  // Whether to keep the credentials in session storage.
+  remember: boolean;
+}
+
+const INPUT_CLASS =
+  "w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-blue-500";
+const BUTTON_CLASS =
+  "px-4 py-2 rounded-lg transition-all duration-200 cursor-pointer";
+
+function makeField(
+  label: string,
+  input: HTMLInputElement | HTMLSelectElement,
+) {
+  const element = document.createElement("label");
+  element.className = "block space-y-1 text-sm text-gray-300";
+  element.textContent = label;
+  input.className = INPUT_CLASS;
+  element.appendChild(input);
+  return element;
+}
+
+function makeInput(type: string, value = "") {
+  const input = document.createElement("input");
+  input.type = type;
+  input.value = value;
+  input.autocomplete = "off";
+  return input;
+}
+
+/**
+ * Prompts the user for the credentials for `origin`.
+ *
+ * @param previous Credentials that were rejected, used as the initial values.
+ * @returns `undefined` if the user cancels.
+ */
+export function promptForCredentials(
+  origin: string,
+  previous: Credentials | undefined,
+): Promise<CredentialsDialogResult | undefined> {
+  return new Promise((resolve) => {
+    const overlay = document.createElement("div");
+    overlay.className =
+      "fixed inset-0 bg-black/75 flex items-center justify-center z-50";
+    const form = document.createElement("form");
+    form.className =
+      "bg-gray-800 border border-gray-700 rounded-lg p-6 w-96 space-y-4 text-white shadow-xl";
+
+    const title = document.createElement("h2");
+    title.className = "text-lg font-bold";
+    title.textContent = "Sign in";
+    const message = document.createElement("p");
+    message.className = "text-sm text-gray-400 break-all";
+    message.textContent =
+      previous === undefined
+        ? `${origin} requires authentication.`
+        : `The credentials for ${origin} were rejected.`;
+
+    const typeSelect = document.createElement("select");
+    for (const [value, label] of [
+      ["basic", "Username and password"],
+      ["bearer", "Bearer token"],
+      ["header", "Custom header"],
+    ]) {
+      typeSelect.add(new Option(label, value));
+    }
+    typeSelect.value = previous?.type ?? "basic";
+
+    const username = makeInput(
+      "text",
+      previous?.type === "basic" ? previous.username : "",
+    );
+    const password = makeInput("password");
+    const token = makeInput("password");
+    const headerName = makeInput(
+      "text",
+      previous?.type === "header" ? previous.name : "",
+    );
+    const headerValue = makeInput("password");
+    const fields = {
+      basic: [makeField("Username", username), makeField("Password", password)],
+      bearer: [makeField("Token", token)],
+      header: [
+        makeField("Header name", headerName),
+        makeField("Header value", headerValue),
+      ],
+    };
+    const updateFields = () => {
+      for (const [type, elements] of Object.entries(fields)) {
+        for (const element of elements) {
+          element.hidden = type !== typeSelect.value;
+        }
+      }
+    };
+    typeSelect.addEventListener("change", updateFields);
+    updateFields();
+
+    const remember = makeInput("checkbox");
+    const rememberLabel = document.createElement("label");
+    rememberLabel.className = "flex items-center space-x-2 text-sm text-gray-300";
+    rememberLabel.append(remember, "Remember for this browser session");
+
+    const cancelButton = document.createElement("button");
+    cancelButton.type = "button";
+    cancelButton.className = `${BUTTON_CLASS} bg-gray-700 hover:bg-gray-600`;
+    cancelButton.textContent = "Cancel";
+    const submitButton = document.createElement("button");
+    submitButton.type = "submit";
+    submitButton.className = `${BUTTON_CLASS} bg-blue-600 hover:bg-blue-500`;
+    submitButton.textContent = "Sign in";
+    const buttons = document.createElement("div");
+    buttons.className = "flex justify-end space-x-3";
+    buttons.append(cancelButton, submitButton);
+
+    form.append(
+      title,
+      message,
+      makeField("Authentication", typeSelect),
+      ...fields.basic,
+      ...fields.bearer,
+      ...fields.header,
+      rememberLabel,
+      buttons,
+    );
+    overlay.appendChild(form);
+
+    const close = (result: CredentialsDialogResult | undefined) => {
+      overlay.remove();
+      resolve(result);
+    };
+    cancelButton.addEventListener("click", () => close(undefined));
+    form.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") close(undefined);
+    });
+    form.addEventListener("submit", (event) => {
+      event.preventDefault();
+      let credentials: Credentials;
+      switch (typeSelect.value) {
+        case "bearer":
+          credentials = { type: "bearer", token: token.value };
+          break;
+        case "header":
+          if (headerName.value === "") {
+            headerName.focus();
+            return;
+          }
+          credentials = {
+            type: "header",
+            name: headerName.value,
+            value: headerValue.value,
+          };
+          break;
+        default:
+          credentials = {
+            type: "basic",
+            username: username.value,
+            password: password.value,
+          };
+      }
+      close({ credentials, remember: remember.checked });
+    });
+    document.body.appendChild(overlay);
+    ({ basic: username, bearer: token, header: headerName })[
+      typeSelect.value as Credentials["type"]
+    ].focus();
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { promptForCredentials } from "#src/credentials_provider/dialog.js";
+import type {
+  Credentials,
+  CredentialsProvider,
+  CredentialsWithGeneration,
+  GetCredentialsOptions,
+} from "#src/credentials_provider/index.js";
+import {
+  GET_CREDENTIALS_RPC_ID,
+  getDefaultCredentialsProvider,
+} from "#src/credentials_provider/index.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import { registerPromiseRPC } from "#src/worker/worker_rpc.js";
+
+const SESSION_STORAGE_KEY_PREFIX = "neuroglancer-credentials:";
+
+interface OriginState {
+  credentials: CredentialsWithGeneration | undefined;
+  // Set once the user dismisses the prompt for the origin, to avoid prompting again for every
+  // subsequent request.
+  declined: boolean;
+  pendingPrompt: Promise<CredentialsWithGeneration | undefined> | undefined;
+}
+
+function loadSessionCredentials(origin: string): Credentials | undefined {
+  try {
+    const value = sessionStorage.getItem(SESSION_STORAGE_KEY_PREFIX + origin);
+    return value === null ? undefined : JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function saveSessionCredentials(
+  origin: string,
+  credentials: Credentials | undefined,
+) {
+  const key = SESSION_STORAGE_KEY_PREFIX + origin;
+  try {
+    if (credentials === undefined) {
+      sessionStorage.removeItem(key);
+    } else {
+      sessionStorage.setItem(key, JSON.stringify(credentials));
+    }
+  } catch {
+    // Session storage may be unavailable, e.g. due to privacy settings.
+  }
+}
+
+/**
+ * Obtains credentials for each origin by prompting the user once, and keeps them in memory, as
+ * well as in session storage if the user chooses.
+ *
+ * Concurrent requests rejected with the same credentials share a single prompt.
+ */
+export class CredentialsManager implements CredentialsProvider {
+  private origins = new Map<string, OriginState>();
+  private nextGeneration = 0;
+  // Prompts for different origins are shown one at a time.
+  private promptQueue: Promise<unknown> = Promise.resolve();
+
+  private getState(origin: string) {
+    let state = this.origins.get(origin);
+    if (state === undefined) {
+      const credentials = loadSessionCredentials(origin);
+      state = {
+        credentials:
+          credentials === undefined
+            ? undefined
+            : { generation: this.nextGeneration++, credentials },
+        declined: false,
+        pendingPrompt: undefined,
+      };
+      this.origins.set(origin, state);
+    }
+    return state;
+  }
+
+  async get(
+    origin: string,
+    options: GetCredentialsOptions,
+  ): Promise<CredentialsWithGeneration | undefined> {
+    const state = this.getState(origin);
+    if (state.pendingPrompt !== undefined) return state.pendingPrompt;
+    const { credentials } = state;
+    const { invalidCredentials } = options;
+    // Return the current credentials unless they are the ones that were rejected.
+    if (
+      credentials !== undefined &&
+      credentials.generation !== invalidCredentials?.generation
+    ) {
+      return credentials;
+    }
+    if (!options.prompt || state.declined) return undefined;
+    const promise = (state.pendingPrompt = this.prompt(origin, state));
+    try {
+      return await promise;
+    } finally {
+      state.pendingPrompt = undefined;
+    }
+  }
+
+  private async prompt(
+    origin: string,
+    state: OriginState,
+  ): Promise<CredentialsWithGeneration | undefined> {
+    const previous = state.credentials;
+    const promise = this.promptQueue.then(() =>
+      promptForCredentials(origin, previous?.credentials),
+    );
+    this.promptQueue = promise.catch(() => {});
+    const result = await promise;
+    if (result === undefined) {
+      state.declined = true;
+      return undefined;
+    }
+    saveSessionCredentials(
+      origin,
+      result.remember ? result.credentials : undefined,
+    );
+    state.credentials = {
+      generation: this.nextGeneration++,
+      credentials: result.credentials,
+    };
+    return state.credentials;
+  }
+}
+
+registerPromiseRPC(
+  GET_CREDENTIALS_RPC_ID,
+  async function (x: {
+    origin: string;
+    options: GetCredentialsOptions;
+  }): RPCPromise<CredentialsWithGeneration | undefined> {
+    const provider = getDefaultCredentialsProvider();
+    const value = await provider?.get(x.origin, x.options);
+    return { value };
+  },
+);
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Credentials attached to HTTP requests for origins that require authentication.
+ *
+ * Each thread has its own default `CredentialsProvider`: on the main thread, credentials are
+ * obtained by prompting the user, while in the worker they are requested from the main thread.
+ */
+
+export const GET_CREDENTIALS_RPC_ID = "credentials/getCredentials";
+
+export type Credentials =
+  | { type: "basic"; username: string; password: string }
+  | { type: "bearer"; token: string }
+  | { type: "header"; name: string; value: string };
+
+/**
+ * Credentials for an origin, along with a generation number that is incremented each time the
+ * credentials for the origin are replaced.
+ */
+export interface CredentialsWithGeneration {
+  generation: number;
+  credentials: Credentials;
+}
+
+export interface GetCredentialsOptions {
+  // Credentials that were rejected by the server, or `undefined` if the request was made without
+  // credentials.
+  invalidCredentials?: CredentialsWithGeneration;
+  // Whether to prompt the user if no valid credentials are available.
+  prompt: boolean;
+}
+
+export interface CredentialsProvider {
+  /**
+   * Returns the credentials for `origin`, or `undefined` if there are none, such as when the user
+   * declined to provide them.
+   */
+  get(
+    origin: string,
+    options: GetCredentialsOptions,
+  ): Promise<CredentialsWithGeneration | undefined>;
+}
+
+let defaultCredentialsProvider: CredentialsProvider | undefined;
+
+export function getDefaultCredentialsProvider() {
+  return defaultCredentialsProvider;
+}
+
+export function setDefaultCredentialsProvider(
+  provider: CredentialsProvider | undefined,
+) {
+  defaultCredentialsProvider = provider;
+}
+
+function encodeBase64Utf8(value: string) {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Returns a copy of `init` with the headers for `credentials` added.
+ */
+export function applyCredentials(
+  init: RequestInit,
+  credentials: Credentials | undefined,
+): RequestInit {
+  if (credentials === undefined) return init;
+  const headers = new Headers(init.headers);
+  switch (credentials.type) {
+    case "basic":
+      headers.set(
+        "authorization",
+        "Basic " +
+          encodeBase64Utf8(`${credentials.username}:${credentials.password}`),
+      );
+      break;
+    case "bearer":
+      headers.set("authorization", `Bearer ${credentials.token}`);
+      break;
+    case "header":
+      headers.set(credentials.name, credentials.value);
+      break;
+  }
+  return { ...init, headers };
+}
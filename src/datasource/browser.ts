@@ -0,0 +1,427 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Discovery of the data that can be opened within the folder picked by the user, or at a
+ * remote URL.
+ *
+ * Zarr hierarchies are found by `#src/datasource/zarr/hierarchy.js`.  Other directories, including
+ * zip archives, are listed and searched for the data of other formats, and for zarr hierarchies in
+ * their subdirectories.  Remote directories cannot be listed, so that only the data at a remote URL
+ * itself is found: a zarr hierarchy, an n5 or precomputed directory, or a file whose format is
+ * known from its name.
+ */
+
+import { hasDicomPrefix } from "#src/datasource/dicom/parse.js";
+import { IMAGE_FILE_PATTERN } from "#src/datasource/image_sequence/base.js";
+import { TIFF_FILE_PATTERN } from "#src/datasource/tiff/base.js";
+import type { ZarrNode } from "#src/datasource/zarr/hierarchy.js";
+import {
+  getZarrNodeDataSourceUrl,
+  listZarrHierarchy,
+} from "#src/datasource/zarr/hierarchy.js";
+import type { UserLayerSpecification } from "#src/layer/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { throwIfCanceled, uncancelableToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+import { FileReader } from "#src/util/file_system.js";
+import { ZIP_ARCHIVE_PATTERN } from "#src/util/file_tree.js";
+import {
+  cancellableFetchOk,
+  isNotFoundError,
+  listDirectory,
+  responseJson,
+} from "#src/util/http_request.js";
+import {
+  parseArray,
+  verifyIntegerArray,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+  verifyPositiveInt,
+  verifyString,
+} from "#src/util/json.js";
+
+// Maximum depth below the root up to which directories are searched.
+const MAX_SEARCH_DEPTH = 3;
+
+// Data sources that open a single file, with the file names they are offered for.  Directories
+// with several TIFF files are instead offered as a TIFF stack.
+const FILE_FORMATS = [
+  { scheme: "nifti", pattern: /\.nii(?:\.gz)?$/i },
+  { scheme: "nrrd", pattern: /\.(?:nrrd|nhdr)$/i },
+  { scheme: "mrc", pattern: /\.(?:mrcs?|map|rec|st)$/i },
+  { scheme: "npy", pattern: /\.np[yz]$/i },
+  { scheme: "tiff", pattern: TIFF_FILE_PATTERN },
+];
+
+// Length of the preamble and `DICM` prefix of a DICOM Part 10 file.
+const DICOM_PREFIX_LENGTH = 132;
+
+export interface DataSourceNode {
+  // Path relative to the root, or `""` for the root itself.
+  path: string;
+  // Kind of data shown to the user, e.g. `"multiscale"` or `"image sequence"`.
+  kind: string;
+  // Shape, data type, etc., if known.
+  description?: string;
+  // Reason why the node cannot be opened.
+  error?: string;
+  // Layer for showing the node.
+  layer: UserLayerSpecification;
+}
+
+const ZARR_KIND_LABELS = {
+  array: "array",
+  multiscale: "multiscale",
+  label: "labels",
+};
+
+function formatCount(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function describeZarrNode(node: ZarrNode) {
+  const { metadata } = node;
+  if (metadata === undefined) return undefined;
+  const parts = [
+    metadata.shape.join(" × "),
+    DataType[metadata.dataType].toLowerCase(),
+    `chunks ${metadata.chunkShape.join(" × ")}`,
+  ];
+  if (node.numScales !== undefined) {
+    parts.push(formatCount(node.numScales, "scale"));
+  }
+  return parts.join(", ");
+}
+
+function describeN5Dataset(attributes: unknown) {
+  verifyObject(attributes);
+  const dimensions = verifyObjectProperty(
+    attributes,
+    "dimensions",
+    verifyIntegerArray,
+  );
+  const dataType = verifyObjectProperty(attributes, "dataType", verifyString);
+  const blockSize = verifyObjectProperty(
+    attributes,
+    "blockSize",
+    verifyIntegerArray,
+  );
+  return `${dimensions.join(" × ")}, ${dataType}, chunks ${blockSize.join(" × ")}`;
+}
+
+function describePrecomputedVolume(info: unknown) {
+  verifyObject(info);
+  const dataType = verifyObjectProperty(info, "data_type", verifyString);
+  const numChannels = verifyObjectProperty(
+    info,
+    "num_channels",
+    verifyPositiveInt,
+  );
+  const scales = verifyObjectProperty(info, "scales", (x) =>
+    parseArray(x, verifyObject),
+  );
+  if (scales.length === 0) {
+    throw new Error("No scales specified");
+  }
+  const size = verifyObjectProperty(scales[0], "size", verifyIntegerArray);
+  const chunkSizes = verifyObjectProperty(scales[0], "chunk_sizes", (x) =>
+    parseArray(x, verifyIntegerArray),
+  );
+  const parts = [size.join(" × "), dataType];
+  if (chunkSizes.length > 0) {
+    parts.push(`chunks ${chunkSizes[0].join(" × ")}`);
+  }
+  if (numChannels > 1) {
+    parts.push(formatCount(numChannels, "channel"));
+  }
+  parts.push(formatCount(scales.length, "scale"));
+  return parts.join(", ");
+}
+
+function getFileFormat(name: string) {
+  return FILE_FORMATS.find(({ pattern }) => pattern.test(name));
+}
+
+function joinPath(path: string, name: string) {
+  if (name === "") return path;
+  return path === "" ? name : `${path}/${name}`;
+}
+
+class DataSourceSearch {
+  nodes: DataSourceNode[] = [];
+
+  constructor(
+    private rootUrl: string,
+    private cancellationToken: CancellationToken,
+  ) {}
+
+  getUrl(path: string) {
+    if (path === "") return this.rootUrl;
+    return `${this.rootUrl}/${path.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  async visit(path: string, searchDepth: number): Promise<void> {
+    const url = this.getUrl(path);
+    const zarrNodes = await listZarrHierarchy(url, this.cancellationToken);
+    if (zarrNodes.length > 0) {
+      for (const node of zarrNodes) {
+        this.nodes.push({
+          path: joinPath(path, node.path),
+          kind: ZARR_KIND_LABELS[node.kind],
+          description: describeZarrNode(node),
+          error: node.error,
+          // Labels are shown as segmentations.
+          layer: {
+            type: node.kind === "label" ? "segmentation" : "image",
+            url: getZarrNodeDataSourceUrl(node),
+          },
+        });
+      }
+      return;
+    }
+    const [directories = [], files] = await Promise.all([
+      listDirectory(url, "directory"),
+      listDirectory(url, "file"),
+    ]);
+    throwIfCanceled(this.cancellationToken);
+    if (files === undefined) {
+      // Only the root may not be listable.
+      await this.addUnlistedNode(url);
+      return;
+    }
+    if (files.includes("attributes.json") && (await this.addN5Node(path))) {
+      return;
+    }
+    if (files.includes("info") && (await this.addPrecomputedNode(path))) {
+      return;
+    }
+    await this.addFileNodes(path, files);
+    if (searchDepth >= MAX_SEARCH_DEPTH) return;
+    const names = [
+      ...directories,
+      ...files.filter((name) => ZIP_ARCHIVE_PATTERN.test(name)),
+    ];
+    await Promise.all(
+      names.map((name) => this.visit(joinPath(path, name), searchDepth + 1)),
+    );
+  }
+
+  private async fetchJson(url: string): Promise<unknown> {
+    try {
+      return await cancellableFetchOk(
+        url,
+        {},
+        responseJson,
+        this.cancellationToken,
+      );
+    } catch (e) {
+      if (isNotFoundError(e)) return undefined;
+      throw e;
+    }
+  }
+
+  /**
+   * Records the data at a root URL that cannot be listed, such as a remote URL, based on its name
+   * or the metadata files of n5 and precomputed data.
+   */
+  private async addUnlistedNode(url: string) {
+    const name = url.replace(/[?#].*$/, "").replace(/^.*\//, "");
+    const format = getFileFormat(decodeURIComponent(name));
+    if (format !== undefined) {
+      this.nodes.push({
+        path: "",
+        kind: format.scheme,
+        layer: { type: "image", url: `${format.scheme}://${url}` },
+      });
+      return;
+    }
+    if (await this.addN5Node("")) return;
+    await this.addPrecomputedNode("");
+  }
+
+  /**
+   * Records the n5 dataset or multiscale group at `path`.
+   *
+   * @returns `false` if `path` is neither, e.g. the root group of an n5 container.
+   */
+  private async addN5Node(path: string) {
+    const url = this.getUrl(path);
+    const attributes = await this.fetchJson(`${url}/attributes.json`);
+    if (attributes === undefined) return false;
+    const node: DataSourceNode = {
+      path,
+      kind: "n5",
+      layer: { type: "image", url: `n5://${url}/` },
+    };
+    try {
+      verifyObject(attributes);
+      let datasetAttributes: unknown = attributes;
+      if (
+        verifyOptionalObjectProperty(
+          attributes,
+          "dimensions",
+          verifyIntegerArray,
+        ) === undefined
+      ) {
+        // Multiscale group, described by its first scale.
+        datasetAttributes = await this.fetchJson(`${url}/s0/attributes.json`);
+        if (datasetAttributes === undefined) return false;
+        node.kind = "n5 multiscale";
+      }
+      node.description = describeN5Dataset(datasetAttributes);
+    } catch (e) {
+      node.error = (e as Error).message;
+    }
+    this.nodes.push(node);
+    return true;
+  }
+
+  /**
+   * Records the precomputed volume at `path`.
+   *
+   * @returns `false` if `path` does not contain a precomputed volume, e.g. if it contains meshes.
+   */
+  private async addPrecomputedNode(path: string) {
+    const url = this.getUrl(path);
+    const info = await this.fetchJson(`${url}/info`);
+    if (info === undefined) return false;
+    const node: DataSourceNode = {
+      path,
+      kind: "precomputed",
+      layer: { type: "image", url: `precomputed://${url}/` },
+    };
+    try {
+      verifyObject(info);
+      const type = verifyOptionalObjectProperty(info, "@type", verifyString);
+      if (type !== undefined && type !== "neuroglancer_multiscale_volume") {
+        return false;
+      }
+      // Segmentation volumes are shown as segmentations.
+      if (
+        verifyOptionalObjectProperty(info, "type", verifyString) ===
+        "segmentation"
+      ) {
+        node.layer.type = "segmentation";
+      }
+      node.description = describePrecomputedVolume(info);
+    } catch (e) {
+      node.error = (e as Error).message;
+    }
+    this.nodes.push(node);
+    return true;
+  }
+
+  /**
+   * Records the data formed by the files of the directory at `path`.
+   */
+  private async addFileNodes(path: string, files: string[]) {
+    const url = this.getUrl(path);
+    const numImages = files.filter((name) =>
+      IMAGE_FILE_PATTERN.test(name),
+    ).length;
+    if (numImages > 0) {
+      this.nodes.push({
+        path,
+        kind: "image sequence",
+        description: formatCount(numImages, "slice"),
+        layer: { type: "image", url: `image_sequence://${url}/` },
+      });
+    }
+    const numTiffFiles = files.filter((name) =>
+      TIFF_FILE_PATTERN.test(name),
+    ).length;
+    if (numTiffFiles > 1) {
+      this.nodes.push({
+        path,
+        kind: "tiff stack",
+        description: formatCount(numTiffFiles, "slice"),
+        layer: { type: "image", url: `tiff://${url}/` },
+      });
+    }
+    for (const name of files) {
+      const format = getFileFormat(name);
+      if (format === undefined) continue;
+      if (format.scheme === "tiff" && numTiffFiles > 1) continue;
+      const filePath = joinPath(path, name);
+      this.nodes.push({
+        path: filePath,
+        kind: format.scheme,
+        layer: {
+          type: "image",
+          url: `${format.scheme}://${this.getUrl(filePath)}`,
+        },
+      });
+    }
+    await this.addDicomNode(path, files);
+  }
+
+  private async isDicomFile(url: string) {
+    const response = await new FileReader("").read(url, {
+      byteRange: { offset: 0, length: DICOM_PREFIX_LENGTH },
+      cancellationToken: this.cancellationToken,
+    });
+    return response !== undefined && hasDicomPrefix(response.data);
+  }
+
+  /**
+   * Records the directory at `path` as a DICOM series if it contains DICOM files.  DICOM files
+   * often have no extension, so that every file not recognized otherwise is checked for the `DICM`
+   * prefix.
+   */
+  private async addDicomNode(path: string, files: string[]) {
+    const candidates = files.filter(
+      (name) =>
+        !name.startsWith(".") &&
+        name !== "DICOMDIR" &&
+        !IMAGE_FILE_PATTERN.test(name) &&
+        !ZIP_ARCHIVE_PATTERN.test(name) &&
+        getFileFormat(name) === undefined,
+    );
+    const isDicom = await Promise.all(
+      candidates.map((name) =>
+        this.isDicomFile(this.getUrl(joinPath(path, name))),
+      ),
+    );
+    const numDicomFiles = isDicom.filter((x) => x).length;
+    if (numDicomFiles === 0) return;
+    this.nodes.push({
+      path,
+      kind: "dicom series",
+      description: formatCount(numDicomFiles, "file"),
+      layer: { type: "image", url: `dicom://${this.getUrl(path)}/` },
+    });
+  }
+}
+
+/**
+ * Returns the data within the folder or hierarchy at `rootUrl` that can be opened, ordered by path.
+ */
+export async function listDataSources(
+  rootUrl: string,
+  cancellationToken: CancellationToken = uncancelableToken,
+): Promise<DataSourceNode[]> {
+  if (rootUrl.endsWith("/")) {
+    rootUrl = rootUrl.substring(0, rootUrl.length - 1);
+  }
+  const search = new DataSourceSearch(rootUrl, cancellationToken);
+  await search.visit("", 0);
+  throwIfCanceled(cancellationToken);
+  return search.nodes.sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+  );
+}
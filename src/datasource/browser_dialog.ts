@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Dialog for choosing which data found by `#src/datasource/browser.js` to open.
+ */
+
+import type { DataSourceNode } from "#src/datasource/browser.js";
+
+const BUTTON_CLASS =
+  "px-4 py-2 rounded-lg transition-all duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-default";
+
+function makeNodeRow(node: DataSourceNode, checked: boolean) {
+  const row = document.createElement("label");
+  row.className = "flex items-start space-x-3 py-1 text-sm";
+  const depth = node.path === "" ? 0 : node.path.split("/").length;
+  row.style.paddingLeft = `${depth}rem`;
+  const checkbox = document.createElement("input");
+  checkbox.type = "checkbox";
+  checkbox.className = "mt-1";
+  checkbox.disabled = node.error !== undefined;
+  checkbox.checked = checked && !checkbox.disabled;
+
+  const text = document.createElement("div");
+  text.className = "min-w-0";
+  const name = document.createElement("div");
+  name.className = "break-all";
+  const kind = document.createElement("span");
+  kind.className = "ml-2 px-1.5 rounded bg-gray-700 text-xs text-gray-300";
+  kind.textContent = node.kind;
+  name.append(node.path === "" ? "(root)" : node.path, kind);
+  const details = document.createElement("div");
+  if (node.error === undefined) {
+    details.className = "text-gray-400";
+    details.textContent = node.description ?? "";
+  } else {
+    details.className = "text-red-400";
+    details.textContent = node.error;
+  }
+  text.append(name, details);
+  row.append(checkbox, text);
+  return { row, checkbox };
+}
+
+/**
+ * Prompts the user to choose which of the data found at `rootUrl` to open.
+ *
+ * @param nodes Data found at `rootUrl`, which are shown once available.
+ * @returns The chosen nodes, or `undefined` if the user cancels.
+ */
+export function chooseDataSources(
+  rootUrl: string,
+  nodes: Promise<DataSourceNode[]>,
+): Promise<DataSourceNode[] | undefined> {
+  return new Promise((resolve) => {
+    const overlay = document.createElement("div");
+    overlay.className =
+      "fixed inset-0 bg-black/75 flex items-center justify-center z-50";
+    const form = document.createElement("form");
+    form.className =
+      "bg-gray-800 border border-gray-700 rounded-lg p-6 w-[36rem] space-y-4 text-white shadow-xl";
+
+    const title = document.createElement("h2");
+    title.className = "text-lg font-bold";
+    title.textContent = "Open data";
+    const message = document.createElement("p");
+    message.className = "text-sm text-gray-400 break-all";
+    message.textContent = `Searching ${rootUrl}…`;
+    const list = document.createElement("div");
+    list.className = "max-h-96 overflow-y-auto";
+
+    const cancelButton = document.createElement("button");
+    cancelButton.type = "button";
+    cancelButton.className = `${BUTTON_CLASS} bg-gray-700 hover:bg-gray-600`;
+    cancelButton.textContent = "Cancel";
+    const submitButton = document.createElement("button");
+    submitButton.type = "submit";
+    submitButton.className = `${BUTTON_CLASS} bg-blue-600 hover:bg-blue-500`;
+    submitButton.textContent = "Open";
+    submitButton.disabled = true;
+    const buttons = document.createElement("div");
+    buttons.className = "flex justify-end space-x-3";
+    buttons.append(cancelButton, submitButton);
+
+    form.append(title, message, list, buttons);
+    overlay.appendChild(form);
+
+    const checkboxes: { node: DataSourceNode; checkbox: HTMLInputElement }[] =
+      [];
+    const updateSubmitButton = () => {
+      submitButton.disabled = !checkboxes.some(
+        ({ checkbox }) => checkbox.checked,
+      );
+    };
+    nodes.then(
+      (nodes) => {
+        if (nodes.length === 0) {
+          message.textContent = `No data found in ${rootUrl}.`;
+          return;
+        }
+        message.textContent = `Choose the data to open from ${rootUrl}:`;
+        // Initially choose the first node that can be opened, which is usually the root.
+        let chooseNext = true;
+        for (const node of nodes) {
+          const { row, checkbox } = makeNodeRow(node, chooseNext);
+          if (checkbox.checked) chooseNext = false;
+          checkbox.addEventListener("change", updateSubmitButton);
+          checkboxes.push({ node, checkbox });
+          list.appendChild(row);
+        }
+        updateSubmitButton();
+        if (!submitButton.disabled) submitButton.focus();
+      },
+      (error) => {
+        message.textContent = `Error searching ${rootUrl}: ${(error as Error).message}`;
+      },
+    );
+
+    const close = (result: DataSourceNode[] | undefined) => {
+      overlay.remove();
+      resolve(result);
+    };
+    cancelButton.addEventListener("click", () => close(undefined));
+    form.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") close(undefined);
+    });
+    form.addEventListener("submit", (event) => {
+      event.preventDefault();
+      close(
+        checkboxes
+          .filter(({ checkbox }) => checkbox.checked)
+          .map(({ node }) => node),
+      );
+    });
+    document.body.appendChild(overlay);
+    cancelButton.focus();
+  });
+}
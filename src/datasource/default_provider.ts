@@ -20,6 +20,16 @@
 
 import type { DataSourceProvider } from "#src/datasource/index.js";
 import { DataSourceProviderRegistry } from "#src/datasource/index.js";
+import { DicomDataSource } from "#src/datasource/dicom/frontend.js";
+import { ImageSequenceDataSource } from "#src/datasource/image_sequence/frontend.js";
+import { MrcDataSource } from "#src/datasource/mrc/frontend.js";
+import { N5DataSource } from "#src/datasource/n5/frontend.js";
+import { NiftiDataSource } from "#src/datasource/nifti/frontend.js";
+import { NpyDataSource } from "#src/datasource/npy/frontend.js";
+import { NrrdDataSource } from "#src/datasource/nrrd/frontend.js";
+import { PrecomputedDataSource } from "#src/datasource/precomputed/frontend.js";
+import { RawDataSource } from "#src/datasource/raw/frontend.js";
+import { TiffDataSource } from "#src/datasource/tiff/frontend.js";
 import { ZarrDataSource } from "#src/datasource/zarr/frontend.js";
 import type { Owned } from "#src/util/disposable.js";
 
@@ -27,7 +37,19 @@ type ProviderFactory = () => Owned<DataSourceProvider>;
 
 export function getDefaultDataSourceProvider() {
   const providerFactories = new Map<string, ProviderFactory>();
+  providerFactories.set("zarr", () => new ZarrDataSource());
   providerFactories.set("zarr2", () => new ZarrDataSource(2));
+  providerFactories.set("zarr3", () => new ZarrDataSource(3));
+  providerFactories.set("precomputed", () => new PrecomputedDataSource());
+  providerFactories.set("n5", () => new N5DataSource());
+  providerFactories.set("nifti", () => new NiftiDataSource());
+  providerFactories.set("tiff", () => new TiffDataSource());
+  providerFactories.set("image_sequence", () => new ImageSequenceDataSource());
+  providerFactories.set("raw", () => new RawDataSource());
+  providerFactories.set("npy", () => new NpyDataSource());
+  providerFactories.set("mrc", () => new MrcDataSource());
+  providerFactories.set("nrrd", () => new NrrdDataSource());
+  providerFactories.set("dicom", () => new DicomDataSource());
 
   const provider = new DataSourceProviderRegistry();
   for (const [name, factory] of providerFactories) {
@@ -0,0 +1,538 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { DicomSeriesInfo } from "#src/datasource/dicom/base.js";
+import {
+  GET_DICOM_SERIES_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/dicom/base.js";
+import type { DicomDataset } from "#src/datasource/dicom/parse.js";
+import {
+  DicomTag,
+  hasDicomPrefix,
+  IncompleteDicomDataError,
+  parseDicomDataset,
+  parseDicomFileMeta,
+  TransferSyntax,
+} from "#src/datasource/dicom/parse.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { TypedArray } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { CancellationError } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_ARRAY_CONSTRUCTOR,
+  DATA_TYPE_BYTES,
+  DataType,
+  makeDataTypeArrayView,
+} from "#src/util/data_type.js";
+import { convertEndian, Endianness } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import { decodeGzip } from "#src/util/gzip.js";
+import { listDirectory } from "#src/util/http_request.js";
+import { naturalStringCompare } from "#src/util/string.js";
+import * as vector from "#src/util/vector.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+// Size of the prefix of each file read to parse its header.  A longer prefix is read if the pixel
+// data element is not reached.
+const HEADER_READ_SIZE = 16384;
+
+interface DicomSlice {
+  url: string;
+  littleEndian: boolean;
+  // Location of the pixel data within the file, or `undefined` if the data set is deflated, in
+  // which case the entire file is decompressed to decode the slice.
+  pixelData: { offset: number; length: number } | undefined;
+  seriesInstanceUid: string;
+  seriesDescription: string;
+  instanceNumber: number;
+  position: number[] | undefined;
+  orientation: number[] | undefined;
+  // Spacing between rows and between columns, in mm.
+  pixelSpacing: number[] | undefined;
+  sliceThickness: number | undefined;
+  rows: number;
+  columns: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  signed: boolean;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+}
+
+/**
+ * Reads and parses the data set of a DICOM file, up to the pixel data element.
+ *
+ * @param prefixOnly If `true`, only a prefix of the file is read, unless the data set is
+ *     deflated.
+ * @returns `undefined` if the file is not a DICOM file.
+ */
+async function readDicomDataset(
+  url: string,
+  prefixOnly: boolean,
+  cancellationToken: CancellationToken,
+): Promise<
+  { transferSyntaxUid: string; dataset: DicomDataset } | undefined
+> {
+  const fileReader = new FileReader("");
+  for (
+    let length = prefixOnly ? HEADER_READ_SIZE : Number.POSITIVE_INFINITY;
+    ;
+    length *= 2
+  ) {
+    const response = await fileReader.read(url, {
+      byteRange: Number.isFinite(length) ? { offset: 0, length } : undefined,
+      cancellationToken,
+    });
+    if (response === undefined) {
+      throw new Error(`Failed to read ${JSON.stringify(url)}`);
+    }
+    const { data } = response;
+    const complete = data.length < length;
+    if (!hasDicomPrefix(data)) {
+      if (complete || data.length >= HEADER_READ_SIZE) return undefined;
+      continue;
+    }
+    try {
+      const { transferSyntaxUid, datasetOffset } = parseDicomFileMeta(data);
+      if (
+        transferSyntaxUid === TransferSyntax.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN
+      ) {
+        if (!complete) {
+          length = Number.POSITIVE_INFINITY;
+          continue;
+        }
+        const inflated = await decodeGzip(
+          data.subarray(datasetOffset),
+          "deflate-raw",
+          cancellationToken,
+        );
+        const dataset = parseDicomDataset(
+          new Uint8Array(inflated),
+          0,
+          transferSyntaxUid,
+          true,
+        );
+        return { transferSyntaxUid, dataset };
+      }
+      const dataset = parseDicomDataset(
+        data,
+        datasetOffset,
+        transferSyntaxUid,
+        complete,
+      );
+      return { transferSyntaxUid, dataset };
+    } catch (e) {
+      if (e instanceof IncompleteDicomDataError && !complete) continue;
+      throw e;
+    }
+  }
+}
+
+/**
+ * Reads the attributes of a slice needed to assemble a volume.
+ *
+ * @returns `undefined` if the file is not a DICOM image, such as a `DICOMDIR` file.
+ */
+async function readDicomSlice(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<DicomSlice | undefined> {
+  const result = await readDicomDataset(url, true, cancellationToken);
+  if (result === undefined || result.dataset.pixelData === undefined) {
+    return undefined;
+  }
+  const { transferSyntaxUid, dataset } = result;
+  const getRequired = (tag: DicomTag, name: string) => {
+    const value = dataset.getUint16(tag);
+    if (value === undefined) {
+      throw new Error(`DICOM file ${JSON.stringify(url)} is missing ${name}`);
+    }
+    return value;
+  };
+  const samplesPerPixel = dataset.getUint16(DicomTag.SAMPLES_PER_PIXEL) ?? 1;
+  if (samplesPerPixel !== 1) {
+    throw new Error(
+      `Unsupported DICOM file ${JSON.stringify(url)}: ` +
+        "only grayscale images are supported, but samples per pixel is " +
+        samplesPerPixel,
+    );
+  }
+  const bitsAllocated = getRequired(DicomTag.BITS_ALLOCATED, "BitsAllocated");
+  if (bitsAllocated !== 8 && bitsAllocated !== 16 && bitsAllocated !== 32) {
+    throw new Error(
+      `Unsupported DICOM file ${JSON.stringify(url)}: ` +
+        `bits allocated is ${bitsAllocated}`,
+    );
+  }
+  return {
+    url,
+    littleEndian: dataset.littleEndian,
+    pixelData:
+      transferSyntaxUid === TransferSyntax.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN
+        ? undefined
+        : dataset.pixelData,
+    seriesInstanceUid: dataset.getString(DicomTag.SERIES_INSTANCE_UID) ?? "",
+    seriesDescription: dataset.getString(DicomTag.SERIES_DESCRIPTION) ?? "",
+    instanceNumber: dataset.getNumbers(DicomTag.INSTANCE_NUMBER)?.[0] ?? 0,
+    position: dataset.getNumbers(DicomTag.IMAGE_POSITION_PATIENT),
+    orientation: dataset.getNumbers(DicomTag.IMAGE_ORIENTATION_PATIENT),
+    pixelSpacing: dataset.getNumbers(DicomTag.PIXEL_SPACING),
+    sliceThickness: dataset.getNumbers(DicomTag.SLICE_THICKNESS)?.[0],
+    rows: getRequired(DicomTag.ROWS, "Rows"),
+    columns: getRequired(DicomTag.COLUMNS, "Columns"),
+    bitsAllocated,
+    bitsStored: dataset.getUint16(DicomTag.BITS_STORED) ?? bitsAllocated,
+    signed: dataset.getUint16(DicomTag.PIXEL_REPRESENTATION) === 1,
+    rescaleSlope: dataset.getNumbers(DicomTag.RESCALE_SLOPE)?.[0] ?? 1,
+    rescaleIntercept: dataset.getNumbers(DicomTag.RESCALE_INTERCEPT)?.[0] ?? 0,
+  };
+}
+
+/**
+ * Returns the data type of the series after applying the rescale slope and intercept: int16 if the
+ * rescaled values of all slices are integers within its range, as is typical for CT, and float32
+ * otherwise.
+ */
+function getSeriesDataType(slices: DicomSlice[]): DataType {
+  for (const { rescaleSlope, rescaleIntercept, bitsStored, signed } of slices) {
+    if (rescaleSlope !== 1 || !Number.isInteger(rescaleIntercept)) {
+      return DataType.FLOAT32;
+    }
+    const min = signed ? -(2 ** (bitsStored - 1)) : 0;
+    const max = signed ? 2 ** (bitsStored - 1) - 1 : 2 ** bitsStored - 1;
+    if (min + rescaleIntercept < -0x8000 || max + rescaleIntercept > 0x7fff) {
+      return DataType.FLOAT32;
+    }
+  }
+  return DataType.INT16;
+}
+
+function cross(a: number[], b: number[]) {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+function dot(a: number[], b: number[]) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+interface DicomSeries {
+  info: DicomSeriesInfo;
+  // Slices, in order along the slice normal.
+  slices: DicomSlice[];
+}
+
+/**
+ * Assembles a series from its slices, which are sorted by their position along the normal of the
+ * image plane, or by instance number if the position is unspecified.
+ */
+function getSeries(slices: DicomSlice[]): DicomSeries {
+  const first = slices[0];
+  for (const slice of slices) {
+    if (
+      slice.rows !== first.rows ||
+      slice.columns !== first.columns ||
+      slice.bitsAllocated !== first.bitsAllocated
+    ) {
+      throw new Error(
+        `DICOM slice ${JSON.stringify(slice.url)} has ` +
+          `${slice.columns}x${slice.rows} pixels with ${slice.bitsAllocated} bits allocated, ` +
+          `but expected ${first.columns}x${first.rows} pixels with ` +
+          `${first.bitsAllocated} bits allocated`,
+      );
+    }
+  }
+  const orientation =
+    first.orientation?.length === 6 ? first.orientation : [1, 0, 0, 0, 1, 0];
+  const rowDirection = orientation.slice(0, 3);
+  const columnDirection = orientation.slice(3, 6);
+  const normal = cross(rowDirection, columnDirection);
+  const hasPositions = slices.every((slice) => slice.position?.length === 3);
+  const getSliceLocation = (slice: DicomSlice) =>
+    hasPositions ? dot(slice.position!, normal) : slice.instanceNumber;
+  slices.sort((a, b) => getSliceLocation(a) - getSliceLocation(b));
+  const numSlices = slices.length;
+  let sliceSpacing =
+    hasPositions && numSlices > 1
+      ? (getSliceLocation(slices[numSlices - 1]) - getSliceLocation(slices[0])) /
+        (numSlices - 1)
+      : 0;
+  if (!(sliceSpacing > 0)) {
+    sliceSpacing = first.sliceThickness ?? 1;
+  }
+  const [rowSpacing, columnSpacing] =
+    first.pixelSpacing?.length === 2 ? first.pixelSpacing : [1, 1];
+  const origin = hasPositions ? slices[0].position! : [0, 0, 0];
+  return {
+    info: {
+      seriesInstanceUid: first.seriesInstanceUid,
+      seriesDescription: first.seriesDescription,
+      dataType: getSeriesDataType(slices),
+      shape: [first.columns, first.rows, numSlices],
+      // Columns are spaced along the row direction, and rows along the column direction.
+      spaceDirections: [
+        rowDirection.map((x) => x * columnSpacing),
+        columnDirection.map((x) => x * rowSpacing),
+        normal.map((x) => x * sliceSpacing),
+      ],
+      spaceOrigin: origin,
+      spaceUnits: ["mm", "mm", "mm"],
+    },
+    slices,
+  };
+}
+
+async function openDicomSeries(
+  url: string,
+  series: string | undefined,
+  cancellationToken: CancellationToken,
+): Promise<DicomSeries> {
+  const names = await listDirectory(url);
+  if (names === undefined) {
+    throw new Error(`DICOM series ${JSON.stringify(url)} is not a directory`);
+  }
+  const baseUrl = url.replace(/\/*$/, "/");
+  // DICOM files often have no extension, so every file in the directory is checked.  Files that
+  // cannot be read, e.g. because of an unsupported transfer syntax, are skipped.
+  const errors: string[] = [];
+  const slices = await Promise.all(
+    names.sort(naturalStringCompare).map(async (name) => {
+      try {
+        return await readDicomSlice(baseUrl + name, cancellationToken);
+      } catch (e) {
+        if (e instanceof CancellationError) throw e;
+        errors.push((e as Error).message);
+        return undefined;
+      }
+    }),
+  );
+  if (errors.length > 0) {
+    console.warn(
+      `Skipped ${errors.length} of the DICOM files in ${JSON.stringify(url)}:\n` +
+        errors.join("\n"),
+    );
+  }
+  const seriesSlices = new Map<string, DicomSlice[]>();
+  for (const slice of slices) {
+    if (slice === undefined) continue;
+    let list = seriesSlices.get(slice.seriesInstanceUid);
+    if (list === undefined) {
+      list = [];
+      seriesSlices.set(slice.seriesInstanceUid, list);
+    }
+    list.push(slice);
+  }
+  if (seriesSlices.size === 0) {
+    throw new Error(
+      `No DICOM images found in ${JSON.stringify(url)}` +
+        (errors.length > 0 ? `: ${errors[0]}` : ""),
+    );
+  }
+  if (series === undefined) {
+    let largest: DicomSlice[] = [];
+    for (const list of seriesSlices.values()) {
+      if (list.length > largest.length) largest = list;
+    }
+    return getSeries(largest);
+  }
+  const list = seriesSlices.get(series);
+  if (list === undefined) {
+    throw new Error(
+      `DICOM series ${JSON.stringify(series)} not found in ${JSON.stringify(url)}; ` +
+        `available series: ${JSON.stringify(Array.from(seriesSlices.keys()))}`,
+    );
+  }
+  return getSeries(list);
+}
+
+const STORED_DATA_TYPES = new Map<number, [DataType, DataType]>([
+  [8, [DataType.UINT8, DataType.INT8]],
+  [16, [DataType.UINT16, DataType.INT16]],
+  [32, [DataType.UINT32, DataType.INT32]],
+]);
+
+/**
+ * Decodes the pixel values of a slice, applying the rescale slope and intercept.
+ */
+async function decodeSlice(
+  slice: DicomSlice,
+  dataType: DataType,
+  cancellationToken: CancellationToken,
+): Promise<TypedArray> {
+  let data: Uint8Array;
+  if (slice.pixelData !== undefined) {
+    const { offset, length } = slice.pixelData;
+    const response = await new FileReader("").read(slice.url, {
+      byteRange: { offset, length },
+      cancellationToken,
+    });
+    if (response === undefined) {
+      throw new Error(`Failed to read ${JSON.stringify(slice.url)}`);
+    }
+    data = response.data;
+  } else {
+    const result = await readDicomDataset(slice.url, false, cancellationToken);
+    const pixelData = result?.dataset.pixelData;
+    if (pixelData === undefined) {
+      throw new Error(`Failed to read ${JSON.stringify(slice.url)}`);
+    }
+    data = result!.dataset.data.subarray(
+      pixelData.offset,
+      pixelData.offset + pixelData.length,
+    );
+  }
+  const { bitsAllocated, bitsStored, signed, rescaleSlope, rescaleIntercept } =
+    slice;
+  const storedDataType = STORED_DATA_TYPES.get(bitsAllocated)![signed ? 1 : 0];
+  const numPixels = slice.rows * slice.columns;
+  const bytesPerPixel = DATA_TYPE_BYTES[storedDataType];
+  if (data.length < numPixels * bytesPerPixel) {
+    throw new Error(
+      `DICOM slice ${JSON.stringify(slice.url)} has ${data.length} bytes of ` +
+        `pixel data, but expected ${numPixels * bytesPerPixel}`,
+    );
+  }
+  // Copy to ensure the pixel data is suitably aligned.
+  const stored = makeDataTypeArrayView(
+    storedDataType,
+    data.slice(0, numPixels * bytesPerPixel).buffer,
+  ) as TypedArray;
+  convertEndian(
+    stored,
+    slice.littleEndian ? Endianness.LITTLE : Endianness.BIG,
+    bytesPerPixel,
+  );
+  const output = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](numPixels);
+  // Bits above `bitsStored` may be used for overlays, and are masked out (or replaced by the sign
+  // bit for signed values).
+  const shift = 32 - bitsStored;
+  const masked = bitsStored < bitsAllocated;
+  for (let i = 0; i < numPixels; ++i) {
+    let value = stored[i];
+    if (masked) {
+      value = signed ? (value << shift) >> shift : (value << shift) >>> shift;
+    }
+    output[i] = value * rescaleSlope + rescaleIntercept;
+  }
+  return output;
+}
+
+function getDicomSeriesCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "dicom", {
+    get: async (
+      key: { url: string; series: string | undefined },
+      cancellationToken: CancellationToken,
+    ) => {
+      const series = await openDicomSeries(
+        key.url,
+        key.series,
+        cancellationToken,
+      );
+      return { data: series, size: 0 };
+    },
+  });
+}
+
+function getDicomSliceCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "dicom:slice", {
+    encodeKey: (key: { slice: DicomSlice; dataType: DataType }) =>
+      JSON.stringify([key.slice.url, key.dataType]),
+    get: async (key, cancellationToken: CancellationToken) => {
+      const data = await decodeSlice(key.slice, key.dataType, cancellationToken);
+      return { data, size: data.byteLength };
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_DICOM_SERIES_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string; series: string | undefined },
+    cancellationToken,
+  ): RPCPromise<DicomSeriesInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getDicomSeriesCache(chunkManager);
+    try {
+      const { info } = await cache.get(
+        { url: x.url, series: x.series },
+        cancellationToken,
+      );
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class DicomVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private seriesCache = this.registerDisposer(
+    getDicomSeriesCache(this.chunkManager),
+  );
+  private sliceCache = this.registerDisposer(
+    getDicomSliceCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { url, series } = this.parameters;
+    const { info, slices } = await this.seriesCache.get(
+      { url, series },
+      cancellationToken,
+    );
+    // Read the chunk position before any further asynchronous operations, since it is stored in a
+    // temporary array.
+    const [x0, y0, z0] = this.computeChunkBounds(chunk);
+    const chunkDataSize = chunk.chunkDataSize!;
+    const [width, height, depth] = chunkDataSize;
+    const { dataType } = info;
+    const columns = info.shape[0];
+    const output = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](
+      vector.prod(chunkDataSize),
+    );
+    await Promise.all(
+      Array.from({ length: depth }, async (_, z) => {
+        const data = await this.sliceCache.get(
+          { slice: slices[z0 + z], dataType },
+          cancellationToken,
+        );
+        for (let y = 0; y < height; ++y) {
+          const inputOffset = (y0 + y) * columns + x0;
+          output.set(
+            data.subarray(inputOffset, inputOffset + width),
+            (z * height + y) * width,
+          );
+        }
+      }),
+    );
+    await postProcessRawData(chunk, cancellationToken, output);
+  }
+}
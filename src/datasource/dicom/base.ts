@@ -0,0 +1,36 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { NrrdVolumeInfo } from "#src/datasource/nrrd/base.js";
+
+export const GET_DICOM_SERIES_INFO_RPC_ID = "dicom/getDicomSeriesInfo";
+
+/**
+ * Describes a series as a volume with columns, rows and slices as the first, second and third
+ * dimensions, placed in patient coordinates in the same way as an NRRD volume.
+ */
+export interface DicomSeriesInfo extends NrrdVolumeInfo {
+  seriesInstanceUid: string;
+  seriesDescription: string;
+}
+
+export class VolumeChunkSourceParameters {
+  // URL of the directory containing the slices.
+  url: string;
+  // Series to use, or `undefined` to use the series with the most slices.
+  series: string | undefined;
+  static RPC_ID = "dicom/VolumeChunkSource";
+}
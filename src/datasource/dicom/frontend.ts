@@ -0,0 +1,176 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type { DicomSeriesInfo } from "#src/datasource/dicom/base.js";
+import {
+  GET_DICOM_SERIES_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/dicom/base.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import { getModelSpaceAndTransform } from "#src/datasource/nrrd/frontend.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import {
+  parseQueryStringParameters,
+  verifyObject,
+  verifyOptionalObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+
+class DicomVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Maximum chunk size along the column and row dimensions.
+const CHUNK_SLICE_SIZE = 256;
+
+// Maximum number of slices per chunk.
+const CHUNK_DEPTH = 16;
+
+export class DicomMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return 3;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public parameters: VolumeChunkSourceParameters,
+    public info: DicomSeriesInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, info } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    const [columns, rows, numSlices] = info.shape;
+    // Each chunk covers a group of consecutive slices.
+    const chunkDataSize = Uint32Array.of(
+      Math.min(columns, CHUNK_SLICE_SIZE),
+      Math.min(rows, CHUNK_SLICE_SIZE),
+      Math.min(numSlices, CHUNK_DEPTH),
+    );
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(info.shape),
+        volumeType: this.volumeType,
+        chunkDataSizes: [chunkDataSize],
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(
+            DicomVolumeChunkSource,
+            { spec, parameters: this.parameters },
+          ),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+function getDicomSeriesInfo(
+  chunkManager: ChunkManager,
+  parameters: VolumeChunkSourceParameters,
+  cancellationToken: CancellationToken,
+): Promise<DicomSeriesInfo> {
+  return chunkManager.rpc!.promiseInvoke<DicomSeriesInfo>(
+    GET_DICOM_SERIES_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, ...parameters },
+    cancellationToken,
+  );
+}
+
+export class DicomDataSource extends DataSourceProvider {
+  get description() {
+    return "DICOM series data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    // Pattern is infallible.
+    const [, url, query] = options.providerUrl.match(/([^?]*)(?:\?(.*))?$/)!;
+    const queryParameters = parseQueryStringParameters(query || "");
+    verifyObject(queryParameters);
+    const series = verifyOptionalObjectProperty(
+      queryParameters,
+      "series",
+      verifyString,
+    );
+    const parameters = { url: url.replace(/\/+$/, ""), series };
+    return options.chunkManager.memoize.getUncounted(
+      { type: "dicom:MultiscaleVolumeChunkSource", ...parameters },
+      async () => {
+        const info = await getDicomSeriesInfo(
+          options.chunkManager,
+          parameters,
+          options.cancellationToken,
+        );
+        const { modelSpace, transform } = getModelSpaceAndTransform(info);
+        const volume = new DicomMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          parameters,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: { rank, sourceRank: rank, transform },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Parser for DICOM Part 10 files with uncompressed pixel data.
+ *
+ * Only the elements preceding the pixel data are parsed, so that the header of each slice can be
+ * read from a prefix of the file.  Sequences are skipped, since none of the attributes needed to
+ * assemble a volume are nested.
+ */
+
+export enum DicomTag {
+  TRANSFER_SYNTAX_UID = 0x00020010,
+  SERIES_DESCRIPTION = 0x0008103e,
+  SLICE_THICKNESS = 0x00180050,
+  SERIES_INSTANCE_UID = 0x0020000e,
+  INSTANCE_NUMBER = 0x00200013,
+  IMAGE_POSITION_PATIENT = 0x00200032,
+  IMAGE_ORIENTATION_PATIENT = 0x00200037,
+  SAMPLES_PER_PIXEL = 0x00280002,
+  ROWS = 0x00280010,
+  COLUMNS = 0x00280011,
+  PIXEL_SPACING = 0x00280030,
+  BITS_ALLOCATED = 0x00280100,
+  BITS_STORED = 0x00280101,
+  PIXEL_REPRESENTATION = 0x00280103,
+  RESCALE_INTERCEPT = 0x00281052,
+  RESCALE_SLOPE = 0x00281053,
+  PIXEL_DATA = 0x7fe00010,
+}
+
+export enum TransferSyntax {
+  IMPLICIT_VR_LITTLE_ENDIAN = "1.2.840.10008.1.2",
+  EXPLICIT_VR_LITTLE_ENDIAN = "1.2.840.10008.1.2.1",
+  DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN = "1.2.840.10008.1.2.1.99",
+  EXPLICIT_VR_BIG_ENDIAN = "1.2.840.10008.1.2.2",
+}
+
+const PREAMBLE_SIZE = 128;
+// `DICM`
+const DICOM_MAGIC = [0x44, 0x49, 0x43, 0x4d];
+
+// Value representations with a reserved field followed by a 4-byte length in explicit VR
+// encodings.  All other value representations have a 2-byte length.
+const LONG_LENGTH_VRS = new Set([
+  "OB",
+  "OD",
+  "OF",
+  "OL",
+  "OV",
+  "OW",
+  "SQ",
+  "SV",
+  "UC",
+  "UN",
+  "UR",
+  "UT",
+  "UV",
+]);
+
+const UNDEFINED_LENGTH = 0xffffffff;
+const ITEM = 0xfffee000;
+const ITEM_DELIMITATION = 0xfffee00d;
+const SEQUENCE_DELIMITATION = 0xfffee0dd;
+
+/**
+ * Indicates that the data ends before the pixel data element.  When parsing a prefix of a file,
+ * a longer prefix should be read.
+ */
+export class IncompleteDicomDataError extends Error {
+  constructor() {
+    super("DICOM data ended unexpectedly");
+  }
+}
+
+interface ElementHeader {
+  tag: number;
+  length: number;
+  valueOffset: number;
+}
+
+class ElementReader {
+  private dv: DataView;
+
+  constructor(
+    public data: Uint8Array,
+    private explicitVR: boolean,
+    private littleEndian: boolean,
+  ) {
+    this.dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private checkAvailable(end: number) {
+    if (end > this.data.length) {
+      throw new IncompleteDicomDataError();
+    }
+  }
+
+  readHeader(offset: number): ElementHeader {
+    const { dv, littleEndian } = this;
+    this.checkAvailable(offset + 8);
+    const group = dv.getUint16(offset, littleEndian);
+    const tag = group * 0x10000 + dv.getUint16(offset + 2, littleEndian);
+    // Item and delimitation elements never have an explicit VR.
+    if (!this.explicitVR || group === 0xfffe) {
+      return {
+        tag,
+        length: dv.getUint32(offset + 4, littleEndian),
+        valueOffset: offset + 8,
+      };
+    }
+    const vr = String.fromCharCode(this.data[offset + 4], this.data[offset + 5]);
+    if (LONG_LENGTH_VRS.has(vr)) {
+      this.checkAvailable(offset + 12);
+      return {
+        tag,
+        length: dv.getUint32(offset + 8, littleEndian),
+        valueOffset: offset + 12,
+      };
+    }
+    return {
+      tag,
+      length: dv.getUint16(offset + 6, littleEndian),
+      valueOffset: offset + 8,
+    };
+  }
+
+  /**
+   * Skips the items of an undefined-length sequence, or the fragments of encapsulated pixel data.
+   *
+   * @returns The offset following the sequence delimitation element.
+   */
+  skipSequence(offset: number): number {
+    while (true) {
+      const header = this.readHeader(offset);
+      if (header.tag === SEQUENCE_DELIMITATION) return header.valueOffset;
+      if (header.tag !== ITEM) {
+        throw new Error("Invalid DICOM sequence: expected item");
+      }
+      offset =
+        header.length === UNDEFINED_LENGTH
+          ? this.skipItem(header.valueOffset)
+          : header.valueOffset + header.length;
+    }
+  }
+
+  /**
+   * Skips the elements of an undefined-length item.
+   *
+   * @returns The offset following the item delimitation element.
+   */
+  private skipItem(offset: number): number {
+    while (true) {
+      const header = this.readHeader(offset);
+      if (header.tag === ITEM_DELIMITATION) return header.valueOffset;
+      offset = this.skipValue(header);
+    }
+  }
+
+  skipValue(header: ElementHeader) {
+    return header.length === UNDEFINED_LENGTH
+      ? this.skipSequence(header.valueOffset)
+      : header.valueOffset + header.length;
+  }
+}
+
+export interface DicomFileMeta {
+  transferSyntaxUid: string;
+  // Offset of the data set following the file meta information.
+  datasetOffset: number;
+}
+
+/**
+ * Returns `true` if `data` starts with the preamble and `DICM` prefix of a DICOM Part 10 file.
+ */
+export function hasDicomPrefix(data: Uint8Array) {
+  return (
+    data.length >= PREAMBLE_SIZE + DICOM_MAGIC.length &&
+    DICOM_MAGIC.every((value, i) => data[PREAMBLE_SIZE + i] === value)
+  );
+}
+
+/**
+ * Parses the preamble and the file meta information group, which is always encoded with explicit
+ * VR little endian.
+ */
+export function parseDicomFileMeta(data: Uint8Array): DicomFileMeta {
+  if (!hasDicomPrefix(data)) {
+    throw new Error("Invalid DICOM file: missing DICM prefix");
+  }
+  const reader = new ElementReader(data, true, true);
+  let offset = PREAMBLE_SIZE + DICOM_MAGIC.length;
+  let transferSyntaxUid: string | undefined;
+  while (true) {
+    const header = reader.readHeader(offset);
+    if (header.tag >>> 16 !== 0x0002) break;
+    if (header.tag === DicomTag.TRANSFER_SYNTAX_UID) {
+      const end = header.valueOffset + header.length;
+      if (end > data.length) throw new IncompleteDicomDataError();
+      transferSyntaxUid = decodeString(data.subarray(header.valueOffset, end));
+    }
+    offset = reader.skipValue(header);
+  }
+  if (transferSyntaxUid === undefined) {
+    throw new Error("Invalid DICOM file: missing transfer syntax");
+  }
+  return { transferSyntaxUid, datasetOffset: offset };
+}
+
+function decodeString(data: Uint8Array) {
+  // Values are padded to an even length with a space or, for UIDs, a null character.
+  return new TextDecoder("latin1").decode(data).replace(/[\0 ]+$/, "").trim();
+}
+
+export class DicomDataset {
+  constructor(
+    public data: Uint8Array,
+    public littleEndian: boolean,
+    // Values of the elements preceding the pixel data.
+    private elements: Map<number, Uint8Array>,
+    // Offset and length of the pixel data within `data`.
+    public pixelData: { offset: number; length: number } | undefined,
+  ) {}
+
+  getString(tag: DicomTag): string | undefined {
+    const value = this.elements.get(tag);
+    return value === undefined ? undefined : decodeString(value);
+  }
+
+  /**
+   * Returns the values of a decimal string (DS) or integer string (IS) element.
+   */
+  getNumbers(tag: DicomTag): number[] | undefined {
+    const value = this.getString(tag);
+    if (value === undefined || value === "") return undefined;
+    const numbers = value.split("\\").map(Number);
+    return numbers.every(Number.isFinite) ? numbers : undefined;
+  }
+
+  getUint16(tag: DicomTag): number | undefined {
+    const value = this.elements.get(tag);
+    if (value === undefined || value.length < 2) return undefined;
+    return new DataView(value.buffer, value.byteOffset, 2).getUint16(
+      0,
+      this.littleEndian,
+    );
+  }
+}
+
+/**
+ * Parses the data set starting at `offset`, up to the pixel data element.
+ *
+ * @param complete Indicates whether `data` contains the entire data set.  If not, and the pixel
+ *     data element is not reached, `IncompleteDicomDataError` is thrown.
+ */
+export function parseDicomDataset(
+  data: Uint8Array,
+  offset: number,
+  transferSyntaxUid: string,
+  complete: boolean,
+): DicomDataset {
+  let explicitVR: boolean;
+  let littleEndian = true;
+  switch (transferSyntaxUid) {
+    case TransferSyntax.IMPLICIT_VR_LITTLE_ENDIAN:
+      explicitVR = false;
+      break;
+    case TransferSyntax.EXPLICIT_VR_LITTLE_ENDIAN:
+    case TransferSyntax.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN:
+      explicitVR = true;
+      break;
+    case TransferSyntax.EXPLICIT_VR_BIG_ENDIAN:
+      explicitVR = true;
+      littleEndian = false;
+      break;
+    default:
+      throw new Error(
+        `Unsupported DICOM transfer syntax: ${JSON.stringify(transferSyntaxUid)}; ` +
+          "only uncompressed and deflated data is supported",
+      );
+  }
+  const reader = new ElementReader(data, explicitVR, littleEndian);
+  const elements = new Map<number, Uint8Array>();
+  try {
+    while (offset < data.length) {
+      const header = reader.readHeader(offset);
+      if (header.tag === DicomTag.PIXEL_DATA) {
+        if (header.length === UNDEFINED_LENGTH) {
+          throw new Error(
+            "Unsupported DICOM file: pixel data is encapsulated (compressed)",
+          );
+        }
+        return new DicomDataset(data, littleEndian, elements, {
+          offset: header.valueOffset,
+          length: header.length,
+        });
+      }
+      if (header.length !== UNDEFINED_LENGTH) {
+        const end = header.valueOffset + header.length;
+        if (end > data.length) throw new IncompleteDicomDataError();
+        elements.set(header.tag, data.subarray(header.valueOffset, end));
+      }
+      offset = reader.skipValue(header);
+    }
+  } catch (e) {
+    if (complete && e instanceof IncompleteDicomDataError) {
+      throw new Error("Invalid DICOM file: data set ended unexpectedly");
+    }
+    throw e;
+  }
+  if (!complete) throw new IncompleteDicomDataError();
+  return new DicomDataset(data, littleEndian, elements, undefined);
+}
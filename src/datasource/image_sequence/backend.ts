@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { ImageSequenceInfo } from "#src/datasource/image_sequence/base.js";
+import {
+  GET_IMAGE_SEQUENCE_INFO_RPC_ID,
+  IMAGE_FILE_PATTERN,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/image_sequence/base.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { throwIfCanceled } from "#src/util/cancellation.js";
+import {
+  cancellableFetchOk,
+  listDirectory,
+  responseArrayBuffer,
+} from "#src/util/http_request.js";
+import { naturalStringCompare } from "#src/util/string.js";
+import * as vector from "#src/util/vector.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Returns the number of color channels (excluding alpha) of a PNG or JPEG image, determined from
+ * the PNG `IHDR` chunk or the JPEG frame header.
+ */
+function getImageChannels(data: Uint8Array): number {
+  if (PNG_SIGNATURE.every((value, i) => data[i] === value)) {
+    if (data.length < 26) {
+      throw new Error("Invalid PNG file: too short");
+    }
+    const colorType = data[25];
+    // Grayscale, with or without alpha.
+    if (colorType === 0 || colorType === 4) return 1;
+    // Truecolor or indexed color, with or without alpha.
+    if (colorType === 2 || colorType === 3 || colorType === 6) return 3;
+    throw new Error(`Invalid PNG color type: ${colorType}`);
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= data.length) {
+      if (data[offset] !== 0xff) break;
+      const marker = data[offset + 1];
+      if (marker === 0xff) {
+        // Fill byte.
+        ++offset;
+        continue;
+      }
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+        // Markers without a segment.
+        offset += 2;
+        continue;
+      }
+      // Start of frame markers, excluding DHT, JPG and DAC which share the same range.
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        if (offset + 10 > data.length) break;
+        const numComponents = data[offset + 9];
+        if (numComponents === 1 || numComponents === 3) return numComponents;
+        throw new Error(`Unsupported number of JPEG components: ${numComponents}`);
+      }
+      offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+    }
+    throw new Error("Invalid JPEG file: no frame header found");
+  }
+  throw new Error("Unsupported image format: expected PNG or JPEG");
+}
+
+async function decodeImageBitmap(buffer: ArrayBuffer) {
+  // Disable color space conversion and premultiplication so that pixel values are unchanged.
+  return createImageBitmap(new Blob([buffer]), {
+    colorSpaceConversion: "none",
+    premultiplyAlpha: "none",
+  });
+}
+
+interface ImageSequence {
+  info: ImageSequenceInfo;
+  // URLs of the slices, in order.
+  urls: string[];
+}
+
+async function openImageSequence(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<ImageSequence> {
+  const names = await listDirectory(url);
+  if (names === undefined) {
+    throw new Error(`Image sequence ${JSON.stringify(url)} is not a directory`);
+  }
+  const baseUrl = url.replace(/\/*$/, "/");
+  const urls = names
+    .filter((name) => IMAGE_FILE_PATTERN.test(name))
+    .sort(naturalStringCompare)
+    .map((name) => baseUrl + name);
+  if (urls.length === 0) {
+    throw new Error(`No PNG or JPEG files found in ${JSON.stringify(url)}`);
+  }
+  // The size and number of channels are determined from the first slice.
+  const buffer = await cancellableFetchOk(
+    urls[0],
+    {},
+    responseArrayBuffer,
+    cancellationToken,
+  );
+  const numChannels = getImageChannels(new Uint8Array(buffer));
+  const bitmap = await decodeImageBitmap(buffer);
+  throwIfCanceled(cancellationToken);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return {
+    info: { width, height, depth: urls.length, numChannels },
+    urls,
+  };
+}
+
+interface ImageSlice {
+  width: number;
+  height: number;
+  // Pixel values, with one plane per channel.
+  data: Uint8Array;
+}
+
+/**
+ * Decodes a slice using the browser's image decoder, keeping the first `numChannels` of the RGBA
+ * values.
+ */
+async function decodeSlice(
+  url: string,
+  numChannels: number,
+  cancellationToken: CancellationToken,
+): Promise<ImageSlice> {
+  const buffer = await cancellableFetchOk(
+    url,
+    {},
+    responseArrayBuffer,
+    cancellationToken,
+  );
+  const bitmap = await decodeImageBitmap(buffer);
+  const { width, height } = bitmap;
+  let rgba: Uint8ClampedArray;
+  try {
+    throwIfCanceled(cancellationToken);
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext("2d", { willReadFrequently: true })!;
+    context.drawImage(bitmap, 0, 0);
+    rgba = context.getImageData(0, 0, width, height).data;
+  } finally {
+    bitmap.close();
+  }
+  const planeSize = width * height;
+  const data = new Uint8Array(planeSize * numChannels);
+  for (let channel = 0; channel < numChannels; ++channel) {
+    const offset = channel * planeSize;
+    for (let i = 0; i < planeSize; ++i) {
+      data[offset + i] = rgba[i * 4 + channel];
+    }
+  }
+  return { width, height, data };
+}
+
+function getImageSequenceCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "image_sequence", {
+    get: async (url: string, cancellationToken: CancellationToken) => {
+      const sequence = await openImageSequence(url, cancellationToken);
+      return { data: sequence, size: 0 };
+    },
+  });
+}
+
+function getImageSliceCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "image_sequence:slice", {
+    get: async (
+      key: { url: string; numChannels: number },
+      cancellationToken: CancellationToken,
+    ) => {
+      const slice = await decodeSlice(
+        key.url,
+        key.numChannels,
+        cancellationToken,
+      );
+      return { data: slice, size: slice.data.byteLength };
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_IMAGE_SEQUENCE_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string },
+    cancellationToken,
+  ): RPCPromise<ImageSequenceInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getImageSequenceCache(chunkManager);
+    try {
+      const { info } = await cache.get(x.url, cancellationToken);
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class ImageSequenceVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private sequenceCache = this.registerDisposer(
+    getImageSequenceCache(this.chunkManager),
+  );
+  private sliceCache = this.registerDisposer(
+    getImageSliceCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { info, urls } = await this.sequenceCache.get(
+      this.parameters.url,
+      cancellationToken,
+    );
+    // The chunk position is stored in a temporary array shared by all chunks of the source, and
+    // must be read before any further asynchronous operations.
+    const [x0, y0, z0, c0 = 0] = this.computeChunkBounds(chunk);
+    const chunkDataSize = chunk.chunkDataSize!;
+    const [width, height, depth, numChannels = 1] = chunkDataSize;
+    const { numChannels: sliceChannels } = info;
+    const output = new Uint8Array(vector.prod(chunkDataSize));
+    await Promise.all(
+      Array.from({ length: depth }, async (_, z) => {
+        const url = urls[z0 + z];
+        const slice = await this.sliceCache.get(
+          { url, numChannels: sliceChannels },
+          cancellationToken,
+        );
+        if (slice.width !== info.width || slice.height !== info.height) {
+          throw new Error(
+            `Image ${JSON.stringify(url)} has size ${slice.width}x${slice.height}, ` +
+              `but expected ${info.width}x${info.height}`,
+          );
+        }
+        const slicePlaneSize = info.width * info.height;
+        for (let c = 0; c < numChannels; ++c) {
+          for (let y = 0; y < height; ++y) {
+            const inputOffset =
+              (c0 + c) * slicePlaneSize + (y0 + y) * info.width + x0;
+            output.set(
+              slice.data.subarray(inputOffset, inputOffset + width),
+              ((c * depth + z) * height + y) * width,
+            );
+          }
+        }
+      }),
+    );
+    await postProcessRawData(chunk, cancellationToken, output);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Files with these extensions are used as slices.
+export const IMAGE_FILE_PATTERN = /\.(?:png|jpe?g)$/i;
+
+export const GET_IMAGE_SEQUENCE_INFO_RPC_ID =
+  "image_sequence/getImageSequenceInfo";
+
+export interface ImageSequenceInfo {
+  // Size of each slice, in pixels.
+  width: number;
+  height: number;
+  // Number of slices.
+  depth: number;
+  // 1 for grayscale images, or 3 for color images.
+  numChannels: number;
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  static RPC_ID = "image_sequence/VolumeChunkSource";
+}
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type { ImageSequenceInfo } from "#src/datasource/image_sequence/base.js";
+import {
+  GET_IMAGE_SEQUENCE_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/image_sequence/base.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import {
+  parseQueryStringParameters,
+  verifyObject,
+  verifyOptionalObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+import { parseScaleList } from "#src/util/si_units.js";
+
+class ImageSequenceVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Maximum chunk size along the x and y dimensions.
+const CHUNK_SLICE_SIZE = 256;
+
+// Number of slices in each chunk.
+const CHUNK_DEPTH = 16;
+
+interface VoxelSize {
+  scale: number;
+  unit: string;
+}
+
+/**
+ * Parses the `voxel_size` query parameter, which specifies either a single voxel size for all 3
+ * dimensions, or a comma-separated list of 3 voxel sizes.
+ */
+function parseVoxelSize(value: unknown): VoxelSize[] {
+  const result = parseScaleList(verifyString(value), 3);
+  if (result === undefined) {
+    throw new Error(`Invalid voxel size: ${JSON.stringify(value)}`);
+  }
+  return result;
+}
+
+function getModelSpace(
+  info: ImageSequenceInfo,
+  voxelSize: VoxelSize[],
+): CoordinateSpace {
+  const names = ["x", "y", "z"];
+  const scales = voxelSize.map((size) => size.scale);
+  const units = voxelSize.map((size) => size.unit);
+  const upperBounds = [info.width, info.height, info.depth];
+  if (info.numChannels > 1) {
+    names.push("c'");
+    scales.push(1);
+    units.push("");
+    upperBounds.push(info.numChannels);
+  }
+  const rank = names.length;
+  return makeCoordinateSpace({
+    names,
+    units,
+    scales: Float64Array.from(scales),
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(upperBounds),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+}
+
+export class ImageSequenceMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+  dataType = DataType.UINT8;
+
+  get rank() {
+    return this.modelSpace.rank;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public url: string,
+    public info: ImageSequenceInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, info } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    const upperVoxelBound = Float32Array.of(
+      info.width,
+      info.height,
+      info.depth,
+      info.numChannels,
+    ).subarray(0, rank);
+    // Each chunk covers a group of consecutive slices, and all channels.
+    const chunkDataSize = Uint32Array.of(
+      Math.min(info.width, CHUNK_SLICE_SIZE),
+      Math.min(info.height, CHUNK_SLICE_SIZE),
+      Math.min(info.depth, CHUNK_DEPTH),
+      info.numChannels,
+    ).subarray(0, rank);
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound,
+        volumeType: this.volumeType,
+        chunkDataSizes: [chunkDataSize],
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(
+            ImageSequenceVolumeChunkSource,
+            { spec, parameters: { url: this.url } },
+          ),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+function getImageSequenceInfo(
+  chunkManager: ChunkManager,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<ImageSequenceInfo> {
+  return chunkManager.rpc!.promiseInvoke<ImageSequenceInfo>(
+    GET_IMAGE_SEQUENCE_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, url },
+    cancellationToken,
+  );
+}
+
+export class ImageSequenceDataSource extends DataSourceProvider {
+  get description() {
+    return "PNG/JPEG image sequence data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    // Pattern is infallible.
+    let [, url, query] = options.providerUrl.match(/([^?]*)(?:\?(.*))?$/)!;
+    const parameters = parseQueryStringParameters(query || "");
+    verifyObject(parameters);
+    const voxelSize =
+      verifyOptionalObjectProperty(parameters, "voxel_size", parseVoxelSize) ??
+      parseVoxelSize("1");
+    url = url.replace(/\/+$/, "");
+    return options.chunkManager.memoize.getUncounted(
+      { type: "image_sequence:MultiscaleVolumeChunkSource", url, voxelSize },
+      async () => {
+        const info = await getImageSequenceInfo(
+          options.chunkManager,
+          url,
+          options.cancellationToken,
+        );
+        const modelSpace = getModelSpace(info, voxelSize);
+        const volume = new ImageSequenceMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          url,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/mrc/base.js";
+import { readUncompressedChunk } from "#src/datasource/raw/backend.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { FileReader } from "#src/util/file_system.js";
+import { registerSharedObject } from "#src/worker/worker_rpc.js";
+
+function decodeFloat16(input: Uint16Array): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let i = 0, n = input.length; i < n; ++i) {
+    const value = input[i];
+    const sign = value & 0x8000 ? -1 : 1;
+    const exponent = (value >> 10) & 0x1f;
+    const fraction = value & 0x3ff;
+    if (exponent === 0) {
+      // Subnormal.
+      output[i] = sign * fraction * 2 ** -24;
+    } else if (exponent === 0x1f) {
+      output[i] = fraction ? NaN : sign * Infinity;
+    } else {
+      output[i] = sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+    }
+  }
+  return output;
+}
+
+@registerSharedObject()
+export class MrcVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileReader = new FileReader("");
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { parameters } = this;
+    const { url } = parameters;
+    let data = await readUncompressedChunk(
+      parameters,
+      this.computeChunkBounds(chunk),
+      chunk.chunkDataSize!,
+      async (offset, length) => {
+        const response = await this.fileReader.read(url, {
+          byteRange: { offset, length },
+          cancellationToken,
+        });
+        if (response === undefined || response.data.length !== length) {
+          throw new Error(
+            `Failed to read ${length} bytes at offset ${offset} of ` +
+              `${JSON.stringify(url)}`,
+          );
+        }
+        return response.data;
+      },
+    );
+    if (parameters.float16) {
+      data = decodeFloat16(data as Uint16Array);
+    }
+    await postProcessRawData(chunk, cancellationToken, data);
+  }
+}
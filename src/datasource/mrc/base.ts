@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+import type { Endianness } from "#src/util/endian.js";
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  // Number of columns, rows and sections.
+  shape: number[];
+  // Data type of the stored elements.  For mode 12, this is `UINT16`.
+  dataType: DataType;
+  endianness: Endianness;
+  // Offset in bytes of the first element, following the header and extended header.
+  byteOffset: number;
+  // Whether the elements are half-precision floats (mode 12), to be converted to float32.
+  float16: boolean;
+  static RPC_ID = "mrc/VolumeChunkSource";
+}
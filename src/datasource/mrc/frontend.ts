@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Data source for MRC/MRCS files, as used for cryo-EM volumes and image stacks.
+ *
+ * See https://www.ccpem.ac.uk/mrc_format/mrc2014.php for the format.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/mrc/base.js";
+import { parseDimensionUnit } from "#src/datasource/zarr/metadata/parse.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import { Endianness } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import * as matrix from "#src/util/matrix.js";
+
+class MrcVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+const MRC_HEADER_SIZE = 1024;
+
+// Value of the `imodStamp` header field in files written by IMOD.
+const IMOD_STAMP = 1146047817;
+
+// Data types of the supported modes, as stored.  Mode 0 is signed according to the MRC2014
+// specification, but files written by older versions of IMOD indicate unsigned bytes with a flag.
+const MRC_MODES = new Map<number, DataType>([
+  [0, DataType.INT8],
+  [1, DataType.INT16],
+  [2, DataType.FLOAT32],
+  [6, DataType.UINT16],
+  [12, DataType.UINT16],
+]);
+
+const MRC_FLOAT16_MODE = 12;
+
+const AXIS_NAMES = ["x", "y", "z"];
+
+interface MrcVolumeInfo {
+  parameters: VolumeChunkSourceParameters;
+  // Data type after conversion of float16 data to float32.
+  dataType: DataType;
+  // Names of the axes corresponding to the columns, rows and sections.
+  names: string[];
+  // Voxel size along the columns, rows and sections, in angstroms.
+  voxelSize: number[];
+}
+
+function parseMrcHeader(url: string, data: Uint8Array): MrcVolumeInfo {
+  if (data.length < MRC_HEADER_SIZE) {
+    throw new Error("Invalid MRC file: too short");
+  }
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // The machine stamp indicates the byte order, but is not set correctly by all software; fall
+  // back to checking which byte order gives a valid mode.
+  let littleEndian: boolean;
+  switch (data[212]) {
+    case 0x44:
+      littleEndian = true;
+      break;
+    case 0x11:
+      littleEndian = false;
+      break;
+    default:
+      littleEndian = MRC_MODES.has(dv.getInt32(12, /*littleEndian=*/ true));
+      break;
+  }
+  const getInt32s = (offset: number, count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      dv.getInt32(offset + i * 4, littleEndian),
+    );
+  const shape = getInt32s(0, 3);
+  if (!shape.every((size) => size > 0)) {
+    throw new Error(`Invalid MRC dimensions: ${JSON.stringify(shape)}`);
+  }
+  const mode = dv.getInt32(12, littleEndian);
+  let dataType = MRC_MODES.get(mode);
+  if (dataType === undefined) {
+    throw new Error(`Unsupported MRC mode: ${mode}`);
+  }
+  if (
+    mode === 0 &&
+    dv.getInt32(152, littleEndian) === IMOD_STAMP &&
+    dv.getInt32(156, littleEndian) & 1
+  ) {
+    dataType = DataType.UINT8;
+  }
+  const sampling = getInt32s(28, 3);
+  const cellDimensions = Array.from({ length: 3 }, (_, i) =>
+    dv.getFloat32(40 + i * 4, littleEndian),
+  );
+  // Axes (1 = x, 2 = y, 3 = z) corresponding to the columns, rows and sections.
+  let axes = getInt32s(64, 3);
+  if (![1, 2, 3].every((axis) => axes.includes(axis))) {
+    axes = [1, 2, 3];
+  }
+  const names: string[] = [];
+  const voxelSize: number[] = [];
+  for (let i = 0; i < 3; ++i) {
+    const axis = axes[i] - 1;
+    names[i] = AXIS_NAMES[axis];
+    // The cell dimensions span `sampling` voxels along each axis.  If unspecified, as for some
+    // image stacks, the voxel size defaults to 1 angstrom.
+    const size =
+      cellDimensions[axis] / (sampling[axis] > 0 ? sampling[axis] : shape[i]);
+    voxelSize[i] = Number.isFinite(size) && size > 0 ? size : 1;
+  }
+  const extendedHeaderSize = dv.getInt32(92, littleEndian);
+  const float16 = mode === MRC_FLOAT16_MODE;
+  return {
+    parameters: {
+      url,
+      shape,
+      dataType,
+      endianness: littleEndian ? Endianness.LITTLE : Endianness.BIG,
+      byteOffset: MRC_HEADER_SIZE + Math.max(0, extendedHeaderSize),
+      float16,
+    },
+    dataType: float16 ? DataType.FLOAT32 : dataType,
+    names,
+    voxelSize,
+  };
+}
+
+async function getMrcVolumeInfo(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<MrcVolumeInfo> {
+  const response = await new FileReader("").read(url, {
+    byteRange: { offset: 0, length: MRC_HEADER_SIZE },
+    cancellationToken,
+  });
+  if (response === undefined) {
+    throw new Error(`Failed to read MRC header of ${JSON.stringify(url)}`);
+  }
+  return parseMrcHeader(url, response.data);
+}
+
+function getModelSpace(info: MrcVolumeInfo): CoordinateSpace {
+  const { shape } = info.parameters;
+  const rank = shape.length;
+  const angstrom = parseDimensionUnit("angstrom");
+  return makeCoordinateSpace({
+    names: info.names,
+    units: info.names.map(() => angstrom.unit),
+    scales: Float64Array.from(info.voxelSize, (size) => size * angstrom.scale),
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(shape),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+}
+
+export class MrcMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.parameters.shape.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public info: MrcVolumeInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, info } = this;
+    const { parameters } = info;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(parameters.shape),
+        volumeType: this.volumeType,
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(MrcVolumeChunkSource, {
+            spec,
+            parameters,
+          }),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+export class MrcDataSource extends DataSourceProvider {
+  get description() {
+    return "MRC/MRCS data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl;
+    return options.chunkManager.memoize.getUncounted(
+      { type: "mrc:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = await getMrcVolumeInfo(url, options.cancellationToken);
+        const modelSpace = getModelSpace(info);
+        const volume = new MrcMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import {
+  VolumeChunkEncoding,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/n5/base.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import { decodeRawChunk } from "#src/sliceview/backend_chunk_decoders/raw.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import { decodeBzip2 } from "#src/util/bzip2.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_ARRAY_CONSTRUCTOR,
+  DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT,
+} from "#src/util/data_type.js";
+import { Endianness } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import { decodeGzip } from "#src/util/gzip.js";
+import * as vector from "#src/util/vector.js";
+import { decodeXz } from "#src/util/xz.js";
+import { registerSharedObject } from "#src/worker/worker_rpc.js";
+import { Blosc } from "numcodecs";
+
+// Block modes defined by the N5 specification.
+const BLOCK_MODE_DEFAULT = 0;
+const BLOCK_MODE_VARLENGTH = 1;
+
+// The blosc header records the compressor, shuffle and type size used to encode the block.
+const blosc = Blosc.fromConfig({ id: "blosc" });
+
+async function decompress(
+  data: Uint8Array,
+  encoding: VolumeChunkEncoding,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  switch (encoding) {
+    case VolumeChunkEncoding.RAW:
+      return data;
+    case VolumeChunkEncoding.GZIP:
+      return new Uint8Array(await decodeGzip(data, "gzip", cancellationToken));
+    case VolumeChunkEncoding.ZLIB:
+      return new Uint8Array(
+        await decodeGzip(data, "deflate", cancellationToken),
+      );
+    case VolumeChunkEncoding.BZIP2:
+      return decodeBzip2(data);
+    case VolumeChunkEncoding.XZ:
+      return decodeXz(data);
+    case VolumeChunkEncoding.BLOSC:
+      return await blosc.decode(data);
+  }
+}
+
+@registerSharedObject()
+export class N5VolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileReader = new FileReader(this.parameters.url + "/");
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    // Sets `chunk.chunkDataSize` for missing blocks; otherwise it is taken from the block header.
+    this.computeChunkBounds(chunk);
+    const { rank, dataType } = this.spec;
+    const response = await this.fileReader.read(
+      chunk.chunkGridPosition.join("/"),
+      { cancellationToken },
+    );
+    if (response === undefined) {
+      // Missing blocks are treated as all zero.
+      const data = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](
+        vector.prod(chunk.chunkDataSize!) *
+          DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT[dataType],
+      );
+      await postProcessRawData(chunk, cancellationToken, data);
+      return;
+    }
+    const { data } = response;
+    // The block header and data are big endian.
+    const dataView = new DataView(
+      data.buffer,
+      data.byteOffset,
+      data.byteLength,
+    );
+    const mode = dataView.getUint16(0);
+    if (mode !== BLOCK_MODE_DEFAULT && mode !== BLOCK_MODE_VARLENGTH) {
+      throw new Error(`Unsupported N5 block mode: ${mode}`);
+    }
+    const numDimensions = dataView.getUint16(2);
+    if (numDimensions !== rank) {
+      throw new Error(
+        `N5 block has ${numDimensions} dimensions, but ${rank} are expected`,
+      );
+    }
+    let offset = 4;
+    // Blocks at the upper bound of the dataset may be truncated.
+    const shape = new Uint32Array(rank);
+    for (let i = 0; i < rank; ++i, offset += 4) {
+      shape[i] = dataView.getUint32(offset);
+    }
+    if (mode === BLOCK_MODE_VARLENGTH) {
+      const numElements = dataView.getUint32(offset);
+      offset += 4;
+      if (numElements !== vector.prod(shape)) {
+        throw new Error(
+          `N5 block has ${numElements} elements, but its shape is [${shape.join()}]`,
+        );
+      }
+    }
+    chunk.chunkDataSize = shape;
+    const decoded = await decompress(
+      data.subarray(offset),
+      this.parameters.encoding,
+      cancellationToken,
+    );
+    await decodeRawChunk(
+      chunk,
+      cancellationToken,
+      decoded.byteOffset === 0 &&
+        decoded.byteLength === decoded.buffer.byteLength
+        ? (decoded.buffer as ArrayBuffer)
+        : decoded.slice().buffer,
+      Endianness.BIG,
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export enum VolumeChunkEncoding {
+  RAW = 0,
+  GZIP = 1,
+  // `gzip` compression with `useZlib` set.
+  ZLIB = 2,
+  BZIP2 = 3,
+  XZ = 4,
+  BLOSC = 5,
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  encoding: VolumeChunkEncoding;
+  static RPC_ID = "n5/VolumeChunkSource";
+}
@@ -0,0 +1,419 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import {
+  VolumeChunkEncoding,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/n5/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  DataType,
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import {
+  cancellableFetchOk,
+  isNotFoundError,
+  responseJson,
+} from "#src/util/http_request.js";
+import {
+  parseArray,
+  parseFixedLengthArray,
+  verifyBoolean,
+  verifyEnumString,
+  verifyFinitePositiveFloat,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+  verifyPositiveInt,
+  verifyString,
+  verifyStringArray,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+import { scaleByExp10, unitFromJson } from "#src/util/si_units.js";
+
+class N5VolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+interface DatasetAttributes {
+  dataType: DataType;
+  dimensions: Float32Array;
+  blockSize: Uint32Array;
+  encoding: VolumeChunkEncoding;
+}
+
+interface ScaleInfo {
+  url: string;
+  attributes: DatasetAttributes;
+  downsamplingFactors: Float64Array;
+}
+
+interface MultiscaleVolumeInfo {
+  dataType: DataType;
+  modelSpace: CoordinateSpace;
+  scales: ScaleInfo[];
+}
+
+function parseCompressionType(type: string, obj: any) {
+  switch (type) {
+    case "raw":
+      return VolumeChunkEncoding.RAW;
+    case "gzip":
+      return verifyOptionalObjectProperty(obj, "useZlib", verifyBoolean, false)
+        ? VolumeChunkEncoding.ZLIB
+        : VolumeChunkEncoding.GZIP;
+    case "bzip2":
+      return VolumeChunkEncoding.BZIP2;
+    case "xz":
+      return VolumeChunkEncoding.XZ;
+    case "blosc":
+      return VolumeChunkEncoding.BLOSC;
+    default:
+      throw new Error(`Unsupported N5 compression type: ${JSON.stringify(type)}`);
+  }
+}
+
+function parseDatasetAttributes(obj: unknown): DatasetAttributes {
+  verifyObject(obj);
+  const dimensions = verifyObjectProperty(obj, "dimensions", (x) =>
+    Float32Array.from(parseArray(x, verifyPositiveInt)),
+  );
+  const rank = dimensions.length;
+  const blockSize = verifyObjectProperty(obj, "blockSize", (x) =>
+    parseFixedLengthArray(new Uint32Array(rank), x, verifyPositiveInt),
+  );
+  const dataType = verifyObjectProperty(obj, "dataType", (x) =>
+    verifyEnumString(x, DataType),
+  );
+  let encoding = verifyOptionalObjectProperty(obj, "compression", (x) => {
+    verifyObject(x);
+    return parseCompressionType(
+      verifyObjectProperty(x, "type", verifyString),
+      x,
+    );
+  });
+  if (encoding === undefined) {
+    // Older versions of the N5 specification only specify the compression type.
+    encoding = verifyOptionalObjectProperty(
+      obj,
+      "compressionType",
+      (x) => parseCompressionType(verifyString(x), {}),
+      VolumeChunkEncoding.RAW,
+    );
+  }
+  return { dataType, dimensions, blockSize, encoding };
+}
+
+function parseDownsamplingFactors(obj: unknown, rank: number) {
+  return parseFixedLengthArray(
+    new Float64Array(rank),
+    obj,
+    verifyFinitePositiveFloat,
+  );
+}
+
+/**
+ * Returns the names, units and scales of each dimension, as specified by either the `resolution`,
+ * `units` and `axes` attributes used by n5-viewer or the `pixelResolution` attribute used by
+ * BigDataViewer.
+ */
+function parseCoordinateSpaceAttributes(attributes: any, rank: number) {
+  const names = verifyOptionalObjectProperty(
+    attributes,
+    "axes",
+    (x) => {
+      const names = verifyStringArray(x);
+      if (names.length !== rank) {
+        throw new Error(
+          `Expected length ${rank} array, but received: ${JSON.stringify(x)}`,
+        );
+      }
+      return names;
+    },
+    Array.from({ length: rank }, (_, i) => `d${i}`),
+  );
+  let resolution = verifyOptionalObjectProperty(attributes, "resolution", (x) =>
+    parseFixedLengthArray(new Float64Array(rank), x, verifyFinitePositiveFloat),
+  );
+  let units = verifyOptionalObjectProperty(attributes, "units", (x) =>
+    parseFixedLengthArray(new Array<string>(rank), x, verifyString),
+  );
+  verifyOptionalObjectProperty(attributes, "pixelResolution", (x) => {
+    verifyObject(x);
+    resolution ??= verifyObjectProperty(x, "dimensions", (y) =>
+      parseFixedLengthArray(
+        new Float64Array(rank),
+        y,
+        verifyFinitePositiveFloat,
+      ),
+    );
+    units ??= new Array<string>(rank).fill(
+      verifyObjectProperty(x, "unit", verifyString),
+    );
+  });
+  const scales = new Float64Array(rank);
+  const baseUnits = new Array<string>(rank);
+  for (let i = 0; i < rank; ++i) {
+    let unit = units?.[i] ?? "";
+    // Commonly used in place of "µm".
+    if (unit === "um") unit = "µm";
+    const { unit: baseUnit, exponent } = unitFromJson(unit);
+    scales[i] = scaleByExp10(resolution?.[i] ?? 1, exponent);
+    baseUnits[i] = baseUnit;
+  }
+  return { names, units: baseUnits, scales };
+}
+
+function getJsonResource(
+  chunkManager: ChunkManager,
+  url: string,
+): Promise<any | undefined> {
+  return chunkManager.memoize.getUncounted(
+    { type: "n5:json", url },
+    async () => {
+      try {
+        return await cancellableFetchOk(url, {}, responseJson);
+      } catch (e) {
+        if (isNotFoundError(e)) return undefined;
+        throw e;
+      }
+    },
+  );
+}
+
+function getAttributes(chunkManager: ChunkManager, url: string) {
+  return getJsonResource(chunkManager, `${url}/attributes.json`);
+}
+
+async function getScales(
+  chunkManager: ChunkManager,
+  url: string,
+  groupAttributes: any,
+): Promise<ScaleInfo[]> {
+  if (groupAttributes.dimensions !== undefined) {
+    // Single dataset.
+    const attributes = parseDatasetAttributes(groupAttributes);
+    const rank = attributes.dimensions.length;
+    return [
+      {
+        url,
+        attributes,
+        downsamplingFactors: new Float64Array(rank).fill(1),
+      },
+    ];
+  }
+  // Multiscale group, with scale datasets named `s0`, `s1`, etc.  The downsampling factors are
+  // specified either by the `scales` attribute of the group, which also determines the number of
+  // scales, or by the `downsamplingFactors` attribute of each dataset.
+  const groupScales = verifyOptionalObjectProperty(
+    groupAttributes,
+    "scales",
+    (x) => parseArray(x, (y) => parseArray(y, verifyFinitePositiveFloat)),
+  );
+  const scales: ScaleInfo[] = [];
+  for (let i = 0; groupScales === undefined || i < groupScales.length; ++i) {
+    const scaleUrl = `${url}/s${i}`;
+    const scaleAttributes = await getAttributes(chunkManager, scaleUrl);
+    if (scaleAttributes === undefined) {
+      if (groupScales === undefined && i > 0) break;
+      throw new Error(`N5 dataset attributes not found at ${scaleUrl}`);
+    }
+    const attributes = parseDatasetAttributes(scaleAttributes);
+    const rank = attributes.dimensions.length;
+    const downsamplingFactors =
+      groupScales === undefined
+        ? verifyOptionalObjectProperty(
+            scaleAttributes,
+            "downsamplingFactors",
+            (x) => parseDownsamplingFactors(x, rank),
+            new Float64Array(rank).fill(1),
+          )
+        : parseDownsamplingFactors(groupScales[i], rank);
+    scales.push({ url: scaleUrl, attributes, downsamplingFactors });
+  }
+  const { dataType, dimensions } = scales[0].attributes;
+  for (const { url, attributes } of scales) {
+    if (attributes.dimensions.length !== dimensions.length) {
+      throw new Error(
+        `Expected N5 dataset at ${JSON.stringify(url)} to have rank ` +
+          `${dimensions.length}, but received: ${attributes.dimensions.length}`,
+      );
+    }
+    if (attributes.dataType !== dataType) {
+      throw new Error(
+        `Expected N5 dataset at ${JSON.stringify(url)} to have data type ` +
+          `${DataType[dataType]}, but received: ${
+            DataType[attributes.dataType]
+          }`,
+      );
+    }
+  }
+  return scales;
+}
+
+async function getMultiscaleVolumeInfo(
+  chunkManager: ChunkManager,
+  url: string,
+): Promise<MultiscaleVolumeInfo> {
+  const groupAttributes = await getAttributes(chunkManager, url);
+  if (groupAttributes === undefined) {
+    throw new Error("No N5 metadata found");
+  }
+  verifyObject(groupAttributes);
+  const scales = await getScales(chunkManager, url, groupAttributes);
+  const baseScale = scales[0];
+  const { dataType, dimensions } = baseScale.attributes;
+  const rank = dimensions.length;
+  // Resolution attributes may be specified on the group or on the base scale dataset.
+  const coordinateSpaceAttributes =
+    scales.length === 1 && baseScale.url === url
+      ? groupAttributes
+      : {
+          ...(await getAttributes(chunkManager, baseScale.url)),
+          ...groupAttributes,
+        };
+  const { names, units, scales: coordinateScales } =
+    parseCoordinateSpaceAttributes(coordinateSpaceAttributes, rank);
+  const modelSpace = makeCoordinateSpace({
+    names,
+    units,
+    scales: coordinateScales,
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(dimensions),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+  return { dataType, modelSpace, scales };
+}
+
+export class N5MultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get modelSpace() {
+    return this.info.modelSpace;
+  }
+
+  get rank() {
+    return this.info.modelSpace.rank;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public info: MultiscaleVolumeInfo,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank } = this;
+    const baseDownsamplingFactors = this.info.scales[0].downsamplingFactors;
+    const stride = rank + 1;
+    return transposeNestedArrays(
+      this.info.scales.map((scale) => {
+        const { attributes, downsamplingFactors } = scale;
+        const chunkToMultiscaleTransform = new Float32Array(stride * stride);
+        chunkToMultiscaleTransform[stride * stride - 1] = 1;
+        for (let i = 0; i < rank; ++i) {
+          chunkToMultiscaleTransform[stride * i + i] =
+            downsamplingFactors[i] / baseDownsamplingFactors[i];
+        }
+        return makeDefaultVolumeChunkSpecifications({
+          rank,
+          chunkToMultiscaleTransform,
+          dataType: this.dataType,
+          upperVoxelBound: attributes.dimensions,
+          volumeType: this.volumeType,
+          chunkDataSizes: [attributes.blockSize],
+          volumeSourceOptions,
+        }).map(
+          (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+            chunkSource: this.chunkManager.getChunkSource(N5VolumeChunkSource, {
+              spec,
+              parameters: {
+                url: scale.url,
+                encoding: attributes.encoding,
+              },
+            }),
+            chunkToMultiscaleTransform,
+          }),
+        );
+      }),
+    );
+  }
+}
+
+export class N5DataSource extends DataSourceProvider {
+  get description() {
+    return "N5 data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl.replace(/\/+$/, "");
+    return options.chunkManager.memoize.getUncounted(
+      { type: "n5:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = await getMultiscaleVolumeInfo(options.chunkManager, url);
+        const volume = new N5MultiscaleVolumeChunkSource(
+          options.chunkManager,
+          info,
+        );
+        const { rank } = volume.modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
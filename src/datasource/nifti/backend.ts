@@ -0,0 +1,384 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { NiftiVolumeInfo } from "#src/datasource/nifti/base.js";
+import {
+  GET_NIFTI_VOLUME_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/nifti/base.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { TypedArray } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_ARRAY_CONSTRUCTOR,
+  DATA_TYPE_BYTES,
+  DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT,
+  DataType,
+  makeDataTypeArrayView,
+} from "#src/util/data_type.js";
+import { convertEndian, Endianness } from "#src/util/endian.js";
+import { decodeGzip } from "#src/util/gzip.js";
+import {
+  cancellableFetchOk,
+  responseArrayBuffer,
+} from "#src/util/http_request.js";
+import * as vector from "#src/util/vector.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+const NIFTI1_HEADER_SIZE = 348;
+const NIFTI2_HEADER_SIZE = 540;
+
+const NIFTI_DATA_TYPES = new Map<number, DataType>([
+  [2, DataType.UINT8],
+  [4, DataType.INT16],
+  [8, DataType.INT32],
+  [16, DataType.FLOAT32],
+  [256, DataType.INT8],
+  [512, DataType.UINT16],
+  [768, DataType.UINT32],
+  [1280, DataType.UINT64],
+]);
+
+// Units encoded by the low 3 bits of `xyzt_units`.
+const NIFTI_SPATIAL_UNITS = new Map<number, string>([
+  [1, "m"],
+  [2, "mm"],
+  [3, "µm"],
+]);
+
+// Units encoded by bits 3-5 of `xyzt_units`.
+const NIFTI_TIME_UNITS = new Map<number, string>([
+  [8, "s"],
+  [16, "ms"],
+  [24, "µs"],
+  [32, "Hz"],
+  [48, "rad/s"],
+]);
+
+/**
+ * Fields of the NIfTI-1 or NIfTI-2 header that are needed to interpret the voxel data.
+ */
+interface NiftiHeader {
+  littleEndian: boolean;
+  // `dim[0]` through `dim[7]`.
+  dim: number[];
+  datatype: number;
+  // `pixdim[0]` through `pixdim[7]`.
+  pixdim: number[];
+  voxOffset: number;
+  xyztUnits: number;
+  description: string;
+  qformCode: number;
+  sformCode: number;
+  // `quatern_b`, `quatern_c`, `quatern_d`.
+  quatern: number[];
+  // `qoffset_x`, `qoffset_y`, `qoffset_z`.
+  qoffset: number[];
+  // `srow_x`, `srow_y`, `srow_z`.
+  srow: number[][];
+}
+
+function decodeString(data: Uint8Array) {
+  const end = data.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? data : data.subarray(0, end));
+}
+
+function parseNiftiHeader(data: Uint8Array): NiftiHeader {
+  if (data.byteLength < NIFTI1_HEADER_SIZE) {
+    throw new Error("Invalid NIfTI file: too short");
+  }
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let littleEndian = true;
+  let headerSize = dv.getInt32(0, littleEndian);
+  if (headerSize !== NIFTI1_HEADER_SIZE && headerSize !== NIFTI2_HEADER_SIZE) {
+    littleEndian = false;
+    headerSize = dv.getInt32(0, littleEndian);
+  }
+  const getFloats = (
+    offset: number,
+    count: number,
+    getter: (offset: number, littleEndian: boolean) => number,
+    size: number,
+  ) =>
+    Array.from({ length: count }, (_, i) =>
+      getter.call(dv, offset + i * size, littleEndian),
+    );
+  if (headerSize === NIFTI1_HEADER_SIZE) {
+    const magic = decodeString(data.subarray(344, 348));
+    if (magic !== "n+1") {
+      throw new Error(
+        `Unsupported NIfTI-1 magic: ${JSON.stringify(magic)}; ` +
+          `only single-file (.nii) datasets are supported`,
+      );
+    }
+    const getFloat32s = (offset: number, count: number) =>
+      getFloats(offset, count, dv.getFloat32, 4);
+    return {
+      littleEndian,
+      dim: getFloats(40, 8, dv.getInt16, 2),
+      datatype: dv.getInt16(70, littleEndian),
+      pixdim: getFloat32s(76, 8),
+      voxOffset: dv.getFloat32(108, littleEndian),
+      xyztUnits: dv.getUint8(123),
+      description: decodeString(data.subarray(148, 228)),
+      qformCode: dv.getInt16(252, littleEndian),
+      sformCode: dv.getInt16(254, littleEndian),
+      quatern: getFloat32s(256, 3),
+      qoffset: getFloat32s(268, 3),
+      srow: [getFloat32s(280, 4), getFloat32s(296, 4), getFloat32s(312, 4)],
+    };
+  }
+  if (headerSize === NIFTI2_HEADER_SIZE) {
+    if (data.byteLength < NIFTI2_HEADER_SIZE) {
+      throw new Error("Invalid NIfTI file: too short");
+    }
+    const magic = decodeString(data.subarray(4, 8));
+    if (magic !== "n+2") {
+      throw new Error(
+        `Unsupported NIfTI-2 magic: ${JSON.stringify(magic)}; ` +
+          `only single-file (.nii) datasets are supported`,
+      );
+    }
+    const getFloat64s = (offset: number, count: number) =>
+      getFloats(offset, count, dv.getFloat64, 8);
+    const getInt64 = (offset: number) =>
+      Number(dv.getBigInt64(offset, littleEndian));
+    return {
+      littleEndian,
+      dim: Array.from({ length: 8 }, (_, i) => getInt64(16 + i * 8)),
+      datatype: dv.getInt16(12, littleEndian),
+      pixdim: getFloat64s(104, 8),
+      voxOffset: getInt64(168),
+      xyztUnits: dv.getInt32(500, littleEndian),
+      description: decodeString(data.subarray(240, 320)),
+      qformCode: dv.getInt32(344, littleEndian),
+      sformCode: dv.getInt32(348, littleEndian),
+      quatern: getFloat64s(352, 3),
+      qoffset: getFloat64s(376, 3),
+      srow: [getFloat64s(400, 4), getFloat64s(432, 4), getFloat64s(464, 4)],
+    };
+  }
+  throw new Error(`Invalid NIfTI header size: ${headerSize}`);
+}
+
+/**
+ * Returns the voxel to world transform, following the precedence used by most readers: the sform
+ * if specified, otherwise the qform if specified, otherwise just the voxel size.
+ */
+function getAffine(header: NiftiHeader): Float64Array {
+  const affine = new Float64Array(16);
+  affine[15] = 1;
+  const { pixdim } = header;
+  if (header.sformCode > 0) {
+    for (let row = 0; row < 3; ++row) {
+      for (let col = 0; col < 4; ++col) {
+        affine[col * 4 + row] = header.srow[row][col];
+      }
+    }
+    return affine;
+  }
+  if (header.qformCode > 0) {
+    const [b, c, d] = header.quatern;
+    const a = Math.sqrt(Math.max(0, 1 - (b * b + c * c + d * d)));
+    const rotation = [
+      [a * a + b * b - c * c - d * d, 2 * (b * c - a * d), 2 * (b * d + a * c)],
+      [2 * (b * c + a * d), a * a + c * c - b * b - d * d, 2 * (c * d - a * b)],
+      [2 * (b * d - a * c), 2 * (c * d + a * b), a * a + d * d - c * c - b * b],
+    ];
+    // `pixdim[0]` specifies the handedness of the voxel axes.
+    const qfac = pixdim[0] < 0 ? -1 : 1;
+    const scales = [pixdim[1], pixdim[2], pixdim[3] * qfac];
+    for (let row = 0; row < 3; ++row) {
+      for (let col = 0; col < 3; ++col) {
+        affine[col * 4 + row] = rotation[row][col] * scales[col];
+      }
+      affine[12 + row] = header.qoffset[row];
+    }
+    return affine;
+  }
+  for (let i = 0; i < 3; ++i) {
+    affine[i * 5] = pixdim[i + 1];
+  }
+  return affine;
+}
+
+function getVolumeInfo(header: NiftiHeader): NiftiVolumeInfo {
+  const dataType = NIFTI_DATA_TYPES.get(header.datatype);
+  if (dataType === undefined) {
+    throw new Error(`Unsupported NIfTI data type: ${header.datatype}`);
+  }
+  const { dim, pixdim } = header;
+  const numDimensions = dim[0];
+  if (numDimensions < 1 || numDimensions > 7) {
+    throw new Error(`Invalid NIfTI number of dimensions: ${numDimensions}`);
+  }
+  let rank = numDimensions;
+  while (rank > 3 && dim[rank] === 1) --rank;
+  rank = Math.max(rank, 3);
+  const shape: number[] = [];
+  const voxelSize: number[] = [];
+  const units: string[] = [];
+  const spatialUnit = NIFTI_SPATIAL_UNITS.get(header.xyztUnits & 0x07) ?? "";
+  const timeUnit = NIFTI_TIME_UNITS.get(header.xyztUnits & 0x38) ?? "";
+  for (let i = 0; i < rank; ++i) {
+    shape[i] = i < numDimensions ? dim[i + 1] : 1;
+    const size = Math.abs(pixdim[i + 1]);
+    voxelSize[i] = Number.isFinite(size) && size > 0 ? size : 1;
+    units[i] = i < 3 ? spatialUnit : i === 3 ? timeUnit : "";
+  }
+  return {
+    dataType,
+    shape,
+    voxelSize,
+    units,
+    affine: getAffine(header),
+    description: header.description,
+  };
+}
+
+interface NiftiFile {
+  info: NiftiVolumeInfo;
+  // Voxel data in native byte order.
+  data: TypedArray;
+}
+
+async function decodeNiftiFile(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<NiftiFile> {
+  let buffer = await cancellableFetchOk(
+    url,
+    {},
+    responseArrayBuffer,
+    cancellationToken,
+  );
+  let bytes = new Uint8Array(buffer);
+  // `.nii.gz` files are detected by the gzip magic number rather than the extension.
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    buffer = await decodeGzip(bytes, "gzip", cancellationToken);
+    bytes = new Uint8Array(buffer);
+  }
+  const header = parseNiftiHeader(bytes);
+  const info = getVolumeInfo(header);
+  const { dataType } = info;
+  const bytesPerElement = DATA_TYPE_BYTES[dataType];
+  const numBytes = vector.prod(info.shape) * bytesPerElement;
+  const { voxOffset } = header;
+  if (voxOffset + numBytes > bytes.byteLength) {
+    throw new Error(
+      `NIfTI file is ${bytes.byteLength} bytes, but voxel data requires ` +
+        `${voxOffset} + ${numBytes} bytes`,
+    );
+  }
+  // Copy to ensure the voxel data is suitably aligned.
+  const data = makeDataTypeArrayView(
+    dataType,
+    bytes.slice(voxOffset, voxOffset + numBytes).buffer,
+  ) as TypedArray;
+  convertEndian(
+    data,
+    header.littleEndian ? Endianness.LITTLE : Endianness.BIG,
+    bytesPerElement,
+  );
+  return { info, data };
+}
+
+function getNiftiFileCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "nifti", {
+    get: async (url: string, cancellationToken: CancellationToken) => {
+      const file = await decodeNiftiFile(url, cancellationToken);
+      return { data: file, size: file.data.byteLength };
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_NIFTI_VOLUME_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string },
+    cancellationToken,
+  ): RPCPromise<NiftiVolumeInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getNiftiFileCache(chunkManager);
+    try {
+      const { info } = await cache.get(x.url, cancellationToken);
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class NiftiVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileCache = this.registerDisposer(
+    getNiftiFileCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { info, data } = await this.fileCache.get(
+      this.parameters.url,
+      cancellationToken,
+    );
+    // The chunk bounds are stored in temporary arrays shared by all chunks of the source, and
+    // must be computed after any asynchronous operations.
+    const chunkPosition = this.computeChunkBounds(chunk);
+    const chunkDataSize = chunk.chunkDataSize!;
+    const { shape } = info;
+    const rank = shape.length;
+    const elementsPerVoxel =
+      DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT[info.dataType];
+    const output = new DATA_TYPE_ARRAY_CONSTRUCTOR[info.dataType](
+      vector.prod(chunkDataSize) * elementsPerVoxel,
+    );
+    const strides: number[] = [];
+    for (let i = 0, stride = elementsPerVoxel; i < rank; ++i) {
+      strides[i] = stride;
+      stride *= shape[i];
+    }
+    // Copy the chunk one row (along the first dimension) at a time.
+    const rowLength = chunkDataSize[0] * elementsPerVoxel;
+    const index = new Array<number>(rank).fill(0);
+    for (
+      let outputOffset = 0;
+      outputOffset < output.length;
+      outputOffset += rowLength
+    ) {
+      let inputOffset = chunkPosition[0] * strides[0];
+      for (let i = 1; i < rank; ++i) {
+        inputOffset += (chunkPosition[i] + index[i]) * strides[i];
+      }
+      output.set(data.subarray(inputOffset, inputOffset + rowLength), outputOffset);
+      for (let i = 1; i < rank; ++i) {
+        if (++index[i] < chunkDataSize[i]) break;
+        index[i] = 0;
+      }
+    }
+    await postProcessRawData(chunk, cancellationToken, output);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+
+export const GET_NIFTI_VOLUME_INFO_RPC_ID = "nifti/getNiftiVolumeInfo";
+
+export interface NiftiVolumeInfo {
+  dataType: DataType;
+  // Number of voxels along each dimension.  Trailing singleton dimensions beyond the 3 spatial
+  // dimensions are omitted.
+  shape: number[];
+  // Voxel size along each dimension, in units of `units`.
+  voxelSize: number[];
+  units: string[];
+  // 4x4 homogeneous column-major transform from voxel coordinates to world coordinates, in units
+  // of the spatial unit.  Determined from the sform if specified, otherwise from the qform.
+  affine: Float64Array;
+  description: string;
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  static RPC_ID = "nifti/VolumeChunkSource";
+}
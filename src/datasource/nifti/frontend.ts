@@ -0,0 +1,214 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { NiftiVolumeInfo } from "#src/datasource/nifti/base.js";
+import {
+  GET_NIFTI_VOLUME_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/nifti/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import * as matrix from "#src/util/matrix.js";
+import { scaleByExp10, unitFromJson } from "#src/util/si_units.js";
+
+class NiftiVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Names of the NIfTI dimensions, of which the first 3 are spatial.
+const DIMENSION_NAMES = ["x", "y", "z", "t", "u", "v", "w"];
+
+/**
+ * Returns the coordinate space of the voxel data along with the model transform from the voxel
+ * grid to world coordinates.
+ *
+ * World coordinates are expressed in units of the voxel size, rather than the spatial unit, to
+ * match the other data sources.  The bounding box is specified in world coordinates.
+ */
+function getModelSpaceAndTransform(info: NiftiVolumeInfo): {
+  modelSpace: CoordinateSpace;
+  transform: Float64Array;
+} {
+  const { shape, voxelSize, affine } = info;
+  const rank = shape.length;
+  const scales = new Float64Array(rank);
+  const units: string[] = [];
+  for (let i = 0; i < rank; ++i) {
+    const { unit, exponent } = unitFromJson(info.units[i]);
+    scales[i] = scaleByExp10(voxelSize[i], exponent);
+    units[i] = unit;
+  }
+  const stride = rank + 1;
+  const transform = matrix.createIdentity(Float64Array, stride);
+  for (let row = 0; row < 3; ++row) {
+    for (let col = 0; col < 3; ++col) {
+      transform[col * stride + row] = affine[col * 4 + row] / voxelSize[row];
+    }
+    transform[rank * stride + row] = affine[12 + row] / voxelSize[row];
+  }
+  // Bounds of the transformed voxel grid, computed from its corners.
+  const lowerBounds = new Float64Array(rank).fill(Number.POSITIVE_INFINITY);
+  const upperBounds = new Float64Array(rank).fill(Number.NEGATIVE_INFINITY);
+  for (let i = 3; i < rank; ++i) {
+    lowerBounds[i] = 0;
+    upperBounds[i] = shape[i];
+  }
+  for (let corner = 0; corner < 8; ++corner) {
+    for (let row = 0; row < 3; ++row) {
+      let x = transform[rank * stride + row];
+      for (let col = 0; col < 3; ++col) {
+        if (corner & (1 << col)) {
+          x += transform[col * stride + row] * shape[col];
+        }
+      }
+      lowerBounds[row] = Math.min(lowerBounds[row], x);
+      upperBounds[row] = Math.max(upperBounds[row], x);
+    }
+  }
+  const modelSpace = makeCoordinateSpace({
+    names: DIMENSION_NAMES.slice(0, rank),
+    units,
+    scales,
+    boundingBoxes: [
+      {
+        box: { lowerBounds, upperBounds },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+  return { modelSpace, transform };
+}
+
+export class NiftiMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.shape.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public url: string,
+    public info: NiftiVolumeInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    // The entire file is decoded at once, so the chunk size only affects how much data is uploaded
+    // to the GPU at a time.
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(this.info.shape),
+        volumeType: this.volumeType,
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(
+            NiftiVolumeChunkSource,
+            { spec, parameters: { url: this.url } },
+          ),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+function getNiftiVolumeInfo(
+  chunkManager: ChunkManager,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<NiftiVolumeInfo> {
+  return chunkManager.rpc!.promiseInvoke<NiftiVolumeInfo>(
+    GET_NIFTI_VOLUME_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, url },
+    cancellationToken,
+  );
+}
+
+export class NiftiDataSource extends DataSourceProvider {
+  get description() {
+    return "NIfTI data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl;
+    return options.chunkManager.memoize.getUncounted(
+      { type: "nifti:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = await getNiftiVolumeInfo(
+          options.chunkManager,
+          url,
+          options.cancellationToken,
+        );
+        const { modelSpace, transform } = getModelSpaceAndTransform(info);
+        const volume = new NiftiMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          url,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: { rank, sourceRank: rank, transform },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
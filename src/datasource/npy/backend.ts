@@ -0,0 +1,308 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Backend for NumPy `.npy` files and `.npz` archives.
+ *
+ * See https://numpy.org/doc/stable/reference/generated/numpy.lib.format.html for the format.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { NpyArrayInfo } from "#src/datasource/npy/base.js";
+import {
+  GET_NPY_ARRAY_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/npy/base.js";
+import { readUncompressedChunk } from "#src/datasource/raw/backend.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Endianness } from "#src/util/endian.js";
+import type { ReadableStore } from "#src/util/file_system.js";
+import { FileReader } from "#src/util/file_system.js";
+import { parseNumpyDtype } from "#src/util/numpy_dtype.js";
+import { ZipCompressionMethod, ZipReader } from "#src/util/zip.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+// `\x93NUMPY`
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59];
+// `PK\x03\x04`
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+// Magic string, version and header length of a version 2.0 or later header.  Version 1.0 headers
+// have a 2-byte header length, but are always padded to more than this size.
+const NPY_PREFIX_SIZE = 12;
+
+/**
+ * Reads `length` bytes at `offset` within a `.npy` file or `.npz` member.
+ */
+type NpyByteReader = (
+  offset: number,
+  length: number,
+  cancellationToken: CancellationToken,
+) => Promise<Uint8Array>;
+
+interface NpyArray {
+  info: NpyArrayInfo;
+  endianness: Endianness;
+  // Offset in bytes of the first element.
+  byteOffset: number;
+  read: NpyByteReader;
+  // Size of data retained in memory, in bytes.
+  size: number;
+}
+
+function hasMagic(data: Uint8Array, magic: number[]) {
+  return magic.every((value, i) => data[i] === value);
+}
+
+function checkedRead(
+  store: ReadableStore<string>,
+  key: string,
+  description: string,
+): NpyByteReader {
+  return async (offset, length, cancellationToken) => {
+    const response = await store.read(key, {
+      byteRange: { offset, length },
+      cancellationToken,
+    });
+    if (response === undefined || response.data.length !== length) {
+      throw new Error(
+        `Failed to read ${length} bytes at offset ${offset} of ${description}`,
+      );
+    }
+    return response.data;
+  };
+}
+
+/**
+ * Parses the header, which is the repr of a Python dict literal, e.g.:
+ *
+ *     {'descr': '<u2', 'fortran_order': False, 'shape': (30, 512, 512), }
+ */
+function parseNpyHeader(header: string) {
+  const descrMatch = header.match(/'descr'\s*:\s*'([^']*)'/);
+  if (descrMatch === null) {
+    throw new Error(
+      `Unsupported NumPy data type in header: ${JSON.stringify(header)}`,
+    );
+  }
+  const fortranOrderMatch = header.match(
+    /'fortran_order'\s*:\s*(True|False)/,
+  );
+  const shapeMatch = header.match(/'shape'\s*:\s*\(([^)]*)\)/);
+  if (fortranOrderMatch === null || shapeMatch === null) {
+    throw new Error(`Invalid NumPy header: ${JSON.stringify(header)}`);
+  }
+  const shape = shapeMatch[1]
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s !== "")
+    .map((s) => {
+      // Python 2 writes long integers with an `L` suffix.
+      const size = Number(s.replace(/L$/, ""));
+      if (!Number.isInteger(size) || size < 0) {
+        throw new Error(
+          `Invalid NumPy shape: ${JSON.stringify(shapeMatch[1])}`,
+        );
+      }
+      return size;
+    });
+  return {
+    dtype: parseNumpyDtype(descrMatch[1]),
+    fortranOrder: fortranOrderMatch[1] === "True",
+    shape,
+  };
+}
+
+async function getNpyByteReader(
+  url: string,
+  array: string | undefined,
+  cancellationToken: CancellationToken,
+): Promise<{ read: NpyByteReader; size: number }> {
+  const fileReader = new FileReader("");
+  const response = await fileReader.read(url, {
+    byteRange: { offset: 0, length: ZIP_MAGIC.length },
+    cancellationToken,
+  });
+  if (response === undefined) {
+    throw new Error(`Failed to read ${JSON.stringify(url)}`);
+  }
+  // `.npz` files are detected by the zip magic number rather than the extension.
+  if (!hasMagic(response.data, ZIP_MAGIC)) {
+    if (array !== undefined) {
+      throw new Error(
+        `${JSON.stringify(url)} is not a .npz file, but array ` +
+          `${JSON.stringify(array)} was specified`,
+      );
+    }
+    return {
+      read: checkedRead(fileReader, url, JSON.stringify(url)),
+      size: 0,
+    };
+  }
+  const zipReader = new ZipReader(fileReader, url);
+  const entries = await zipReader.getEntries();
+  let entry;
+  if (array === undefined) {
+    entry = Array.from(entries.values()).find((e) => e.name.endsWith(".npy"));
+    if (entry === undefined) {
+      throw new Error(`No arrays found in ${JSON.stringify(url)}`);
+    }
+  } else {
+    entry = entries.get(`${array}.npy`);
+    if (entry === undefined) {
+      const names = Array.from(entries.keys())
+        .filter((name) => name.endsWith(".npy"))
+        .map((name) => name.slice(0, -4));
+      throw new Error(
+        `Array ${JSON.stringify(array)} not found in ${JSON.stringify(url)}; ` +
+          `available arrays: ${JSON.stringify(names)}`,
+      );
+    }
+  }
+  const description = `${JSON.stringify(entry.name)} in ${JSON.stringify(url)}`;
+  if (entry.compressionMethod === ZipCompressionMethod.STORED) {
+    return { read: checkedRead(zipReader, entry.name, description), size: 0 };
+  }
+  // Compressed members, as written by `numpy.savez_compressed`, cannot be read partially and are
+  // decompressed in their entirety.
+  const { data } = (await zipReader.read(entry.name, { cancellationToken }))!;
+  return {
+    read: async (offset, length) => {
+      if (offset + length > data.length) {
+        throw new Error(
+          `Failed to read ${length} bytes at offset ${offset} of ` +
+            description,
+        );
+      }
+      return data.subarray(offset, offset + length);
+    },
+    size: data.byteLength,
+  };
+}
+
+async function openNpyArray(
+  url: string,
+  array: string | undefined,
+  cancellationToken: CancellationToken,
+): Promise<NpyArray> {
+  const { read, size } = await getNpyByteReader(url, array, cancellationToken);
+  const prefix = await read(0, NPY_PREFIX_SIZE, cancellationToken);
+  if (!hasMagic(prefix, NPY_MAGIC)) {
+    throw new Error("Invalid .npy file: missing magic string");
+  }
+  const majorVersion = prefix[6];
+  const dv = new DataView(prefix.buffer, prefix.byteOffset, prefix.byteLength);
+  let headerOffset: number;
+  let headerLength: number;
+  switch (majorVersion) {
+    case 1:
+      headerOffset = 10;
+      headerLength = dv.getUint16(8, /*littleEndian=*/ true);
+      break;
+    case 2:
+    case 3:
+      headerOffset = 12;
+      headerLength = dv.getUint32(8, /*littleEndian=*/ true);
+      break;
+    default:
+      throw new Error(`Unsupported .npy format version: ${majorVersion}`);
+  }
+  const headerBytes = await read(headerOffset, headerLength, cancellationToken);
+  // Version 3.0 headers are UTF-8 encoded, while earlier versions are latin1.
+  const header = new TextDecoder(
+    majorVersion === 3 ? "utf-8" : "latin1",
+  ).decode(headerBytes);
+  const { dtype, fortranOrder, shape } = parseNpyHeader(header);
+  // The data source uses the first dimension as the fastest varying, which for C-order arrays is
+  // the last NumPy dimension.
+  if (!fortranOrder) shape.reverse();
+  // 0-d arrays are treated as a single element.
+  if (shape.length === 0) shape.push(1);
+  return {
+    info: { dataType: dtype.dataType, shape },
+    endianness: dtype.endianness,
+    byteOffset: headerOffset + headerLength,
+    read,
+    size,
+  };
+}
+
+function getNpyArrayCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "npy", {
+    get: async (
+      key: { url: string; array: string | undefined },
+      cancellationToken: CancellationToken,
+    ) => {
+      const array = await openNpyArray(key.url, key.array, cancellationToken);
+      return { data: array, size: array.size };
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_NPY_ARRAY_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string; array: string | undefined },
+    cancellationToken,
+  ): RPCPromise<NpyArrayInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getNpyArrayCache(chunkManager);
+    try {
+      const { info } = await cache.get(
+        { url: x.url, array: x.array },
+        cancellationToken,
+      );
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class NpyVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private arrayCache = this.registerDisposer(
+    getNpyArrayCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { url, array } = this.parameters;
+    const { info, endianness, byteOffset, read } = await this.arrayCache.get(
+      { url, array },
+      cancellationToken,
+    );
+    // `computeChunkBounds` returns temporary arrays, so it is only called once the array is open.
+    const data = await readUncompressedChunk(
+      { shape: info.shape, dataType: info.dataType, endianness, byteOffset },
+      this.computeChunkBounds(chunk),
+      chunk.chunkDataSize!,
+      (offset, length) => read(offset, length, cancellationToken),
+    );
+    await postProcessRawData(chunk, cancellationToken, data);
+  }
+}
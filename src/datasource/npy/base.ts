@@ -0,0 +1,34 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+
+export const GET_NPY_ARRAY_INFO_RPC_ID = "npy/getNpyArrayInfo";
+
+export interface NpyArrayInfo {
+  dataType: DataType;
+  // Number of elements along each dimension, from fastest to slowest varying.  For C-order arrays
+  // this is the reverse of the NumPy shape.
+  shape: number[];
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  // Name of the `.npz` member without the `.npy` extension, or `undefined` to use the first
+  // member.  Always `undefined` for `.npy` files.
+  array: string | undefined;
+  static RPC_ID = "npy/VolumeChunkSource";
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { NpyArrayInfo } from "#src/datasource/npy/base.js";
+import {
+  GET_NPY_ARRAY_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/npy/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import {
+  parseQueryStringParameters,
+  verifyObject,
+  verifyOptionalObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+import { parseScaleList } from "#src/util/si_units.js";
+
+class NpyVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Names of the first 3 dimensions; any additional dimensions are named `d3`, `d4`, etc.
+const DIMENSION_NAMES = ["x", "y", "z"];
+
+function getModelSpace(
+  info: NpyArrayInfo,
+  voxelSize: string | undefined,
+): CoordinateSpace {
+  const { shape } = info;
+  const rank = shape.length;
+  const scales = parseScaleList(voxelSize ?? "1", rank);
+  if (scales === undefined) {
+    throw new Error(`Invalid voxel size: ${JSON.stringify(voxelSize)}`);
+  }
+  return makeCoordinateSpace({
+    names: shape.map((_, i) => DIMENSION_NAMES[i] ?? `d${i}`),
+    units: scales.map((size) => size.unit),
+    scales: Float64Array.from(scales, (size) => size.scale),
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(shape),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+}
+
+export class NpyMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.shape.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public parameters: VolumeChunkSourceParameters,
+    public info: NpyArrayInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, info, parameters } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(info.shape),
+        volumeType: this.volumeType,
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(NpyVolumeChunkSource, {
+            spec,
+            parameters,
+          }),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+function getNpyArrayInfo(
+  chunkManager: ChunkManager,
+  parameters: VolumeChunkSourceParameters,
+  cancellationToken: CancellationToken,
+): Promise<NpyArrayInfo> {
+  return chunkManager.rpc!.promiseInvoke<NpyArrayInfo>(
+    GET_NPY_ARRAY_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, ...parameters },
+    cancellationToken,
+  );
+}
+
+export class NpyDataSource extends DataSourceProvider {
+  get description() {
+    return "NumPy .npy/.npz data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    // Pattern is infallible.
+    const [, url, query] = options.providerUrl.match(/([^?]*)(?:\?(.*))?$/)!;
+    const queryParameters = parseQueryStringParameters(query || "");
+    verifyObject(queryParameters);
+    const array = verifyOptionalObjectProperty(
+      queryParameters,
+      "array",
+      verifyString,
+    );
+    const voxelSize = verifyOptionalObjectProperty(
+      queryParameters,
+      "voxel_size",
+      verifyString,
+    );
+    const parameters = { url, array };
+    return options.chunkManager.memoize.getUncounted(
+      { type: "npy:MultiscaleVolumeChunkSource", ...parameters, voxelSize },
+      async () => {
+        const info = await getNpyArrayInfo(
+          options.chunkManager,
+          parameters,
+          options.cancellationToken,
+        );
+        const modelSpace = getModelSpace(info, voxelSize);
+        const volume = new NpyMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          parameters,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
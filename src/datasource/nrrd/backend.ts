@@ -0,0 +1,442 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Backend for NRRD files, with either attached (`.nrrd`) or detached (`.nhdr`) data.
+ *
+ * See https://teem.sourceforge.net/nrrd/format.html for the format.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { NrrdVolumeInfo } from "#src/datasource/nrrd/base.js";
+import {
+  GET_NRRD_VOLUME_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/nrrd/base.js";
+import { readUncompressedChunk } from "#src/datasource/raw/backend.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import { decodeBzip2 } from "#src/util/bzip2.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DATA_TYPE_BYTES, DataType } from "#src/util/data_type.js";
+import { Endianness } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import { decodeGzip } from "#src/util/gzip.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+// The header is read in increasingly large prefixes of the file until the blank line that
+// terminates it is found.
+const INITIAL_HEADER_READ_SIZE = 4096;
+
+const NRRD_DATA_TYPES = new Map<string, DataType>();
+for (const [names, dataType] of [
+  [["signed char", "int8", "int8_t"], DataType.INT8],
+  [["uchar", "unsigned char", "uint8", "uint8_t"], DataType.UINT8],
+  [
+    [
+      "short",
+      "short int",
+      "signed short",
+      "signed short int",
+      "int16",
+      "int16_t",
+    ],
+    DataType.INT16,
+  ],
+  [
+    ["ushort", "unsigned short", "unsigned short int", "uint16", "uint16_t"],
+    DataType.UINT16,
+  ],
+  [["int", "signed int", "int32", "int32_t"], DataType.INT32],
+  [["uint", "unsigned int", "uint32", "uint32_t"], DataType.UINT32],
+  // For now, treat both signed and unsigned 64-bit integer types as unsigned.
+  [
+    [
+      "longlong",
+      "long long",
+      "long long int",
+      "signed long long",
+      "signed long long int",
+      "int64",
+      "int64_t",
+      "ulonglong",
+      "unsigned long long",
+      "unsigned long long int",
+      "uint64",
+      "uint64_t",
+    ],
+    DataType.UINT64,
+  ],
+  [["float"], DataType.FLOAT32],
+] as [string[], DataType][]) {
+  for (const name of names) {
+    NRRD_DATA_TYPES.set(name, dataType);
+  }
+}
+
+// Axis kinds that indicate a spatial (or temporal) axis.  Axes of other kinds, such as `RGB-color`
+// or `vector`, are treated as non-spatial when the header does not specify space directions.
+const DOMAIN_KINDS = new Set(["domain", "space", "time", "???", "none"]);
+
+enum NrrdEncoding {
+  RAW = 0,
+  GZIP = 1,
+  BZIP2 = 2,
+}
+
+const NRRD_ENCODINGS = new Map<string, NrrdEncoding>([
+  ["raw", NrrdEncoding.RAW],
+  ["gzip", NrrdEncoding.GZIP],
+  ["gz", NrrdEncoding.GZIP],
+  ["bzip2", NrrdEncoding.BZIP2],
+  ["bz2", NrrdEncoding.BZIP2],
+]);
+
+interface NrrdFile {
+  info: NrrdVolumeInfo;
+  endianness: Endianness;
+  // Offset in bytes of the first element, within the data file for the raw encoding, or within
+  // the decompressed data otherwise.
+  byteOffset: number;
+  read: (
+    offset: number,
+    length: number,
+    cancellationToken: CancellationToken,
+  ) => Promise<Uint8Array>;
+  // Size of data retained in memory, in bytes.
+  size: number;
+}
+
+/**
+ * Reads the header, which is terminated by a blank line if the data is attached, or by the end of
+ * the file for a detached header.
+ *
+ * @returns The header text, and the offset of the attached data, if any.
+ */
+async function readNrrdHeader(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<{ text: string; dataOffset: number | undefined }> {
+  const fileReader = new FileReader("");
+  for (let length = INITIAL_HEADER_READ_SIZE; ; length *= 2) {
+    const response = await fileReader.read(url, {
+      byteRange: { offset: 0, length },
+      cancellationToken,
+    });
+    if (response === undefined) {
+      throw new Error(`Failed to read ${JSON.stringify(url)}`);
+    }
+    // Each byte decodes to a single character, so string indices are byte offsets.
+    const text = new TextDecoder("latin1").decode(response.data);
+    const match = text.match(/\r?\n\r?\n/);
+    if (match !== null) {
+      return {
+        text: text.slice(0, match.index),
+        dataOffset: match.index! + match[0].length,
+      };
+    }
+    if (response.data.length < length) {
+      return { text, dataOffset: undefined };
+    }
+  }
+}
+
+function parseNrrdFields(text: string): Map<string, string> {
+  const lines = text.split(/\r?\n/);
+  if (!/^NRRD000[1-5]$/.test(lines[0])) {
+    throw new Error("Invalid NRRD file: missing magic line");
+  }
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(1)) {
+    if (line.startsWith("#")) continue;
+    // Key/value pairs, which use `:=` as the separator, are ignored.
+    const match = line.match(/^([^:]+): (.*)$/);
+    if (match === null) continue;
+    fields.set(match[1].trim().toLowerCase(), match[2].trim());
+  }
+  return fields;
+}
+
+function parseNumbers(value: string) {
+  return value.split(/\s+/).map(Number);
+}
+
+function parseVector(value: string) {
+  return value.split(",").map((x) => Number(x.trim()));
+}
+
+function parseQuotedStrings(value: string) {
+  return Array.from(value.matchAll(/"([^"]*)"/g), (match) => match[1]);
+}
+
+function getVolumeInfo(fields: Map<string, string>): NrrdVolumeInfo {
+  const getField = (name: string) => {
+    const value = fields.get(name);
+    if (value === undefined) {
+      throw new Error(
+        `NRRD header is missing required field ${JSON.stringify(name)}`,
+      );
+    }
+    return value;
+  };
+  const typeName = getField("type").toLowerCase();
+  const dataType = NRRD_DATA_TYPES.get(typeName);
+  if (dataType === undefined) {
+    throw new Error(`Unsupported NRRD type: ${JSON.stringify(typeName)}`);
+  }
+  const rank = Number(getField("dimension"));
+  const shape = parseNumbers(getField("sizes"));
+  if (
+    shape.length !== rank ||
+    !shape.every((size) => Number.isInteger(size) && size > 0)
+  ) {
+    throw new Error(
+      `Invalid NRRD sizes: ${JSON.stringify(fields.get("sizes"))}`,
+    );
+  }
+  const spaceDirectionsField = fields.get("space directions");
+  let spaceDirections: (number[] | null)[];
+  let spaceOrigin: number[] | undefined;
+  let spaceUnits: string[] | undefined;
+  if (spaceDirectionsField !== undefined) {
+    spaceDirections = Array.from(
+      spaceDirectionsField.matchAll(/\(([^)]*)\)|none/g),
+      (match) => (match[1] === undefined ? null : parseVector(match[1])),
+    );
+    const spaceRank = spaceDirections.find((d) => d !== null)?.length ?? 0;
+    if (
+      spaceDirections.length !== rank ||
+      !spaceDirections.every(
+        (d) =>
+          d === null || (d.length === spaceRank && d.every(Number.isFinite)),
+      ) ||
+      spaceDirections.filter((d) => d !== null).length !== spaceRank
+    ) {
+      throw new Error(
+        "Invalid NRRD space directions: " +
+          JSON.stringify(spaceDirectionsField),
+      );
+    }
+    const originField = fields.get("space origin");
+    if (originField !== undefined) {
+      spaceOrigin = parseVector(originField.replace(/^\(|\)$/g, ""));
+      if (
+        spaceOrigin.length !== spaceRank ||
+        !spaceOrigin.every(Number.isFinite)
+      ) {
+        throw new Error(
+          `Invalid NRRD space origin: ${JSON.stringify(originField)}`,
+        );
+      }
+    }
+    const unitsField = fields.get("space units");
+    if (unitsField !== undefined) {
+      spaceUnits = parseQuotedStrings(unitsField);
+    }
+  } else {
+    // Per-axis spacings, which do not specify the orientation.  Axes without a valid spacing, or
+    // with a non-spatial kind, are treated as non-spatial.
+    const spacings = parseNumbers(fields.get("spacings") ?? "");
+    const kinds = fields.get("kinds")?.split(/\s+/);
+    const axisUnits = parseQuotedStrings(fields.get("units") ?? "");
+    const spatialAxes: number[] = [];
+    for (let i = 0; i < rank; ++i) {
+      if (kinds === undefined || DOMAIN_KINDS.has(kinds[i])) {
+        spatialAxes.push(i);
+      }
+    }
+    spaceDirections = new Array(rank).fill(null);
+    spaceUnits = [];
+    spatialAxes.forEach((axis, i) => {
+      const spacing = spacings[axis];
+      const direction = new Array<number>(spatialAxes.length).fill(0);
+      direction[i] = Number.isFinite(spacing) && spacing > 0 ? spacing : 1;
+      spaceDirections[axis] = direction;
+      spaceUnits!.push(axisUnits[axis] ?? "");
+    });
+  }
+  const spaceRank = spaceDirections.filter((d) => d !== null).length;
+  return {
+    dataType,
+    shape,
+    spaceDirections,
+    spaceOrigin: spaceOrigin ?? new Array(spaceRank).fill(0),
+    spaceUnits:
+      spaceUnits?.length === spaceRank
+        ? spaceUnits
+        : new Array(spaceRank).fill(""),
+  };
+}
+
+async function openNrrdFile(
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<NrrdFile> {
+  const { text, dataOffset } = await readNrrdHeader(url, cancellationToken);
+  const fields = parseNrrdFields(text);
+  const info = getVolumeInfo(fields);
+  const bytesPerElement = DATA_TYPE_BYTES[info.dataType];
+  const endianField = fields.get("endian");
+  if (endianField === undefined && bytesPerElement > 1) {
+    throw new Error('NRRD header is missing required field "endian"');
+  }
+  const endianness =
+    endianField === "big" ? Endianness.BIG : Endianness.LITTLE;
+  const encodingName = (fields.get("encoding") ?? "").toLowerCase();
+  const encoding = NRRD_ENCODINGS.get(encodingName);
+  if (encoding === undefined) {
+    throw new Error(
+      `Unsupported NRRD encoding: ${JSON.stringify(encodingName)}`,
+    );
+  }
+  if (Number(fields.get("line skip") ?? 0) !== 0) {
+    throw new Error('NRRD "line skip" is not supported');
+  }
+  const byteSkip = Number(fields.get("byte skip") ?? 0);
+  if (!Number.isInteger(byteSkip) || byteSkip < 0) {
+    throw new Error(
+      `Unsupported NRRD byte skip: ${JSON.stringify(fields.get("byte skip"))}`,
+    );
+  }
+  // Detached data files are specified relative to the header.
+  const dataFileField = fields.get("data file") ?? fields.get("datafile");
+  let dataUrl: string;
+  let dataStart: number;
+  if (dataFileField !== undefined) {
+    if (dataFileField.startsWith("LIST") || dataFileField.includes("%")) {
+      throw new Error(
+        `Unsupported NRRD data file: ${JSON.stringify(dataFileField)}; ` +
+          "only a single data file is supported",
+      );
+    }
+    dataUrl = dataFileField.includes("://")
+      ? dataFileField
+      : url.substring(0, url.lastIndexOf("/") + 1) + dataFileField;
+    dataStart = 0;
+  } else {
+    if (dataOffset === undefined) {
+      throw new Error("NRRD header does not specify a data file");
+    }
+    dataUrl = url;
+    dataStart = dataOffset;
+  }
+  const fileReader = new FileReader("");
+  const description = `NRRD data file ${JSON.stringify(dataUrl)}`;
+  if (encoding === NrrdEncoding.RAW) {
+    return {
+      info,
+      endianness,
+      byteOffset: dataStart + byteSkip,
+      read: async (offset, length, cancellationToken) => {
+        const response = await fileReader.read(dataUrl, {
+          byteRange: { offset, length },
+          cancellationToken,
+        });
+        if (response === undefined || response.data.length !== length) {
+          throw new Error(
+            `Failed to read ${length} bytes at offset ${offset} of ` +
+              description,
+          );
+        }
+        return response.data;
+      },
+      size: 0,
+    };
+  }
+  // Compressed data cannot be read partially and is decompressed in its entirety.  The byte skip
+  // applies to the decompressed data.
+  const response = await fileReader.read(dataUrl, { cancellationToken });
+  if (response === undefined) {
+    throw new Error(`Failed to read ${description}`);
+  }
+  const compressed = response.data.subarray(dataStart);
+  const data =
+    encoding === NrrdEncoding.GZIP
+      ? new Uint8Array(await decodeGzip(compressed, "gzip", cancellationToken))
+      : decodeBzip2(compressed);
+  return {
+    info,
+    endianness,
+    byteOffset: byteSkip,
+    read: async (offset, length) => {
+      if (offset + length > data.length) {
+        throw new Error(
+          `Failed to read ${length} bytes at offset ${offset} of ` +
+            `decompressed ${description}`,
+        );
+      }
+      return data.subarray(offset, offset + length);
+    },
+    size: data.byteLength,
+  };
+}
+
+function getNrrdFileCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "nrrd", {
+    get: async (url: string, cancellationToken: CancellationToken) => {
+      const file = await openNrrdFile(url, cancellationToken);
+      return { data: file, size: file.size };
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_NRRD_VOLUME_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string },
+    cancellationToken,
+  ): RPCPromise<NrrdVolumeInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getNrrdFileCache(chunkManager);
+    try {
+      const { info } = await cache.get(x.url, cancellationToken);
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class NrrdVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileCache = this.registerDisposer(
+    getNrrdFileCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { info, endianness, byteOffset, read } = await this.fileCache.get(
+      this.parameters.url,
+      cancellationToken,
+    );
+    const data = await readUncompressedChunk(
+      { shape: info.shape, dataType: info.dataType, endianness, byteOffset },
+      this.computeChunkBounds(chunk),
+      chunk.chunkDataSize!,
+      (offset, length) => read(offset, length, cancellationToken),
+    );
+    await postProcessRawData(chunk, cancellationToken, data);
+  }
+}
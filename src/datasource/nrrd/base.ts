@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+
+export const GET_NRRD_VOLUME_INFO_RPC_ID = "nrrd/getNrrdVolumeInfo";
+
+export interface NrrdVolumeInfo {
+  dataType: DataType;
+  // Number of elements along each axis, from fastest to slowest varying.
+  shape: number[];
+  // Vector in physical space corresponding to a unit step along each axis, or `null` for
+  // non-spatial axes, such as the components of a vector or color.
+  spaceDirections: (number[] | null)[];
+  // Position in physical space of the first element.
+  spaceOrigin: number[];
+  // Unit of each physical space dimension, or an empty string if unspecified.
+  spaceUnits: string[];
+}
+
+export class VolumeChunkSourceParameters {
+  // URL of the header, which is either a `.nrrd` file or a detached `.nhdr` header.
+  url: string;
+  static RPC_ID = "nrrd/VolumeChunkSource";
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { NrrdVolumeInfo } from "#src/datasource/nrrd/base.js";
+import {
+  GET_NRRD_VOLUME_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/nrrd/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import * as matrix from "#src/util/matrix.js";
+import { scaleByExp10, supportedUnits } from "#src/util/si_units.js";
+
+class NrrdVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Names of the first 3 physical space dimensions; any additional dimensions are named `d3`, `d4`,
+// etc.
+const SPACE_DIMENSION_NAMES = ["x", "y", "z"];
+
+/**
+ * Returns the coordinate space of the voxel data along with the model transform from the voxel
+ * grid to physical space.
+ *
+ * Each spatial axis of the data is mapped to the physical space dimension of the same index among
+ * the spatial axes, and non-spatial axes are mapped to channel dimensions.  As for NIfTI, physical
+ * coordinates are expressed in units of the voxel size, which is the length of the corresponding
+ * space direction vector.
+ */
+export function getModelSpaceAndTransform(info: NrrdVolumeInfo): {
+  modelSpace: CoordinateSpace;
+  transform: Float64Array;
+} {
+  const { shape, spaceDirections, spaceOrigin } = info;
+  const rank = shape.length;
+  // Data axis corresponding to each physical space dimension.
+  const spatialAxes: number[] = [];
+  const nonSpatialAxes: number[] = [];
+  spaceDirections.forEach((direction, axis) => {
+    (direction === null ? nonSpatialAxes : spatialAxes).push(axis);
+  });
+  const names = new Array<string>(rank);
+  const units = new Array<string>(rank).fill("");
+  const scales = new Float64Array(rank).fill(1);
+  const voxelSize: number[] = [];
+  spatialAxes.forEach((axis, i) => {
+    names[axis] = SPACE_DIMENSION_NAMES[i] ?? `d${i}`;
+    const size = Math.hypot(...spaceDirections[axis]!);
+    voxelSize[i] = size > 0 ? size : 1;
+    const unit = supportedUnits.get(info.spaceUnits[i]) ?? {
+      unit: "",
+      exponent: 0,
+    };
+    units[axis] = unit.unit;
+    scales[axis] = scaleByExp10(voxelSize[i], unit.exponent);
+  });
+  nonSpatialAxes.forEach((axis, i) => {
+    names[axis] = nonSpatialAxes.length === 1 ? "c'" : `c${i}'`;
+  });
+  const stride = rank + 1;
+  const transform = matrix.createIdentity(Float64Array, stride);
+  spatialAxes.forEach((rowAxis, row) => {
+    for (const colAxis of spatialAxes) {
+      transform[colAxis * stride + rowAxis] =
+        spaceDirections[colAxis]![row] / voxelSize[row];
+    }
+    transform[rank * stride + rowAxis] = spaceOrigin[row] / voxelSize[row];
+  });
+  // Bounds of the transformed voxel grid, computed from its corners.
+  const lowerBounds = new Float64Array(rank);
+  const upperBounds = Float64Array.from(shape);
+  for (const rowAxis of spatialAxes) {
+    lowerBounds[rowAxis] = Number.POSITIVE_INFINITY;
+    upperBounds[rowAxis] = Number.NEGATIVE_INFINITY;
+  }
+  for (let corner = 0; corner < 2 ** spatialAxes.length; ++corner) {
+    for (const rowAxis of spatialAxes) {
+      let x = transform[rank * stride + rowAxis];
+      spatialAxes.forEach((colAxis, i) => {
+        if (corner & (1 << i)) {
+          x += transform[colAxis * stride + rowAxis] * shape[colAxis];
+        }
+      });
+      lowerBounds[rowAxis] = Math.min(lowerBounds[rowAxis], x);
+      upperBounds[rowAxis] = Math.max(upperBounds[rowAxis], x);
+    }
+  }
+  const modelSpace = makeCoordinateSpace({
+    names,
+    units,
+    scales,
+    boundingBoxes: [
+      {
+        box: { lowerBounds, upperBounds },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+  return { modelSpace, transform };
+}
+
+export class NrrdMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.shape.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public url: string,
+    public info: NrrdVolumeInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(this.info.shape),
+        volumeType: this.volumeType,
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(
+            NrrdVolumeChunkSource,
+            { spec, parameters: { url: this.url } },
+          ),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+function getNrrdVolumeInfo(
+  chunkManager: ChunkManager,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<NrrdVolumeInfo> {
+  return chunkManager.rpc!.promiseInvoke<NrrdVolumeInfo>(
+    GET_NRRD_VOLUME_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, url },
+    cancellationToken,
+  );
+}
+
+export class NrrdDataSource extends DataSourceProvider {
+  get description() {
+    return "NRRD data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl;
+    return options.chunkManager.memoize.getUncounted(
+      { type: "nrrd:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = await getNrrdVolumeInfo(
+          options.chunkManager,
+          url,
+          options.cancellationToken,
+        );
+        const { modelSpace, transform } = getModelSpaceAndTransform(info);
+        const volume = new NrrdMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          url,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: { rank, sourceRank: rank, transform },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
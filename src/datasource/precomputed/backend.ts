@@ -0,0 +1,329 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import type { SimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { ShardingParameters } from "#src/datasource/precomputed/base.js";
+import {
+  DataEncoding,
+  ShardingHashFunction,
+  VolumeChunkEncoding,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/precomputed/base.js";
+import { decodeCompressedSegmentationChunk } from "#src/sliceview/backend_chunk_decoders/compressed_segmentation.js";
+import { decodeJpegChunk } from "#src/sliceview/backend_chunk_decoders/jpeg.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import { decodeRawChunk } from "#src/sliceview/backend_chunk_decoders/raw.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_ARRAY_CONSTRUCTOR,
+  DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT,
+} from "#src/util/data_type.js";
+import type { RefCounted } from "#src/util/disposable.js";
+import { Endianness } from "#src/util/endian.js";
+import type {
+  ByteRange,
+  FileReadOptions,
+  FileReadResponse,
+  ReadableStore,
+} from "#src/util/file_system.js";
+import { FileReader } from "#src/util/file_system.js";
+import { decodeGzip } from "#src/util/gzip.js";
+import { murmurHash3_x86_128Hash64Bits } from "#src/util/hash.js";
+import { Uint64 } from "#src/util/uint64.js";
+import * as vector from "#src/util/vector.js";
+import { encodeZIndexCompressed } from "#src/util/zorder.js";
+import { registerSharedObject } from "#src/worker/worker_rpc.js";
+
+const shardingHashFunctions = new Map<
+  ShardingHashFunction,
+  (out: Uint64) => void
+>([
+  [ShardingHashFunction.IDENTITY, () => {}],
+  [
+    ShardingHashFunction.MURMURHASH3_X86_128,
+    (out) => {
+      murmurHash3_x86_128Hash64Bits(out, 0, out.low, out.high);
+    },
+  ],
+]);
+
+/**
+ * Decoded minishard index: the byte range within `shard` of each chunk, keyed by the base-10
+ * representation of the chunk id.
+ */
+interface MinishardIndex {
+  shard: string;
+  chunks: Map<string, ByteRange>;
+}
+
+function getUint64AsNumber(dataView: DataView, byteOffset: number) {
+  return (
+    dataView.getUint32(byteOffset + 4, /*littleEndian=*/ true) * 2 ** 32 +
+    dataView.getUint32(byteOffset, /*littleEndian=*/ true)
+  );
+}
+
+async function decodeData(
+  data: Uint8Array,
+  encoding: DataEncoding,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  if (encoding === DataEncoding.GZIP) {
+    return new Uint8Array(await decodeGzip(data, "gzip", cancellationToken));
+  }
+  return data;
+}
+
+/**
+ * Reads chunks, identified by their uint64 chunk id, from a `neuroglancer_uint64_sharded_v1`
+ * sharded volume stored in `base`.  The minishard index containing a chunk is located using the
+ * shard index and then read and cached, requiring two byte-range requests; each chunk is then
+ * fetched with its own byte-range request.
+ */
+export class PrecomputedShardedReader implements ReadableStore<Uint64> {
+  private minishardIndexCache: SimpleAsyncCache<
+    Uint64,
+    MinishardIndex | undefined
+  >;
+
+  constructor(
+    chunkManager: ChunkManager,
+    owner: RefCounted,
+    private sharding: ShardingParameters,
+    private base: ReadableStore<string>,
+    memoizeKey: string,
+  ) {
+    this.minishardIndexCache = owner.registerDisposer(
+      makeSimpleAsyncCache(
+        chunkManager,
+        `precomputed/minishardIndex:${memoizeKey}`,
+        {
+          encodeKey: (shardAndMinishard: Uint64) => shardAndMinishard.toString(),
+          get: async (
+            shardAndMinishard: Uint64,
+            cancellationToken: CancellationToken,
+          ) => {
+            const index = await this.readMinishardIndex(
+              shardAndMinishard,
+              cancellationToken,
+            );
+            return { data: index, size: (index?.chunks.size ?? 0) * 24 };
+          },
+        },
+      ),
+    );
+  }
+
+  private async readMinishardIndex(
+    shardAndMinishard: Uint64,
+    cancellationToken: CancellationToken,
+  ): Promise<MinishardIndex | undefined> {
+    const { sharding } = this;
+    const minishard = Uint64.and(
+      new Uint64(),
+      shardAndMinishard,
+      Uint64.lowMask(new Uint64(), sharding.minishardBits),
+    );
+    const shardNumber = Uint64.rshift(
+      new Uint64(),
+      shardAndMinishard,
+      sharding.minishardBits,
+    );
+    const shard = `${shardNumber
+      .toString(16)
+      .padStart(Math.ceil(sharding.shardBits / 4), "0")}.shard`;
+    // The shard index consists of a `(start, end)` pair of uint64 values for each minishard.
+    const shardIndexSize = 16 * 2 ** sharding.minishardBits;
+    const shardIndexResponse = await this.base.read(shard, {
+      byteRange: { offset: minishard.toNumber() * 16, length: 16 },
+      cancellationToken,
+    });
+    if (shardIndexResponse === undefined) return undefined;
+    if (shardIndexResponse.data.byteLength !== 16) {
+      throw new Error(
+        `Expected shard index entry of 16 bytes, but received: ` +
+          `${shardIndexResponse.data.byteLength} bytes`,
+      );
+    }
+    const shardIndexEntry = new DataView(
+      shardIndexResponse.data.buffer,
+      shardIndexResponse.data.byteOffset,
+      16,
+    );
+    // Offsets are relative to the end of the shard index.
+    const minishardStart =
+      shardIndexSize + getUint64AsNumber(shardIndexEntry, 0);
+    const minishardEnd = shardIndexSize + getUint64AsNumber(shardIndexEntry, 8);
+    if (minishardStart === minishardEnd) return undefined;
+    const minishardResponse = await this.base.read(shard, {
+      byteRange: { offset: minishardStart, length: minishardEnd - minishardStart },
+      cancellationToken,
+    });
+    if (minishardResponse === undefined) {
+      throw new Error(`Failed to read minishard index from ${shard}`);
+    }
+    const data = await decodeData(
+      minishardResponse.data,
+      sharding.minishardIndexEncoding,
+      cancellationToken,
+    );
+    if (data.byteLength % 24 !== 0) {
+      throw new Error(`Invalid minishard index length: ${data.byteLength}`);
+    }
+    // The minishard index consists of 3 arrays of `numEntries` uint64 values: the delta-encoded
+    // chunk ids, the offsets of each chunk relative to the end of the previous chunk, and the
+    // sizes of each chunk.
+    const numEntries = data.byteLength / 24;
+    const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const chunks = new Map<string, ByteRange>();
+    const chunkId = new Uint64();
+    const delta = new Uint64();
+    let end = shardIndexSize;
+    for (let i = 0; i < numEntries; ++i) {
+      delta.low = dataView.getUint32(i * 8, /*littleEndian=*/ true);
+      delta.high = dataView.getUint32(i * 8 + 4, /*littleEndian=*/ true);
+      Uint64.add(chunkId, chunkId, delta);
+      const offset = end + getUint64AsNumber(dataView, (numEntries + i) * 8);
+      const length = getUint64AsNumber(dataView, (2 * numEntries + i) * 8);
+      chunks.set(chunkId.toString(), { offset, length });
+      end = offset + length;
+    }
+    return { shard, chunks };
+  }
+
+  async read(
+    chunkId: Uint64,
+    options: FileReadOptions = {},
+  ): Promise<FileReadResponse | undefined> {
+    const { cancellationToken = uncancelableToken } = options;
+    const { sharding } = this;
+    const hashCode = Uint64.rshift(new Uint64(), chunkId, sharding.preshiftBits);
+    shardingHashFunctions.get(sharding.hash)!(hashCode);
+    const shardAndMinishard = Uint64.lowMask(
+      new Uint64(),
+      sharding.minishardBits + sharding.shardBits,
+    );
+    Uint64.and(shardAndMinishard, shardAndMinishard, hashCode);
+    const minishardIndex = await this.minishardIndexCache.get(
+      shardAndMinishard,
+      cancellationToken,
+    );
+    if (minishardIndex === undefined) return undefined;
+    const byteRange = minishardIndex.chunks.get(chunkId.toString());
+    if (byteRange === undefined) return undefined;
+    const response = await this.base.read(minishardIndex.shard, {
+      ...options,
+      byteRange,
+    });
+    if (response === undefined) return undefined;
+    const data = await decodeData(
+      response.data,
+      sharding.dataEncoding,
+      cancellationToken,
+    );
+    return { data, totalSize: data.byteLength };
+  }
+}
+
+function getArrayBuffer(data: Uint8Array): ArrayBuffer {
+  if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) {
+    return data.buffer as ArrayBuffer;
+  }
+  return data.slice().buffer;
+}
+
+@registerSharedObject()
+export class PrecomputedVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileReader = new FileReader(this.parameters.url + "/");
+  private shardedReader =
+    this.parameters.sharding === undefined
+      ? undefined
+      : new PrecomputedShardedReader(
+          this.chunkManager,
+          this,
+          this.parameters.sharding,
+          this.fileReader,
+          this.parameters.url,
+        );
+
+  // Shape of the chunk grid, used to compute the chunk ids of sharded volumes.
+  private gridShape = (() => {
+    const { upperVoxelBound, chunkDataSize } = this.spec;
+    return Array.from({ length: 3 }, (_, i) =>
+      Math.ceil(upperVoxelBound[i] / chunkDataSize[i]),
+    );
+  })();
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { parameters } = this;
+    // Also sets `chunk.chunkDataSize`, which is clipped at the upper bound of the volume.
+    const chunkPosition = this.computeChunkBounds(chunk);
+    const chunkDataSize = chunk.chunkDataSize!;
+    let response: FileReadResponse | undefined;
+    if (this.shardedReader === undefined) {
+      let key = "";
+      for (let i = 0; i < 3; ++i) {
+        key +=
+          `${i === 0 ? "" : "_"}${chunkPosition[i]}-` +
+          `${chunkPosition[i] + chunkDataSize[i]}`;
+      }
+      response = await this.fileReader.read(key, { cancellationToken });
+    } else {
+      const chunkId = encodeZIndexCompressed(
+        new Uint64(),
+        this.gridShape,
+        chunk.chunkGridPosition,
+      );
+      response = await this.shardedReader.read(chunkId, { cancellationToken });
+    }
+    if (response === undefined) {
+      // Missing chunks are treated as all zero.
+      const { dataType } = this.spec;
+      const data = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](
+        vector.prod(chunkDataSize) *
+          DATA_TYPE_JAVASCRIPT_ELEMENTS_PER_ARRAY_ELEMENT[dataType],
+      );
+      await postProcessRawData(chunk, cancellationToken, data);
+      return;
+    }
+    const data = getArrayBuffer(response.data);
+    switch (parameters.encoding) {
+      case VolumeChunkEncoding.RAW:
+        await decodeRawChunk(chunk, cancellationToken, data, Endianness.LITTLE);
+        break;
+      case VolumeChunkEncoding.JPEG:
+        await decodeJpegChunk(chunk, cancellationToken, data);
+        break;
+      case VolumeChunkEncoding.COMPRESSED_SEGMENTATION:
+        await decodeCompressedSegmentationChunk(
+          chunk,
+          cancellationToken,
+          data,
+          parameters.compressedSegmentationBlockSize!,
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export enum VolumeChunkEncoding {
+  RAW = 0,
+  JPEG = 1,
+  COMPRESSED_SEGMENTATION = 2,
+}
+
+export enum DataEncoding {
+  RAW = 0,
+  GZIP = 1,
+}
+
+export enum ShardingHashFunction {
+  IDENTITY = 0,
+  MURMURHASH3_X86_128 = 1,
+}
+
+/**
+ * Parameters of the `neuroglancer_uint64_sharded_v1` format.
+ */
+export interface ShardingParameters {
+  hash: ShardingHashFunction;
+  preshiftBits: number;
+  minishardBits: number;
+  shardBits: number;
+  minishardIndexEncoding: DataEncoding;
+  dataEncoding: DataEncoding;
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  encoding: VolumeChunkEncoding;
+  sharding: ShardingParameters | undefined;
+  // Only specified for the `COMPRESSED_SEGMENTATION` encoding.
+  compressedSegmentationBlockSize: number[] | undefined;
+  static RPC_ID = "precomputed/VolumeChunkSource";
+}
@@ -0,0 +1,368 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { ShardingParameters } from "#src/datasource/precomputed/base.js";
+import {
+  DataEncoding,
+  ShardingHashFunction,
+  VolumeChunkEncoding,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/precomputed/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  DataType,
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import { cancellableFetchOk, responseJson } from "#src/util/http_request.js";
+import {
+  parseArray,
+  parseFixedLengthArray,
+  verifyEnumString,
+  verifyFinitePositiveFloat,
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+  verifyPositiveInt,
+  verifyString,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+
+class PrecomputedVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+interface ScaleInfo {
+  key: string;
+  encoding: VolumeChunkEncoding;
+  // Voxel size in nanometers.
+  resolution: Float64Array;
+  // The following are indexed by chunk dimension; the channel dimension, if any, is last.
+  voxelOffset: Float32Array;
+  size: Float32Array;
+  chunkSizes: Uint32Array[];
+  compressedSegmentationBlockSize: number[] | undefined;
+  sharding: ShardingParameters | undefined;
+}
+
+interface MultiscaleVolumeInfo {
+  dataType: DataType;
+  numChannels: number;
+  modelSpace: CoordinateSpace;
+  scales: ScaleInfo[];
+}
+
+function parseShardingParameters(obj: unknown): ShardingParameters {
+  verifyObject(obj);
+  verifyObjectProperty(obj, "@type", (x) => {
+    if (x !== "neuroglancer_uint64_sharded_v1") {
+      throw new Error(`Unsupported sharding format: ${JSON.stringify(x)}`);
+    }
+  });
+  const verifyBits = (x: unknown) => {
+    const bits = verifyInt(x);
+    if (bits < 0 || bits > 64) {
+      throw new Error(`Expected integer in [0, 64], but received: ${bits}`);
+    }
+    return bits;
+  };
+  const parseDataEncoding = (x: unknown) => verifyEnumString(x, DataEncoding);
+  return {
+    hash: verifyObjectProperty(obj, "hash", (x) =>
+      verifyEnumString(x, ShardingHashFunction),
+    ),
+    preshiftBits: verifyObjectProperty(obj, "preshift_bits", verifyBits),
+    minishardBits: verifyObjectProperty(obj, "minishard_bits", verifyBits),
+    shardBits: verifyObjectProperty(obj, "shard_bits", verifyBits),
+    minishardIndexEncoding: verifyOptionalObjectProperty(
+      obj,
+      "minishard_index_encoding",
+      parseDataEncoding,
+      DataEncoding.RAW,
+    ),
+    dataEncoding: verifyOptionalObjectProperty(
+      obj,
+      "data_encoding",
+      parseDataEncoding,
+      DataEncoding.RAW,
+    ),
+  };
+}
+
+function parseScaleInfo(obj: unknown, numChannels: number): ScaleInfo {
+  verifyObject(obj);
+  // Single-channel volumes are exposed as 3-d rather than 4-d.
+  const rank = numChannels === 1 ? 3 : 4;
+  const parseSpatialVector = <T extends Float32Array | Uint32Array>(
+    out: T,
+    x: unknown,
+    parseElement: (x: unknown) => number,
+  ): T => {
+    parseFixedLengthArray(out.subarray(0, 3), x, parseElement);
+    if (rank === 4) out[3] = numChannels;
+    return out;
+  };
+  const key = verifyObjectProperty(obj, "key", verifyString);
+  const encoding = verifyObjectProperty(obj, "encoding", (x) =>
+    verifyEnumString(x, VolumeChunkEncoding),
+  );
+  const resolution = verifyObjectProperty(obj, "resolution", (x) =>
+    parseFixedLengthArray(new Float64Array(3), x, verifyFinitePositiveFloat),
+  );
+  const voxelOffset = new Float32Array(rank);
+  verifyOptionalObjectProperty(obj, "voxel_offset", (x) =>
+    parseFixedLengthArray(voxelOffset.subarray(0, 3), x, verifyInt),
+  );
+  const size = verifyObjectProperty(obj, "size", (x) =>
+    parseSpatialVector(new Float32Array(rank), x, verifyPositiveInt),
+  );
+  const chunkSizes = verifyObjectProperty(obj, "chunk_sizes", (x) =>
+    parseArray(x, (y) =>
+      parseSpatialVector(new Uint32Array(rank), y, verifyPositiveInt),
+    ),
+  );
+  if (chunkSizes.length === 0) {
+    throw new Error("No chunk sizes specified");
+  }
+  let compressedSegmentationBlockSize: number[] | undefined;
+  if (encoding === VolumeChunkEncoding.COMPRESSED_SEGMENTATION) {
+    compressedSegmentationBlockSize = verifyObjectProperty(
+      obj,
+      "compressed_segmentation_block_size",
+      (x) => parseFixedLengthArray(new Array<number>(3), x, verifyPositiveInt),
+    );
+  }
+  const sharding = verifyOptionalObjectProperty(
+    obj,
+    "sharding",
+    parseShardingParameters,
+  );
+  return {
+    key,
+    encoding,
+    resolution,
+    voxelOffset,
+    size,
+    chunkSizes,
+    compressedSegmentationBlockSize,
+    sharding,
+  };
+}
+
+function parseMultiscaleVolumeInfo(obj: unknown): MultiscaleVolumeInfo {
+  verifyObject(obj);
+  verifyOptionalObjectProperty(obj, "@type", (x) => {
+    if (x !== "neuroglancer_multiscale_volume") {
+      throw new Error(`Unsupported precomputed type: ${JSON.stringify(x)}`);
+    }
+  });
+  const dataType = verifyObjectProperty(obj, "data_type", (x) =>
+    verifyEnumString(x, DataType),
+  );
+  const numChannels = verifyObjectProperty(
+    obj,
+    "num_channels",
+    verifyPositiveInt,
+  );
+  const scales = verifyObjectProperty(obj, "scales", (x) =>
+    parseArray(x, (y) => parseScaleInfo(y, numChannels)),
+  );
+  if (scales.length === 0) {
+    throw new Error("No scales specified");
+  }
+  for (const { encoding, key } of scales) {
+    if (
+      (encoding === VolumeChunkEncoding.JPEG && dataType !== DataType.UINT8) ||
+      (encoding === VolumeChunkEncoding.COMPRESSED_SEGMENTATION &&
+        dataType !== DataType.UINT32 &&
+        dataType !== DataType.UINT64)
+    ) {
+      throw new Error(
+        `Scale ${JSON.stringify(key)}: ` +
+          `${VolumeChunkEncoding[encoding].toLowerCase()} encoding not ` +
+          `supported for data type ${DataType[dataType].toLowerCase()}`,
+      );
+    }
+  }
+  const rank = numChannels === 1 ? 3 : 4;
+  const baseScale = scales[0];
+  const names = ["x", "y", "z"];
+  const units = ["m", "m", "m"];
+  const coordinateScales = new Float64Array(rank);
+  const lowerBounds = new Float64Array(rank);
+  const upperBounds = new Float64Array(rank);
+  for (let i = 0; i < 3; ++i) {
+    coordinateScales[i] = baseScale.resolution[i] * 1e-9;
+    lowerBounds[i] = baseScale.voxelOffset[i];
+    upperBounds[i] = baseScale.voxelOffset[i] + baseScale.size[i];
+  }
+  if (rank === 4) {
+    names.push("c^");
+    units.push("");
+    coordinateScales[3] = 1;
+    upperBounds[3] = numChannels;
+  }
+  const modelSpace = makeCoordinateSpace({
+    names,
+    units,
+    scales: coordinateScales,
+    boundingBoxes: [
+      {
+        box: { lowerBounds, upperBounds },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+  return { dataType, numChannels, modelSpace, scales };
+}
+
+export class PrecomputedMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  // Compressed segmentation chunks are decoded by the backend, so segmentation volumes are
+  // displayed using the uncompressed chunk format as well.
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get modelSpace() {
+    return this.info.modelSpace;
+  }
+
+  get rank() {
+    return this.info.modelSpace.rank;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public url: string,
+    public info: MultiscaleVolumeInfo,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank } = this;
+    const baseResolution = this.info.scales[0].resolution;
+    const stride = rank + 1;
+    return transposeNestedArrays(
+      this.info.scales.map((scale) => {
+        const chunkToMultiscaleTransform = new Float32Array(stride * stride);
+        chunkToMultiscaleTransform[stride * stride - 1] = 1;
+        for (let i = 0; i < 3; ++i) {
+          const relativeScale = scale.resolution[i] / baseResolution[i];
+          chunkToMultiscaleTransform[stride * i + i] = relativeScale;
+          chunkToMultiscaleTransform[stride * rank + i] =
+            scale.voxelOffset[i] * relativeScale;
+        }
+        if (rank === 4) {
+          chunkToMultiscaleTransform[stride * 3 + 3] = 1;
+        }
+        return makeDefaultVolumeChunkSpecifications({
+          rank,
+          chunkToMultiscaleTransform,
+          dataType: this.dataType,
+          upperVoxelBound: scale.size,
+          baseVoxelOffset: scale.voxelOffset,
+          volumeType: this.volumeType,
+          chunkDataSizes: scale.chunkSizes,
+          volumeSourceOptions,
+        }).map(
+          (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+            chunkSource: this.chunkManager.getChunkSource(
+              PrecomputedVolumeChunkSource,
+              {
+                spec,
+                parameters: {
+                  url: `${this.url}/${scale.key}`,
+                  encoding: scale.encoding,
+                  sharding: scale.sharding,
+                  compressedSegmentationBlockSize:
+                    scale.compressedSegmentationBlockSize,
+                },
+              },
+            ),
+            chunkToMultiscaleTransform,
+          }),
+        );
+      }),
+    );
+  }
+}
+
+function getInfo(chunkManager: ChunkManager, url: string): Promise<any> {
+  return chunkManager.memoize.getUncounted(
+    { type: "precomputed:info", url },
+    () => cancellableFetchOk(`${url}/info`, {}, responseJson),
+  );
+}
+
+export class PrecomputedDataSource extends DataSourceProvider {
+  get description() {
+    return "Neuroglancer Precomputed data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl.replace(/\/+$/, "");
+    return options.chunkManager.memoize.getUncounted(
+      { type: "precomputed:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = parseMultiscaleVolumeInfo(
+          await getInfo(options.chunkManager, url),
+        );
+        const volume = new PrecomputedMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          url,
+          info,
+        );
+        const { rank } = volume.modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/raw/base.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DATA_TYPE_BYTES, makeDataTypeArrayView } from "#src/util/data_type.js";
+import { convertEndian } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import * as vector from "#src/util/vector.js";
+import { registerSharedObject } from "#src/worker/worker_rpc.js";
+
+// Rows of a chunk separated by at most this many bytes in the file are fetched with a single
+// read, and the bytes between them discarded.
+const MAX_READ_GAP = 1 << 20;
+
+interface ByteRangeRead {
+  fileOffset: number;
+  length: number;
+  // File offsets of the rows within this read, in order.
+  rowOffsets: number[];
+}
+
+/**
+ * Reads a chunk of an uncompressed array with the specified layout, where the first dimension is
+ * the fastest varying.  Rows that are close together within the file are fetched together, so
+ * that `read` is called once for each group of rows, and must return exactly `length` bytes.
+ */
+export async function readUncompressedChunk(
+  layout: Pick<
+    VolumeChunkSourceParameters,
+    "shape" | "dataType" | "endianness" | "byteOffset"
+  >,
+  chunkPosition: ArrayLike<number>,
+  chunkDataSize: ArrayLike<number>,
+  read: (offset: number, length: number) => Promise<Uint8Array>,
+): Promise<ArrayBufferView> {
+  const { shape, dataType, endianness, byteOffset } = layout;
+  const rank = shape.length;
+  const bytesPerElement = DATA_TYPE_BYTES[dataType];
+  const strides: number[] = [];
+  for (let i = 0, stride = bytesPerElement; i < rank; ++i) {
+    strides[i] = stride;
+    stride *= shape[i];
+  }
+  // Each row of the chunk along the first dimension is contiguous within the file, and the rows
+  // are in increasing order of file offset.  Consecutive rows are merged into a single read unless
+  // they are far apart, as when the chunk spans several planes of a large array.
+  const rowLength = chunkDataSize[0] * bytesPerElement;
+  const numRows = vector.prod(chunkDataSize) / chunkDataSize[0];
+  const reads: ByteRangeRead[] = [];
+  for (let row = 0; row < numRows; ++row) {
+    let fileOffset = byteOffset + chunkPosition[0] * strides[0];
+    for (let i = 1, remainder = row; i < rank; ++i) {
+      fileOffset += (chunkPosition[i] + (remainder % chunkDataSize[i])) * strides[i];
+      remainder = Math.floor(remainder / chunkDataSize[i]);
+    }
+    const last = reads[reads.length - 1];
+    if (
+      last !== undefined &&
+      fileOffset - (last.fileOffset + last.length) <= MAX_READ_GAP
+    ) {
+      last.length = fileOffset + rowLength - last.fileOffset;
+      last.rowOffsets.push(fileOffset);
+    } else {
+      reads.push({ fileOffset, length: rowLength, rowOffsets: [fileOffset] });
+    }
+  }
+  const output = new Uint8Array(numRows * rowLength);
+  let firstRow = 0;
+  await Promise.all(
+    reads.map(async ({ fileOffset, length, rowOffsets }) => {
+      let outputOffset = firstRow * rowLength;
+      firstRow += rowOffsets.length;
+      const data = await read(fileOffset, length);
+      for (const rowOffset of rowOffsets) {
+        const start = rowOffset - fileOffset;
+        output.set(data.subarray(start, start + rowLength), outputOffset);
+        outputOffset += rowLength;
+      }
+    }),
+  );
+  const data = makeDataTypeArrayView(dataType, output.buffer);
+  convertEndian(data, endianness, bytesPerElement);
+  return data;
+}
+
+@registerSharedObject()
+export class RawVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private fileReader = new FileReader("");
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const { parameters } = this;
+    const { url } = parameters;
+    const data = await readUncompressedChunk(
+      parameters,
+      this.computeChunkBounds(chunk),
+      chunk.chunkDataSize!,
+      async (offset, length) => {
+        const response = await this.fileReader.read(url, {
+          byteRange: { offset, length },
+          cancellationToken,
+        });
+        if (response === undefined || response.data.length !== length) {
+          throw new Error(
+            `Failed to read ${length} bytes at offset ${offset} of ` +
+              `${JSON.stringify(url)}`,
+          );
+        }
+        return response.data;
+      },
+    );
+    await postProcessRawData(chunk, cancellationToken, data);
+  }
+}
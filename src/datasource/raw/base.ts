@@ -0,0 +1,29 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+import type { Endianness } from "#src/util/endian.js";
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  // Number of elements along each dimension, from fastest to slowest varying.
+  shape: number[];
+  dataType: DataType;
+  endianness: Endianness;
+  // Offset in bytes of the first element within the file.
+  byteOffset: number;
+  static RPC_ID = "raw/VolumeChunkSource";
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import { VolumeChunkSourceParameters } from "#src/datasource/raw/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import { DataType } from "#src/util/data_type.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import { Endianness } from "#src/util/endian.js";
+import {
+  parseQueryStringParameters,
+  verifyEnumString,
+  verifyNonnegativeInt,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+  verifyPositiveInt,
+  verifyString,
+} from "#src/util/json.js";
+import * as matrix from "#src/util/matrix.js";
+import { parseScaleList } from "#src/util/si_units.js";
+
+class RawVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+// Names of the first 3 dimensions; any additional dimensions are named `d3`, `d4`, etc.
+const DIMENSION_NAMES = ["x", "y", "z"];
+
+interface RawVolumeInfo {
+  url: string;
+  shape: number[];
+  dataType: DataType;
+  endianness: Endianness;
+  byteOffset: number;
+  voxelSize: { scale: number; unit: string }[];
+}
+
+/**
+ * Parses the layout of the raw file from the query string parameters of the data source URL.
+ */
+function parseRawVolumeInfo(url: string, parameters: unknown): RawVolumeInfo {
+  verifyObject(parameters);
+  const shape = verifyObjectProperty(parameters, "shape", (value) =>
+    verifyString(value).split(",").map(verifyPositiveInt),
+  );
+  const rank = shape.length;
+  const dataType = verifyObjectProperty(parameters, "data_type", (value) =>
+    verifyEnumString(value, DataType),
+  );
+  const endianness =
+    verifyOptionalObjectProperty(parameters, "endianness", (value) =>
+      verifyEnumString(value, Endianness),
+    ) ?? Endianness.LITTLE;
+  const byteOffset =
+    verifyOptionalObjectProperty(
+      parameters,
+      "byte_offset",
+      verifyNonnegativeInt,
+    ) ?? 0;
+  const voxelSize = verifyObjectProperty(parameters, "voxel_size", (value) => {
+    const result = parseScaleList(
+      value === undefined ? "1" : verifyString(value),
+      rank,
+    );
+    if (result === undefined) {
+      throw new Error(`Invalid voxel size: ${JSON.stringify(value)}`);
+    }
+    return result;
+  });
+  return { url, shape, dataType, endianness, byteOffset, voxelSize };
+}
+
+function getModelSpace(info: RawVolumeInfo): CoordinateSpace {
+  const { shape, voxelSize } = info;
+  const rank = shape.length;
+  return makeCoordinateSpace({
+    names: shape.map((_, i) => DIMENSION_NAMES[i] ?? `d${i}`),
+    units: voxelSize.map((size) => size.unit),
+    scales: Float64Array.from(voxelSize, (size) => size.scale),
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(shape),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+}
+
+export class RawMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.shape.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public info: RawVolumeInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank, info } = this;
+    const chunkToMultiscaleTransform = matrix.createIdentity(
+      Float32Array,
+      rank + 1,
+    );
+    return transposeNestedArrays([
+      makeDefaultVolumeChunkSpecifications({
+        rank,
+        chunkToMultiscaleTransform,
+        dataType: this.dataType,
+        upperVoxelBound: Float32Array.from(info.shape),
+        volumeType: this.volumeType,
+        volumeSourceOptions,
+      }).map(
+        (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+          chunkSource: this.chunkManager.getChunkSource(RawVolumeChunkSource, {
+            spec,
+            parameters: {
+              url: info.url,
+              shape: info.shape,
+              dataType: info.dataType,
+              endianness: info.endianness,
+              byteOffset: info.byteOffset,
+            },
+          }),
+          chunkToMultiscaleTransform,
+        }),
+      ),
+    ]);
+  }
+}
+
+export class RawDataSource extends DataSourceProvider {
+  get description() {
+    return "Raw binary data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    // Pattern is infallible.
+    const [, url, query] = options.providerUrl.match(/([^?]*)(?:\?(.*))?$/)!;
+    const info = parseRawVolumeInfo(url, parseQueryStringParameters(query || ""));
+    return options.chunkManager.memoize.getUncounted(
+      { type: "raw:MultiscaleVolumeChunkSource", ...info },
+      async () => {
+        const modelSpace = getModelSpace(info);
+        const volume = new RawMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
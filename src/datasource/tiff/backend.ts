@@ -0,0 +1,622 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import { WithParameters } from "#src/chunk_manager/backend.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type { TiffVolumeInfo } from "#src/datasource/tiff/base.js";
+import {
+  GET_TIFF_VOLUME_INFO_RPC_ID,
+  TIFF_FILE_PATTERN,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/tiff/base.js";
+import {
+  decompressSegment,
+  TiffPredictor,
+  undoFloatingPointPredictor,
+  undoHorizontalDifferencing,
+} from "#src/datasource/tiff/decode.js";
+import type { Ifd } from "#src/datasource/tiff/ifd.js";
+import { TiffFile, TiffTag } from "#src/datasource/tiff/ifd.js";
+import { parseOmeXml } from "#src/datasource/tiff/ome.js";
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
+import type { TypedArray } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  DATA_TYPE_BYTES,
+  DataType,
+  makeDataTypeArrayView,
+} from "#src/util/data_type.js";
+import { convertEndian, Endianness } from "#src/util/endian.js";
+import { FileReader } from "#src/util/file_system.js";
+import { listDirectory } from "#src/util/http_request.js";
+import { naturalStringCompare } from "#src/util/string.js";
+import * as vector from "#src/util/vector.js";
+import type { RPCPromise } from "#src/worker/worker_rpc.js";
+import {
+  registerPromiseRPC,
+  registerSharedObject,
+} from "#src/worker/worker_rpc.js";
+
+// Maps `SampleFormat` and `BitsPerSample` to the corresponding data type.
+const TIFF_DATA_TYPES = new Map<string, DataType>([
+  ["1/8", DataType.UINT8],
+  ["1/16", DataType.UINT16],
+  ["1/32", DataType.UINT32],
+  ["2/8", DataType.INT8],
+  ["2/16", DataType.INT16],
+  ["2/32", DataType.INT32],
+  ["3/32", DataType.FLOAT32],
+]);
+
+/**
+ * Layout of the strips or tiles of an IFD.  Strips are treated as tiles spanning the full width
+ * of the image.
+ */
+interface ImageLayout {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  // Indicates that each sample is stored in a separate plane of strips or tiles
+  // (`PlanarConfiguration` of 2).
+  planar: boolean;
+  dataType: DataType;
+  compression: number;
+  predictor: number;
+  tiled: boolean;
+  segmentWidth: number;
+  segmentHeight: number;
+  segmentsAcross: number;
+  segmentsDown: number;
+  offsets: number[];
+  byteCounts: number[];
+}
+
+const imageLayouts = new WeakMap<Ifd, Promise<ImageLayout>>();
+
+async function readImageLayout(ifd: Ifd): Promise<ImageLayout> {
+  const width = await ifd.getNumber(TiffTag.IMAGE_WIDTH);
+  const height = await ifd.getNumber(TiffTag.IMAGE_LENGTH);
+  if (width === undefined || height === undefined) {
+    throw new Error("TIFF IFD does not specify the image size");
+  }
+  const samplesPerPixel =
+    (await ifd.getNumber(TiffTag.SAMPLES_PER_PIXEL)) ?? 1;
+  const bitsPerSample = (await ifd.getNumbers(TiffTag.BITS_PER_SAMPLE)) ?? [1];
+  if (bitsPerSample.some((bits) => bits !== bitsPerSample[0])) {
+    throw new Error(
+      `Unsupported TIFF BitsPerSample: ${JSON.stringify(bitsPerSample)}`,
+    );
+  }
+  const sampleFormat = (await ifd.getNumber(TiffTag.SAMPLE_FORMAT)) ?? 1;
+  const dataType = TIFF_DATA_TYPES.get(`${sampleFormat}/${bitsPerSample[0]}`);
+  if (dataType === undefined) {
+    throw new Error(
+      `Unsupported TIFF data type: SampleFormat=${sampleFormat}, ` +
+        `BitsPerSample=${bitsPerSample[0]}`,
+    );
+  }
+  const planar = (await ifd.getNumber(TiffTag.PLANAR_CONFIGURATION)) === 2;
+  const tiled = ifd.has(TiffTag.TILE_WIDTH);
+  let segmentWidth: number | undefined;
+  let segmentHeight: number | undefined;
+  let offsets: number[] | undefined;
+  let byteCounts: number[] | undefined;
+  if (tiled) {
+    segmentWidth = await ifd.getNumber(TiffTag.TILE_WIDTH);
+    segmentHeight = await ifd.getNumber(TiffTag.TILE_LENGTH);
+    offsets = await ifd.getNumbers(TiffTag.TILE_OFFSETS);
+    byteCounts = await ifd.getNumbers(TiffTag.TILE_BYTE_COUNTS);
+  } else {
+    segmentWidth = width;
+    segmentHeight = Math.min(
+      (await ifd.getNumber(TiffTag.ROWS_PER_STRIP)) ?? height,
+      height,
+    );
+    offsets = await ifd.getNumbers(TiffTag.STRIP_OFFSETS);
+    byteCounts = await ifd.getNumbers(TiffTag.STRIP_BYTE_COUNTS);
+  }
+  if (!segmentWidth || !segmentHeight) {
+    throw new Error("Invalid TIFF tile size");
+  }
+  const segmentsAcross = Math.ceil(width / segmentWidth);
+  const segmentsDown = Math.ceil(height / segmentHeight);
+  const numSegments =
+    segmentsAcross * segmentsDown * (planar ? samplesPerPixel : 1);
+  if (
+    offsets?.length !== numSegments ||
+    byteCounts?.length !== numSegments
+  ) {
+    throw new Error(
+      `Expected TIFF IFD to specify ${numSegments} ${tiled ? "tile" : "strip"} ` +
+        `offsets and byte counts`,
+    );
+  }
+  return {
+    width,
+    height,
+    samplesPerPixel,
+    planar,
+    dataType,
+    compression: (await ifd.getNumber(TiffTag.COMPRESSION)) ?? 1,
+    predictor: (await ifd.getNumber(TiffTag.PREDICTOR)) ?? TiffPredictor.NONE,
+    tiled,
+    segmentWidth,
+    segmentHeight,
+    segmentsAcross,
+    segmentsDown,
+    offsets,
+    byteCounts,
+  };
+}
+
+function getImageLayout(ifd: Ifd) {
+  let layout = imageLayouts.get(ifd);
+  if (layout === undefined) {
+    layout = readImageLayout(ifd);
+    imageLayouts.set(ifd, layout);
+  }
+  return layout;
+}
+
+/**
+ * Reads and decodes a strip or tile, returning the samples in native byte order.
+ */
+async function decodeSegment(
+  file: TiffFile,
+  layout: ImageLayout,
+  index: number,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  const { segmentWidth, segmentHeight, dataType, predictor } = layout;
+  const bytesPerSample = DATA_TYPE_BYTES[dataType];
+  const samples = layout.planar ? 1 : layout.samplesPerPixel;
+  // The last strip only contains the remaining rows, while tiles are always complete.
+  let rows = segmentHeight;
+  if (!layout.tiled) {
+    const strip = index % layout.segmentsDown;
+    rows = Math.min(segmentHeight, layout.height - strip * segmentHeight);
+  }
+  const rowLength = segmentWidth * samples;
+  const size = rowLength * rows * bytesPerSample;
+  const offset = layout.offsets[index];
+  const byteCount = layout.byteCounts[index];
+  if (offset === 0 || byteCount === 0) {
+    // Missing strips and tiles in sparse files are zero.
+    return new Uint8Array(size);
+  }
+  let data = await decompressSegment(
+    layout.compression,
+    await file.read(offset, byteCount),
+    size,
+    cancellationToken,
+  );
+  let endianness = file.littleEndian ? Endianness.LITTLE : Endianness.BIG;
+  if (predictor === TiffPredictor.FLOATING_POINT) {
+    data = undoFloatingPointPredictor(data, rowLength, samples, bytesPerSample);
+    endianness = Endianness.BIG;
+  } else if (data.byteOffset % bytesPerSample !== 0) {
+    data = data.slice();
+  }
+  const array = makeDataTypeArrayView(
+    dataType,
+    data.buffer as ArrayBuffer,
+    data.byteOffset,
+    data.byteLength,
+  ) as TypedArray;
+  convertEndian(array, endianness, bytesPerSample);
+  if (predictor === TiffPredictor.HORIZONTAL) {
+    undoHorizontalDifferencing(array, rowLength, samples);
+  }
+  return data;
+}
+
+/**
+ * A page is a 2-d image stored in an IFD, along with its pyramid levels stored as SubIFDs.
+ */
+interface TiffPage {
+  url: string;
+  // Offset of the IFD, or `undefined` for the first IFD of the file.
+  ifdOffset: number | undefined;
+}
+
+interface TiffStack {
+  info: TiffVolumeInfo;
+  pages: TiffPage[];
+  // Strides of the page index along z, c and t, where `c` indexes pages rather than samples.
+  pageStrides: number[];
+  samplesPerPixel: number;
+  // Indices of the channel and time dimensions of the volume, if present.
+  channelDimension: number | undefined;
+  timeDimension: number | undefined;
+}
+
+type TiffFileCache = ReturnType<typeof getTiffFileCache>;
+
+function getTiffFileCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "tiff:file", {
+    get: async (url: string) => {
+      const file = await TiffFile.open(new FileReader(""), url);
+      return { data: file, size: 0 };
+    },
+  });
+}
+
+async function getPageIfd(
+  fileCache: TiffFileCache,
+  page: TiffPage,
+  level: number,
+  cancellationToken: CancellationToken,
+) {
+  const file = await fileCache.get(page.url, cancellationToken);
+  const ifd = await file.getIfd(page.ifdOffset ?? file.firstIfdOffset);
+  if (level === 0) return ifd;
+  const subIfds = await ifd.getNumbers(TiffTag.SUB_IFDS);
+  if (subIfds === undefined || subIfds.length < level) {
+    throw new Error(`TIFF page does not contain pyramid level ${level}`);
+  }
+  return file.getIfd(subIfds[level - 1]);
+}
+
+async function getPages(
+  fileCache: TiffFileCache,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<TiffPage[]> {
+  const names = await listDirectory(url);
+  if (names === undefined) {
+    const file = await fileCache.get(url, cancellationToken);
+    return (await file.getIfdOffsets()).map((ifdOffset) => ({
+      url,
+      ifdOffset,
+    }));
+  }
+  // Each file in a directory is a single page.
+  const baseUrl = url.replace(/\/*$/, "/");
+  const fileNames = names
+    .filter((name) => TIFF_FILE_PATTERN.test(name))
+    .sort(naturalStringCompare);
+  if (fileNames.length === 0) {
+    throw new Error(`No TIFF files found in ${JSON.stringify(url)}`);
+  }
+  return fileNames.map((name) => ({ url: baseUrl + name, ifdOffset: undefined }));
+}
+
+async function openTiffStack(
+  fileCache: TiffFileCache,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<TiffStack> {
+  const pages = await getPages(fileCache, url, cancellationToken);
+  if (pages.length === 0) {
+    throw new Error("TIFF file does not contain any images");
+  }
+  const firstIfd = await getPageIfd(fileCache, pages[0], 0, cancellationToken);
+  const layout = await getImageLayout(firstIfd);
+  const { width, height, samplesPerPixel } = layout;
+  const description = await firstIfd.getString(TiffTag.IMAGE_DESCRIPTION);
+  const ome =
+    description === undefined ? undefined : parseOmeXml(description);
+  let sizeZ = pages.length;
+  let sizeC = samplesPerPixel;
+  let sizeT = 1;
+  let pageStrides = [1, 0, 0];
+  const voxelSize = [1, 1, 1];
+  const units = ["", "", ""];
+  let timeIncrement = 1;
+  let timeUnit = "";
+  if (ome !== undefined) {
+    if (ome.sizeX !== width || ome.sizeY !== height) {
+      throw new Error(
+        `OME-XML image size ${ome.sizeX}x${ome.sizeY} does not match ` +
+          `TIFF image size ${width}x${height}`,
+      );
+    }
+    ({ sizeZ, sizeC, sizeT } = ome);
+    if (sizeC % samplesPerPixel !== 0) {
+      throw new Error(
+        `OME-XML SizeC of ${sizeC} is not a multiple of SamplesPerPixel ` +
+          `(${samplesPerPixel})`,
+      );
+    }
+    const pageSizes: Record<string, number> = {
+      Z: sizeZ,
+      C: sizeC / samplesPerPixel,
+      T: sizeT,
+    };
+    const strides: Record<string, number> = {};
+    let numPages = 1;
+    for (const dim of ome.dimensionOrder.substring(2)) {
+      strides[dim] = numPages;
+      numPages *= pageSizes[dim];
+    }
+    if (numPages > pages.length) {
+      throw new Error(
+        `OME-XML metadata specifies ${numPages} pages, but only ` +
+          `${pages.length} are present`,
+      );
+    }
+    pageStrides = [strides.Z, strides.C, strides.T];
+    for (let i = 0; i < 3; ++i) {
+      const size = ome.physicalSize[i];
+      if (size === undefined) continue;
+      voxelSize[i] = size;
+      units[i] = ome.physicalSizeUnits[i];
+    }
+    if (ome.timeIncrement !== undefined) {
+      timeIncrement = ome.timeIncrement;
+      timeUnit = ome.timeIncrementUnit;
+    }
+  }
+  const names = ["x", "y", "z"];
+  const shape = [width, height, sizeZ];
+  let channelDimension: number | undefined;
+  let timeDimension: number | undefined;
+  if (sizeC > 1) {
+    channelDimension = names.length;
+    names.push("c'");
+    shape.push(sizeC);
+    voxelSize.push(1);
+    units.push("");
+  }
+  if (sizeT > 1) {
+    timeDimension = names.length;
+    names.push("t");
+    shape.push(sizeT);
+    voxelSize.push(timeIncrement);
+    units.push(timeUnit);
+  }
+  // Pyramid levels are determined from the SubIFDs of the first page.
+  const levelShapes = [shape];
+  const subIfds = (await firstIfd.getNumbers(TiffTag.SUB_IFDS)) ?? [];
+  for (const offset of subIfds) {
+    const levelLayout = await getImageLayout(
+      await firstIfd.file.getIfd(offset),
+    );
+    levelShapes.push([levelLayout.width, levelLayout.height, ...shape.slice(2)]);
+  }
+  return {
+    info: {
+      dataType: layout.dataType,
+      names,
+      levelShapes,
+      voxelSize,
+      units,
+    },
+    pages,
+    pageStrides,
+    samplesPerPixel,
+    channelDimension,
+    timeDimension,
+  };
+}
+
+function getTiffStackCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "tiff", {
+    get: async (url: string, cancellationToken: CancellationToken) => {
+      const fileCache = getTiffFileCache(chunkManager);
+      try {
+        const stack = await openTiffStack(fileCache, url, cancellationToken);
+        return { data: stack, size: 0 };
+      } finally {
+        fileCache.dispose();
+      }
+    },
+  });
+}
+
+interface TiffSegmentKey {
+  url: string;
+  ifdOffset: number;
+  index: number;
+}
+
+function getTiffSegmentCache(chunkManager: ChunkManager) {
+  return makeSimpleAsyncCache(chunkManager, "tiff:segment", {
+    get: async (key: TiffSegmentKey, cancellationToken: CancellationToken) => {
+      const fileCache = getTiffFileCache(chunkManager);
+      try {
+        const file = await fileCache.get(key.url, cancellationToken);
+        const layout = await getImageLayout(await file.getIfd(key.ifdOffset));
+        const data = await decodeSegment(
+          file,
+          layout,
+          key.index,
+          cancellationToken,
+        );
+        return { data, size: data.byteLength };
+      } finally {
+        fileCache.dispose();
+      }
+    },
+  });
+}
+
+registerPromiseRPC(
+  GET_TIFF_VOLUME_INFO_RPC_ID,
+  async function (
+    x: { chunkManager: number; url: string },
+    cancellationToken,
+  ): RPCPromise<TiffVolumeInfo> {
+    const chunkManager = this.get(x.chunkManager) as ChunkManager;
+    const cache = getTiffStackCache(chunkManager);
+    try {
+      const { info } = await cache.get(x.url, cancellationToken);
+      return { value: info };
+    } finally {
+      cache.dispose();
+    }
+  },
+);
+
+@registerSharedObject()
+export class TiffVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {
+  private stackCache = this.registerDisposer(
+    getTiffStackCache(this.chunkManager),
+  );
+  private fileCache = this.registerDisposer(
+    getTiffFileCache(this.chunkManager),
+  );
+  private segmentCache = this.registerDisposer(
+    getTiffSegmentCache(this.chunkManager),
+  );
+
+  async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
+    const stack = await this.stackCache.get(
+      this.parameters.url,
+      cancellationToken,
+    );
+    // Copied since the chunk position is stored in a temporary array shared by all chunks of the
+    // source.
+    const chunkPosition = Array.from(this.computeChunkBounds(chunk));
+    const chunkDataSize = chunk.chunkDataSize!;
+    const { dataType } = stack.info;
+    const bytesPerSample = DATA_TYPE_BYTES[dataType];
+    const output = new Uint8Array(vector.prod(chunkDataSize) * bytesPerSample);
+    const [width, height] = chunkDataSize;
+    const planeBytes = width * height * bytesPerSample;
+    const numPlanes = output.length / planeBytes;
+    const rank = chunkDataSize.length;
+    const { channelDimension, timeDimension, samplesPerPixel, pageStrides } =
+      stack;
+    const promises: Promise<void>[] = [];
+    for (let plane = 0; plane < numPlanes; ++plane) {
+      const position = [0, 0, 0, 0, 0];
+      for (let i = 2, remainder = plane; i < rank; ++i) {
+        position[i] = chunkPosition[i] + (remainder % chunkDataSize[i]);
+        remainder = Math.floor(remainder / chunkDataSize[i]);
+      }
+      const c = channelDimension === undefined ? 0 : position[channelDimension];
+      const t = timeDimension === undefined ? 0 : position[timeDimension];
+      const pageIndex =
+        position[2] * pageStrides[0] +
+        Math.floor(c / samplesPerPixel) * pageStrides[1] +
+        t * pageStrides[2];
+      promises.push(
+        this.copyPlane(
+          stack,
+          pageIndex,
+          c % samplesPerPixel,
+          chunkPosition,
+          chunkDataSize,
+          output.subarray(plane * planeBytes, (plane + 1) * planeBytes),
+          cancellationToken,
+        ),
+      );
+    }
+    await Promise.all(promises);
+    await postProcessRawData(
+      chunk,
+      cancellationToken,
+      makeDataTypeArrayView(dataType, output.buffer),
+    );
+  }
+
+  /**
+   * Copies the region of a single sample of a page that intersects the chunk.
+   */
+  private async copyPlane(
+    stack: TiffStack,
+    pageIndex: number,
+    sample: number,
+    chunkPosition: number[],
+    chunkDataSize: Uint32Array,
+    output: Uint8Array,
+    cancellationToken: CancellationToken,
+  ) {
+    const { level } = this.parameters;
+    const page = stack.pages[pageIndex];
+    const ifd = await getPageIfd(this.fileCache, page, level, cancellationToken);
+    const layout = await getImageLayout(ifd);
+    const { dataType, levelShapes } = stack.info;
+    if (
+      layout.width !== levelShapes[level][0] ||
+      layout.height !== levelShapes[level][1] ||
+      layout.dataType !== dataType ||
+      layout.samplesPerPixel !== stack.samplesPerPixel
+    ) {
+      throw new Error(
+        `TIFF page ${pageIndex} does not match the format of the first page`,
+      );
+    }
+    const { segmentWidth, segmentHeight, segmentsAcross } = layout;
+    const bytesPerSample = DATA_TYPE_BYTES[dataType];
+    const samples = layout.planar ? 1 : layout.samplesPerPixel;
+    const sampleOffset = layout.planar ? 0 : sample;
+    const firstSegment = layout.planar
+      ? sample * segmentsAcross * layout.segmentsDown
+      : 0;
+    const [x0, y0] = chunkPosition;
+    const [width, height] = chunkDataSize;
+    const promises: Promise<void>[] = [];
+    for (
+      let segmentY = Math.floor(y0 / segmentHeight);
+      segmentY * segmentHeight < y0 + height;
+      ++segmentY
+    ) {
+      for (
+        let segmentX = Math.floor(x0 / segmentWidth);
+        segmentX * segmentWidth < x0 + width;
+        ++segmentX
+      ) {
+        const index = firstSegment + segmentY * segmentsAcross + segmentX;
+        promises.push(
+          (async () => {
+            const segment = await this.segmentCache.get(
+              { url: page.url, ifdOffset: ifd.offset, index },
+              cancellationToken,
+            );
+            const segmentX0 = segmentX * segmentWidth;
+            const segmentY0 = segmentY * segmentHeight;
+            const xStart = Math.max(x0, segmentX0);
+            const xEnd = Math.min(x0 + width, segmentX0 + segmentWidth);
+            const yStart = Math.max(y0, segmentY0);
+            const yEnd = Math.min(y0 + height, segmentY0 + segmentHeight);
+            const rowBytes = (xEnd - xStart) * bytesPerSample;
+            for (let y = yStart; y < yEnd; ++y) {
+              let inputOffset =
+                (((y - segmentY0) * segmentWidth + (xStart - segmentX0)) *
+                  samples +
+                  sampleOffset) *
+                bytesPerSample;
+              let outputOffset =
+                ((y - y0) * width + (xStart - x0)) * bytesPerSample;
+              if (samples === 1) {
+                output.set(
+                  segment.subarray(inputOffset, inputOffset + rowBytes),
+                  outputOffset,
+                );
+                continue;
+              }
+              for (let x = xStart; x < xEnd; ++x) {
+                for (let byte = 0; byte < bytesPerSample; ++byte) {
+                  output[outputOffset++] = segment[inputOffset + byte];
+                }
+                inputOffset += samples * bytesPerSample;
+              }
+            }
+          })(),
+        );
+      }
+    }
+    await Promise.all(promises);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DataType } from "#src/util/data_type.js";
+
+// Files with these extensions in a directory are used as slices.
+export const TIFF_FILE_PATTERN = /\.tiff?$/i;
+
+export const GET_TIFF_VOLUME_INFO_RPC_ID = "tiff/getTiffVolumeInfo";
+
+export interface TiffVolumeInfo {
+  dataType: DataType;
+  // Dimension names: `x`, `y` and `z`, followed by `c'` if there are multiple channels and `t` if
+  // there are multiple time points.
+  names: string[];
+  // Number of voxels along each dimension for each pyramid level, starting with the base
+  // resolution.  Only the `x` and `y` dimensions are downsampled.
+  levelShapes: number[][];
+  // Voxel size of the base resolution along each dimension, in units of `units`.
+  voxelSize: number[];
+  units: string[];
+}
+
+export class VolumeChunkSourceParameters {
+  url: string;
+  // Pyramid level, where level `i > 0` is stored as SubIFD `i - 1` of each page.
+  level: number;
+  static RPC_ID = "tiff/VolumeChunkSource";
+}
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Decoders for the TIFF compression schemes and predictors applied to strips and tiles.
+ */
+
+import type { TypedArray } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { decodeGzip } from "#src/util/gzip.js";
+
+export enum TiffCompression {
+  NONE = 1,
+  LZW = 5,
+  DEFLATE = 8,
+  PACKBITS = 32773,
+  // Obsolete code for deflate compression still written by some software.
+  ADOBE_DEFLATE = 32946,
+}
+
+export enum TiffPredictor {
+  NONE = 1,
+  HORIZONTAL = 2,
+  FLOATING_POINT = 3,
+}
+
+const LZW_CLEAR_CODE = 256;
+const LZW_END_OF_INFORMATION_CODE = 257;
+const LZW_MAX_CODE_WIDTH = 12;
+
+/**
+ * Decodes TIFF LZW data, which uses most significant bit first codes and increases the code width
+ * one code earlier than GIF.
+ *
+ * Output beyond `size` bytes is discarded, and missing output is left as zero.
+ */
+export function decodeLzw(data: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size);
+  const tableSize = 1 << LZW_MAX_CODE_WIDTH;
+  // The string for code `i` is the string for `prefixes[i]` followed by `suffixes[i]`.
+  const prefixes = new Uint16Array(tableSize);
+  const suffixes = new Uint8Array(tableSize);
+  const firstBytes = new Uint8Array(tableSize);
+  const lengths = new Uint16Array(tableSize);
+  for (let i = 0; i < 256; ++i) {
+    suffixes[i] = i;
+    firstBytes[i] = i;
+    lengths[i] = 1;
+  }
+  let outputOffset = 0;
+  const writeString = (code: number) => {
+    const end = outputOffset + lengths[code];
+    for (let i = end - 1; i >= outputOffset; --i) {
+      if (i < size) output[i] = suffixes[code];
+      code = prefixes[code];
+    }
+    outputOffset = end;
+  };
+  let nextCode = LZW_END_OF_INFORMATION_CODE + 1;
+  let codeWidth = 9;
+  let previousCode = -1;
+  let buffer = 0;
+  let bufferBits = 0;
+  let inputOffset = 0;
+  while (outputOffset < size) {
+    while (bufferBits < codeWidth && inputOffset < data.length) {
+      buffer = ((buffer << 8) | data[inputOffset++]) & 0xffffff;
+      bufferBits += 8;
+    }
+    if (bufferBits < codeWidth) break;
+    bufferBits -= codeWidth;
+    const code = (buffer >>> bufferBits) & ((1 << codeWidth) - 1);
+    if (code === LZW_END_OF_INFORMATION_CODE) break;
+    if (code === LZW_CLEAR_CODE) {
+      nextCode = LZW_END_OF_INFORMATION_CODE + 1;
+      codeWidth = 9;
+      previousCode = -1;
+      continue;
+    }
+    if (previousCode === -1) {
+      if (code > 255) {
+        throw new Error(`Invalid LZW code: ${code}`);
+      }
+      writeString(code);
+      previousCode = code;
+      continue;
+    }
+    if (code > nextCode) {
+      throw new Error(`Invalid LZW code: ${code}`);
+    }
+    if (nextCode < tableSize) {
+      // If `code === nextCode`, the new string is the previous string followed by its own first
+      // byte.
+      prefixes[nextCode] = previousCode;
+      suffixes[nextCode] = firstBytes[code === nextCode ? previousCode : code];
+      firstBytes[nextCode] = firstBytes[previousCode];
+      lengths[nextCode] = lengths[previousCode] + 1;
+      ++nextCode;
+      if (
+        nextCode >= (1 << codeWidth) - 1 &&
+        codeWidth < LZW_MAX_CODE_WIDTH
+      ) {
+        ++codeWidth;
+      }
+    }
+    writeString(code);
+    previousCode = code;
+  }
+  return output;
+}
+
+/**
+ * Decodes PackBits run-length encoded data.
+ *
+ * Output beyond `size` bytes is discarded, and missing output is left as zero.
+ */
+export function decodePackBits(data: Uint8Array, size: number): Uint8Array {
+  const output = new Uint8Array(size);
+  let inputOffset = 0;
+  let outputOffset = 0;
+  while (inputOffset < data.length && outputOffset < size) {
+    const header = (data[inputOffset++] << 24) >> 24;
+    if (header >= 0) {
+      const literal = data.subarray(inputOffset, inputOffset + header + 1);
+      output.set(literal.subarray(0, size - outputOffset), outputOffset);
+      inputOffset += header + 1;
+      outputOffset += literal.length;
+    } else if (header !== -128) {
+      const end = Math.min(size, outputOffset + 1 - header);
+      output.fill(data[inputOffset++], outputOffset, end);
+      outputOffset = end;
+    }
+  }
+  return output;
+}
+
+/**
+ * Decompresses a strip or tile, returning exactly `size` bytes.
+ */
+export async function decompressSegment(
+  compression: number,
+  data: Uint8Array,
+  size: number,
+  cancellationToken: CancellationToken,
+): Promise<Uint8Array> {
+  let decoded: Uint8Array;
+  switch (compression) {
+    case TiffCompression.NONE:
+      decoded = data;
+      break;
+    case TiffCompression.LZW:
+      return decodeLzw(data, size);
+    case TiffCompression.PACKBITS:
+      return decodePackBits(data, size);
+    case TiffCompression.DEFLATE:
+    case TiffCompression.ADOBE_DEFLATE:
+      decoded = new Uint8Array(
+        await decodeGzip(data, "deflate", cancellationToken),
+      );
+      break;
+    default:
+      throw new Error(`Unsupported TIFF compression: ${compression}`);
+  }
+  if (decoded.length === size) return decoded;
+  // Some writers truncate the final strip.
+  const output = new Uint8Array(size);
+  output.set(decoded.subarray(0, size));
+  return output;
+}
+
+/**
+ * Undoes horizontal differencing (predictor 2) in place.  Each row contains `rowLength` elements,
+ * and each element is differenced with the corresponding sample of the previous pixel.
+ */
+export function undoHorizontalDifferencing(
+  array: TypedArray,
+  rowLength: number,
+  samplesPerPixel: number,
+) {
+  for (let rowStart = 0; rowStart < array.length; rowStart += rowLength) {
+    for (
+      let i = rowStart + samplesPerPixel, end = rowStart + rowLength;
+      i < end;
+      ++i
+    ) {
+      array[i] += array[i - samplesPerPixel];
+    }
+  }
+}
+
+/**
+ * Undoes the floating point predictor (predictor 3), in which each row is split into planes of
+ * bytes, from most to least significant, that are then differenced.  Each row contains
+ * `rowLength` elements of `bytesPerSample` bytes.
+ *
+ * The returned elements are big endian, regardless of the byte order of the file.
+ */
+export function undoFloatingPointPredictor(
+  data: Uint8Array,
+  rowLength: number,
+  samplesPerPixel: number,
+  bytesPerSample: number,
+): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const rowBytes = rowLength * bytesPerSample;
+  for (let rowStart = 0; rowStart < data.length; rowStart += rowBytes) {
+    const row = data.slice(rowStart, rowStart + rowBytes);
+    for (let i = samplesPerPixel; i < rowBytes; ++i) {
+      row[i] += row[i - samplesPerPixel];
+    }
+    for (let i = 0; i < rowLength; ++i) {
+      for (let byte = 0; byte < bytesPerSample; ++byte) {
+        output[rowStart + i * bytesPerSample + byte] =
+          row[byte * rowLength + i];
+      }
+    }
+  }
+  return output;
+}
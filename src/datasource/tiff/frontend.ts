@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
+import { WithParameters } from "#src/chunk_manager/frontend.js";
+import type {
+  DataSource,
+  GetDataSourceOptions,
+} from "#src/datasource/index.js";
+import { DataSourceProvider } from "#src/datasource/index.js";
+import type { TiffVolumeInfo } from "#src/datasource/tiff/base.js";
+import {
+  GET_TIFF_VOLUME_INFO_RPC_ID,
+  VolumeChunkSourceParameters,
+} from "#src/datasource/tiff/base.js";
+import type { SliceViewSingleResolutionSource } from "#src/sliceview/frontend.js";
+import type { VolumeSourceOptions } from "#src/sliceview/volume/base.js";
+import {
+  makeDefaultVolumeChunkSpecifications,
+  VolumeType,
+} from "#src/sliceview/volume/base.js";
+import {
+  MultiscaleVolumeChunkSource as GenericMultiscaleVolumeChunkSource,
+  VolumeChunkSource,
+} from "#src/sliceview/volume/frontend.js";
+import type { CoordinateSpace } from "#src/state/coordinate_transform.js";
+import { makeCoordinateSpace } from "#src/state/coordinate_transform.js";
+import { transposeNestedArrays } from "#src/util/array.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { Borrowed } from "#src/util/disposable.js";
+import * as matrix from "#src/util/matrix.js";
+import { scaleByExp10, unitFromJson } from "#src/util/si_units.js";
+
+class TiffVolumeChunkSource extends WithParameters(
+  VolumeChunkSource,
+  VolumeChunkSourceParameters,
+) {}
+
+function getModelSpace(info: TiffVolumeInfo): CoordinateSpace {
+  const { names } = info;
+  const rank = names.length;
+  const scales = new Float64Array(rank);
+  const units: string[] = [];
+  for (let i = 0; i < rank; ++i) {
+    const { unit, exponent } = unitFromJson(info.units[i]);
+    scales[i] = scaleByExp10(info.voxelSize[i], exponent);
+    units[i] = unit;
+  }
+  return makeCoordinateSpace({
+    names,
+    units,
+    scales,
+    boundingBoxes: [
+      {
+        box: {
+          lowerBounds: new Float64Array(rank),
+          upperBounds: Float64Array.from(info.levelShapes[0]),
+        },
+        transform: matrix.createIdentity(Float64Array, rank, rank + 1),
+      },
+    ],
+  });
+}
+
+export class TiffMultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSource {
+  volumeType = VolumeType.IMAGE;
+
+  get dataType() {
+    return this.info.dataType;
+  }
+
+  get rank() {
+    return this.info.names.length;
+  }
+
+  constructor(
+    chunkManager: Borrowed<ChunkManager>,
+    public url: string,
+    public info: TiffVolumeInfo,
+    public modelSpace: CoordinateSpace,
+  ) {
+    super(chunkManager);
+  }
+
+  getSources(volumeSourceOptions: VolumeSourceOptions) {
+    const { rank } = this;
+    const { levelShapes } = this.info;
+    const baseShape = levelShapes[0];
+    const stride = rank + 1;
+    return transposeNestedArrays(
+      levelShapes.map((shape, level) => {
+        const chunkToMultiscaleTransform = matrix.createIdentity(
+          Float32Array,
+          stride,
+        );
+        // Only the x and y dimensions are downsampled.
+        for (let i = 0; i < 2; ++i) {
+          chunkToMultiscaleTransform[stride * i + i] = baseShape[i] / shape[i];
+        }
+        return makeDefaultVolumeChunkSpecifications({
+          rank,
+          chunkToMultiscaleTransform,
+          dataType: this.dataType,
+          upperVoxelBound: Float32Array.from(shape),
+          volumeType: this.volumeType,
+          volumeSourceOptions,
+        }).map(
+          (spec): SliceViewSingleResolutionSource<VolumeChunkSource> => ({
+            chunkSource: this.chunkManager.getChunkSource(
+              TiffVolumeChunkSource,
+              { spec, parameters: { url: this.url, level } },
+            ),
+            chunkToMultiscaleTransform,
+          }),
+        );
+      }),
+    );
+  }
+}
+
+function getTiffVolumeInfo(
+  chunkManager: ChunkManager,
+  url: string,
+  cancellationToken: CancellationToken,
+): Promise<TiffVolumeInfo> {
+  return chunkManager.rpc!.promiseInvoke<TiffVolumeInfo>(
+    GET_TIFF_VOLUME_INFO_RPC_ID,
+    { chunkManager: chunkManager.rpcId, url },
+    cancellationToken,
+  );
+}
+
+export class TiffDataSource extends DataSourceProvider {
+  get description() {
+    return "TIFF data source";
+  }
+
+  get(options: GetDataSourceOptions): Promise<DataSource> {
+    const url = options.providerUrl;
+    return options.chunkManager.memoize.getUncounted(
+      { type: "tiff:MultiscaleVolumeChunkSource", url },
+      async () => {
+        const info = await getTiffVolumeInfo(
+          options.chunkManager,
+          url,
+          options.cancellationToken,
+        );
+        const modelSpace = getModelSpace(info);
+        const volume = new TiffMultiscaleVolumeChunkSource(
+          options.chunkManager,
+          url,
+          info,
+          modelSpace,
+        );
+        const { rank } = modelSpace;
+        return {
+          modelTransform: {
+            rank,
+            sourceRank: rank,
+            transform: matrix.createIdentity(Float64Array, rank + 1),
+          },
+          subsources: [
+            {
+              id: "default",
+              default: true,
+              url: undefined,
+              subsource: { volume },
+            },
+          ],
+        };
+      },
+    );
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Lazy reader for the image file directories (IFDs) of classic TIFF and BigTIFF files.
+ *
+ * Only the IFD entries themselves are read when an IFD is opened; values that do not fit inline
+ * in an entry, such as strip offsets, are read the first time they are requested.
+ */
+
+import type { ReadableStore } from "#src/util/file_system.js";
+
+export enum TiffTag {
+  IMAGE_WIDTH = 256,
+  IMAGE_LENGTH = 257,
+  BITS_PER_SAMPLE = 258,
+  COMPRESSION = 259,
+  IMAGE_DESCRIPTION = 270,
+  STRIP_OFFSETS = 273,
+  SAMPLES_PER_PIXEL = 277,
+  ROWS_PER_STRIP = 278,
+  STRIP_BYTE_COUNTS = 279,
+  PLANAR_CONFIGURATION = 284,
+  PREDICTOR = 317,
+  TILE_WIDTH = 322,
+  TILE_LENGTH = 323,
+  TILE_OFFSETS = 324,
+  TILE_BYTE_COUNTS = 325,
+  SUB_IFDS = 330,
+  SAMPLE_FORMAT = 339,
+}
+
+// Size in bytes of each field type.
+const FIELD_TYPE_SIZES = new Map<number, number>([
+  [1, 1], // BYTE
+  [2, 1], // ASCII
+  [3, 2], // SHORT
+  [4, 4], // LONG
+  [5, 8], // RATIONAL
+  [6, 1], // SBYTE
+  [7, 1], // UNDEFINED
+  [8, 2], // SSHORT
+  [9, 4], // SLONG
+  [10, 8], // SRATIONAL
+  [11, 4], // FLOAT
+  [12, 8], // DOUBLE
+  [13, 4], // IFD
+  [16, 8], // LONG8
+  [17, 8], // SLONG8
+  [18, 8], // IFD8
+]);
+
+const ASCII_FIELD_TYPE = 2;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Value bytes, if stored inline in the entry.
+  inlineData: Uint8Array | undefined;
+  // Offset of the value bytes within the file, if not stored inline.
+  valueOffset: number;
+}
+
+export class Ifd {
+  private values = new Map<number, Promise<Uint8Array>>();
+
+  constructor(
+    public file: TiffFile,
+    public offset: number,
+    private entries: Map<number, IfdEntry>,
+  ) {}
+
+  has(tag: TiffTag) {
+    return this.entries.has(tag);
+  }
+
+  private getData(entry: IfdEntry, tag: TiffTag) {
+    if (entry.inlineData !== undefined) return Promise.resolve(entry.inlineData);
+    let data = this.values.get(tag);
+    if (data === undefined) {
+      data = this.file.read(
+        entry.valueOffset,
+        entry.count * FIELD_TYPE_SIZES.get(entry.type)!,
+      );
+      this.values.set(tag, data);
+    }
+    return data;
+  }
+
+  /**
+   * Returns the values of a numeric tag, or `undefined` if the tag is not present.
+   */
+  async getNumbers(tag: TiffTag): Promise<number[] | undefined> {
+    const entry = this.entries.get(tag);
+    if (entry === undefined) return undefined;
+    const data = await this.getData(entry, tag);
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const { littleEndian } = this.file;
+    const size = FIELD_TYPE_SIZES.get(entry.type)!;
+    const values: number[] = [];
+    for (let i = 0, offset = 0; i < entry.count; ++i, offset += size) {
+      let value: number;
+      switch (entry.type) {
+        case 1:
+        case 2:
+        case 7:
+          value = dv.getUint8(offset);
+          break;
+        case 3:
+          value = dv.getUint16(offset, littleEndian);
+          break;
+        case 4:
+        case 13:
+          value = dv.getUint32(offset, littleEndian);
+          break;
+        case 5:
+          value =
+            dv.getUint32(offset, littleEndian) /
+            dv.getUint32(offset + 4, littleEndian);
+          break;
+        case 6:
+          value = dv.getInt8(offset);
+          break;
+        case 8:
+          value = dv.getInt16(offset, littleEndian);
+          break;
+        case 9:
+          value = dv.getInt32(offset, littleEndian);
+          break;
+        case 10:
+          value =
+            dv.getInt32(offset, littleEndian) /
+            dv.getInt32(offset + 4, littleEndian);
+          break;
+        case 11:
+          value = dv.getFloat32(offset, littleEndian);
+          break;
+        case 12:
+          value = dv.getFloat64(offset, littleEndian);
+          break;
+        case 16:
+        case 18:
+          value = Number(dv.getBigUint64(offset, littleEndian));
+          break;
+        default:
+          value = Number(dv.getBigInt64(offset, littleEndian));
+          break;
+      }
+      values.push(value);
+    }
+    return values;
+  }
+
+  async getNumber(tag: TiffTag): Promise<number | undefined> {
+    return (await this.getNumbers(tag))?.[0];
+  }
+
+  /**
+   * Returns the value of an ASCII tag, or `undefined` if the tag is not present.
+   */
+  async getString(tag: TiffTag): Promise<string | undefined> {
+    const entry = this.entries.get(tag);
+    if (entry === undefined) return undefined;
+    if (entry.type !== ASCII_FIELD_TYPE) {
+      throw new Error(`Expected TIFF tag ${tag} to have ASCII type`);
+    }
+    const data = await this.getData(entry, tag);
+    const end = data.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? data : data.subarray(0, end));
+  }
+}
+
+export class TiffFile {
+  private ifds = new Map<number, Promise<Ifd>>();
+
+  private constructor(
+    private store: ReadableStore<string>,
+    private key: string,
+    public littleEndian: boolean,
+    public bigTiff: boolean,
+    public firstIfdOffset: number,
+  ) {}
+
+  static async open(store: ReadableStore<string>, key: string) {
+    const response = await store.read(key, {
+      byteRange: { offset: 0, length: 16 },
+    });
+    if (response === undefined) {
+      throw new Error(`Failed to read TIFF file: ${JSON.stringify(key)}`);
+    }
+    const header = response.data;
+    if (header.length < 8) {
+      throw new Error("Invalid TIFF file: too short");
+    }
+    const dv = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const byteOrder = dv.getUint16(0);
+    let littleEndian: boolean;
+    if (byteOrder === 0x4949 /* II */) {
+      littleEndian = true;
+    } else if (byteOrder === 0x4d4d /* MM */) {
+      littleEndian = false;
+    } else {
+      throw new Error("Invalid TIFF file: unknown byte order");
+    }
+    const version = dv.getUint16(2, littleEndian);
+    if (version === 42) {
+      return new TiffFile(
+        store,
+        key,
+        littleEndian,
+        false,
+        dv.getUint32(4, littleEndian),
+      );
+    }
+    if (version === 43 && header.length === 16) {
+      if (dv.getUint16(4, littleEndian) !== 8) {
+        throw new Error("Invalid BigTIFF file: unsupported offset size");
+      }
+      return new TiffFile(
+        store,
+        key,
+        littleEndian,
+        true,
+        Number(dv.getBigUint64(8, littleEndian)),
+      );
+    }
+    throw new Error(`Invalid TIFF file: unsupported version ${version}`);
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const response = await this.store.read(this.key, {
+      byteRange: { offset, length },
+    });
+    if (response === undefined || response.data.length < length) {
+      throw new Error(
+        `Failed to read ${length} bytes at offset ${offset} of TIFF file ` +
+          JSON.stringify(this.key),
+      );
+    }
+    return response.data;
+  }
+
+  private get countSize() {
+    return this.bigTiff ? 8 : 2;
+  }
+
+  private get entrySize() {
+    return this.bigTiff ? 20 : 12;
+  }
+
+  private get offsetSize() {
+    return this.bigTiff ? 8 : 4;
+  }
+
+  private getOffset(dv: DataView, offset: number) {
+    return this.bigTiff
+      ? Number(dv.getBigUint64(offset, this.littleEndian))
+      : dv.getUint32(offset, this.littleEndian);
+  }
+
+  private async readEntryCount(offset: number) {
+    const data = await this.read(offset, this.countSize);
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return this.bigTiff
+      ? Number(dv.getBigUint64(0, this.littleEndian))
+      : dv.getUint16(0, this.littleEndian);
+  }
+
+  /**
+   * Returns the offsets of the IFDs in the main chain, without reading their entries.
+   */
+  async getIfdOffsets(): Promise<number[]> {
+    const offsets: number[] = [];
+    const seen = new Set<number>();
+    let offset = this.firstIfdOffset;
+    while (offset !== 0) {
+      if (seen.has(offset)) {
+        throw new Error("Invalid TIFF file: IFD chain contains a cycle");
+      }
+      seen.add(offset);
+      offsets.push(offset);
+      const count = await this.readEntryCount(offset);
+      const data = await this.read(
+        offset + this.countSize + count * this.entrySize,
+        this.offsetSize,
+      );
+      offset = this.getOffset(
+        new DataView(data.buffer, data.byteOffset, data.byteLength),
+        0,
+      );
+    }
+    return offsets;
+  }
+
+  getIfd(offset: number): Promise<Ifd> {
+    let ifd = this.ifds.get(offset);
+    if (ifd === undefined) {
+      ifd = this.readIfd(offset);
+      this.ifds.set(offset, ifd);
+    }
+    return ifd;
+  }
+
+  private async readIfd(offset: number): Promise<Ifd> {
+    const { entrySize, offsetSize, littleEndian } = this;
+    const count = await this.readEntryCount(offset);
+    const data = await this.read(offset + this.countSize, count * entrySize);
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries = new Map<number, IfdEntry>();
+    for (let i = 0; i < count; ++i) {
+      const entryOffset = i * entrySize;
+      const tag = dv.getUint16(entryOffset, littleEndian);
+      const type = dv.getUint16(entryOffset + 2, littleEndian);
+      const typeSize = FIELD_TYPE_SIZES.get(type);
+      // Entries of unknown type must be ignored.
+      if (typeSize === undefined) continue;
+      const entryCount = this.getOffset(dv, entryOffset + 4);
+      const valuePosition = entryOffset + 4 + offsetSize;
+      if (entryCount * typeSize <= offsetSize) {
+        entries.set(tag, {
+          type,
+          count: entryCount,
+          inlineData: data.subarray(
+            valuePosition,
+            valuePosition + entryCount * typeSize,
+          ),
+          valueOffset: 0,
+        });
+      } else {
+        entries.set(tag, {
+          type,
+          count: entryCount,
+          inlineData: undefined,
+          valueOffset: this.getOffset(dv, valuePosition),
+        });
+      }
+    }
+    return new Ifd(this, offset, entries);
+  }
+}
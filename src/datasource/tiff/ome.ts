@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Minimal parsing of the OME-XML metadata stored in the ImageDescription of OME-TIFF files.
+ *
+ * Only the `Pixels` element of the first `Image` is used, and the pages are assumed to be stored
+ * in order starting from the first IFD.  Regular expressions are used since `DOMParser` is not
+ * available in workers.
+ */
+
+export interface OmePixels {
+  // Order of the z, c and t dimensions, from fastest to slowest varying page index.
+  dimensionOrder: string;
+  sizeX: number;
+  sizeY: number;
+  sizeZ: number;
+  sizeC: number;
+  sizeT: number;
+  // Physical size along x, y and z, if specified.
+  physicalSize: (number | undefined)[];
+  physicalSizeUnits: string[];
+  timeIncrement: number | undefined;
+  timeIncrementUnit: string;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  apos: "'",
+  gt: ">",
+  lt: "<",
+  quot: '"',
+};
+
+function decodeXmlEntities(value: string) {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (match, name) => {
+    if (name.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(name.substring(2), 16));
+    }
+    if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.substring(1), 10));
+    }
+    return XML_ENTITIES[name] ?? match;
+  });
+}
+
+function parseAttributes(text: string) {
+  const attributes = new Map<string, string>();
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes.set(match[1], decodeXmlEntities(match[2] ?? match[3]));
+  }
+  return attributes;
+}
+
+// OME-XML writes micrometers as "µm", but some writers use "um".
+function normalizeUnit(unit: string) {
+  return unit === "um" ? "µm" : unit;
+}
+
+/**
+ * Returns the `Pixels` metadata, or `undefined` if `description` is not OME-XML.
+ */
+export function parseOmeXml(description: string): OmePixels | undefined {
+  if (!/<(?:\w+:)?OME[\s>]/.test(description)) return undefined;
+  const match = description.match(/<(?:\w+:)?Pixels\s([^>]*)>/);
+  if (match === null) {
+    throw new Error("OME-XML metadata does not contain a Pixels element");
+  }
+  const attributes = parseAttributes(match[1]);
+  const getSize = (name: string) => {
+    const value = Number(attributes.get(name) ?? "1");
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(
+        `Invalid OME-XML ${name}: ${JSON.stringify(attributes.get(name))}`,
+      );
+    }
+    return value;
+  };
+  const getFloat = (name: string) => {
+    const value = attributes.get(name);
+    if (value === undefined) return undefined;
+    const x = Number(value);
+    if (!Number.isFinite(x) || x <= 0) {
+      throw new Error(`Invalid OME-XML ${name}: ${JSON.stringify(value)}`);
+    }
+    return x;
+  };
+  const dimensionOrder = attributes.get("DimensionOrder") ?? "XYZCT";
+  if (!/^XY(ZCT|ZTC|CZT|CTZ|TZC|TCZ)$/.test(dimensionOrder)) {
+    throw new Error(
+      `Invalid OME-XML DimensionOrder: ${JSON.stringify(dimensionOrder)}`,
+    );
+  }
+  return {
+    dimensionOrder,
+    sizeX: getSize("SizeX"),
+    sizeY: getSize("SizeY"),
+    sizeZ: getSize("SizeZ"),
+    sizeC: getSize("SizeC"),
+    sizeT: getSize("SizeT"),
+    physicalSize: ["X", "Y", "Z"].map((dim) => getFloat(`PhysicalSize${dim}`)),
+    physicalSizeUnits: ["X", "Y", "Z"].map((dim) =>
+      normalizeUnit(attributes.get(`PhysicalSize${dim}Unit`) ?? "µm"),
+    ),
+    timeIncrement: getFloat("TimeIncrement"),
+    timeIncrementUnit: attributes.get("TimeIncrementUnit") ?? "s",
+  };
+}
@@ -19,6 +19,7 @@ import "#src/datasource/zarr/codec/bytes/decode.js";
 
 import { WithParameters } from "#src/chunk_manager/backend.js";
 import { VolumeChunkSourceParameters } from "#src/datasource/zarr/base.js";
+import { applySharding } from "#src/datasource/zarr/codec/sharding_indexed/decode.js";
 import { decodeArray } from "#src/datasource/zarr/codec/simple_decode.js";
 import { ChunkKeyEncoding } from "#src/datasource/zarr/metadata/index.js";
 import { FileReader } from "#src/util/file_system.js";
@@ -26,6 +27,7 @@ import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postpr
 import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
 import { VolumeChunkSource } from "#src/sliceview/volume/backend.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
+import { CancellationError } from "#src/util/cancellation.js";
 import { registerSharedObject } from "#src/worker/worker_rpc.js";
 
 @registerSharedObject()
@@ -34,6 +36,13 @@ export class ZarrVolumeChunkSource extends WithParameters(
   VolumeChunkSourceParameters,
 ) {
   private fileReader = new FileReader(this.parameters.url + "/");
+  private chunkReader = applySharding(
+    this.chunkManager,
+    this,
+    this.parameters.metadata.codecs,
+    this.fileReader,
+    this.parameters.url,
+  );
 
   async download(chunk: VolumeChunk, cancellationToken: CancellationToken) {
     chunk.chunkDataSize = this.spec.chunkDataSize;
@@ -54,6 +63,8 @@ export class ZarrVolumeChunkSource extends WithParameters(
       }
     }
     const keyCoords = new Array<number>(rank);
+    // Offset of the chunk within the array, used to locate it within its shard (if sharded).
+    const chunkOffset = new Array<number>(rank);
     const { readChunkShape } = metadata.codecs.layoutInfo[0];
     const { chunkShape } = metadata;
     for (
@@ -63,24 +74,26 @@ export class ZarrVolumeChunkSource extends WithParameters(
     ) {
       const decodedDim =
         physicalToLogicalDimension[rank - 1 - fOrderPhysicalDim];
-      keyCoords[decodedDim] = Math.floor(
-        (chunkGridPosition[fOrderPhysicalDim] * readChunkShape[decodedDim]) /
-          chunkShape[decodedDim],
-      );
+      const offset = (chunkOffset[decodedDim] =
+        chunkGridPosition[fOrderPhysicalDim] * readChunkShape[decodedDim]);
+      keyCoords[decodedDim] = Math.floor(offset / chunkShape[decodedDim]);
     }
     for (let i = 0; i < rank; ++i) {
       baseKey += `${sep}${keyCoords[i]}`;
       sep = metadata.dimensionSeparator;
     }
     try {
-      let response = await this.fileReader.read(baseKey);
+      const { reader, getKey, codecs } = this.chunkReader;
+      let response = await reader.read(getKey(baseKey, chunkOffset), {
+        cancellationToken,
+      });
       // temporary fix for missing chunks (simulated)
       if (baseKey === '52/24/20' && !self.updateChunkAvailable) {
         response = undefined;
       }
       if (response !== undefined) {
         const decoded = await decodeArray(
-          metadata.codecs,
+          codecs,
           response.data,
           cancellationToken,
         );
@@ -104,6 +117,8 @@ export class ZarrVolumeChunkSource extends WithParameters(
         await postProcessRawData(chunk, cancellationToken, data);
       }
     } catch (e) {
+      // A canceled download must not produce any data.
+      if (e instanceof CancellationError) throw e;
       // If there's an error, we'll use the fillValue
       console.error(`Error reading block ${baseKey}:`, e);
       const fillValue = typeof metadata.fillValue === 'number' ? metadata.fillValue : 0;
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  CodecArrayInfo,
+  CodecArrayLayoutInfo,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
+import { DataType } from "#src/util/data_type.js";
+import {
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+} from "#src/util/json.js";
+
+// Corresponds to the numcodecs `bitround` filter, which zeroes the low-order mantissa bits.  The
+// rounded values are stored as-is, so decoding is a no-op.
+export interface Configuration {
+  keepbits: number;
+}
+
+registerCodec({
+  name: "bitround",
+  kind: CodecKind.arrayToArray,
+  resolve(
+    configuration: unknown,
+    decodedArrayInfo: CodecArrayInfo,
+  ): { configuration: Configuration; encodedArrayInfo: CodecArrayInfo } {
+    verifyObject(configuration);
+    if (decodedArrayInfo.dataType !== DataType.FLOAT32) {
+      throw new Error(`"bitround" codec requires float32 data`);
+    }
+    const keepbits = verifyObjectProperty(configuration, "keepbits", verifyInt);
+    return { configuration: { keepbits }, encodedArrayInfo: decodedArrayInfo };
+  },
+  getDecodedArrayLayoutInfo(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    encodedLayout: CodecArrayLayoutInfo,
+  ): CodecArrayLayoutInfo {
+    configuration;
+    decodedArrayInfo;
+    return encodedLayout;
+  },
+});
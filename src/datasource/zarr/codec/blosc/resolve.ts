@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2023 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
+import {
+  verifyEnumString,
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+  verifyString,
+} from "#src/util/json.js";
+
+export enum BloscShuffle {
+  NOSHUFFLE = 0,
+  SHUFFLE = 1,
+  BITSHUFFLE = 2,
+}
+
+export interface Configuration {
+  cname: string;
+  clevel: number;
+  shuffle: BloscShuffle;
+  typesize: number;
+  blocksize: number;
+}
+
+registerCodec({
+  name: "blosc",
+  kind: CodecKind.bytesToBytes,
+  resolve(configuration: unknown): { configuration: Configuration } {
+    verifyObject(configuration);
+    const cname = verifyObjectProperty(configuration, "cname", verifyString);
+    const clevel = verifyObjectProperty(configuration, "clevel", verifyInt);
+    const shuffle = verifyObjectProperty(configuration, "shuffle", (value) =>
+      verifyEnumString(value, BloscShuffle),
+    );
+    const typesize = verifyOptionalObjectProperty(
+      configuration,
+      "typesize",
+      verifyInt,
+      0,
+    );
+    const blocksize = verifyOptionalObjectProperty(
+      configuration,
+      "blocksize",
+      verifyInt,
+      0,
+    );
+    return { configuration: { cname, clevel, shuffle, typesize, blocksize } };
+  },
+});
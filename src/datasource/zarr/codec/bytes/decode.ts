@@ -14,32 +14,19 @@
  * limitations under the License.
  */
 
-import { registerCodec } from "#src/datasource/zarr/codec/simple_decode.js";
+import type { Configuration } from "#src/datasource/zarr/codec/bytes/resolve.js";
+import type { CodecArrayInfo } from "#src/datasource/zarr/codec/index.js";
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/simple_decode.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
-import type { CodecArrayInfo } from "#src/datasource/zarr/codec/index.js";
 import { DATA_TYPE_BYTES, makeDataTypeArrayView } from "#src/util/data_type.js";
-import { convertEndian, type Endianness } from "#src/util/endian.js";
-import { Blosc } from 'numcodecs';
-
-interface BloscCompressorConfig {
-  id: string;
-  clevel?: number;
-  cname?: string;
-  shuffle?: number;
-  blocksize?: number;
-}
-
-interface DecodeConfiguration {
-  endian: Endianness;
-  compressor: BloscCompressorConfig | null;
-}
+import { convertEndian } from "#src/util/endian.js";
 
 registerCodec({
   name: "bytes",
   kind: CodecKind.arrayToBytes,
   async decode(
-    configuration: DecodeConfiguration,
+    configuration: Configuration,
     decodedArrayInfo: CodecArrayInfo,
     encoded: Uint8Array,
     cancellationToken: CancellationToken,
@@ -49,41 +36,16 @@ registerCodec({
     const numElements = chunkShape.reduce((a, b) => a * b, 1);
     const bytesPerElement = DATA_TYPE_BYTES[dataType];
     const expectedBytes = numElements * bytesPerElement;
-
     if (encoded.byteLength !== expectedBytes) {
-      // Try to decode as blosc/zstd compressed data
-      try {
-        const defaultConfig: BloscCompressorConfig = {
-          id: 'blosc',
-          clevel: 5,
-          cname: 'zstd',
-          shuffle: 1,
-          blocksize: 0
-        };
-
-        const codec = Blosc.fromConfig(
-          configuration.compressor || defaultConfig
-        );
-        
-        const decoded = await codec.decode(encoded);
-        const data = makeDataTypeArrayView(
-          dataType,
-          decoded.buffer,
-          decoded.byteOffset,
-          decoded.byteLength,
-        );
-        convertEndian(data, configuration.endian, bytesPerElement);
-        return data;
-      } catch (error) {
-        console.error('Failed to decode as blosc/zstd:', error);
-        throw new Error(
-          `Raw-format chunk is ${encoded.byteLength} bytes, ` +
-            `but ${numElements} * ${bytesPerElement} = ${expectedBytes} bytes are expected, ` +
-            `and blosc/zstd decompression failed.`,
-        );
-      }
+      throw new Error(
+        `Raw-format chunk is ${encoded.byteLength} bytes, ` +
+          `but ${numElements} * ${bytesPerElement} = ${expectedBytes} bytes are expected.`,
+      );
+    }
+    if (encoded.byteOffset % bytesPerElement !== 0) {
+      // Typed array views require aligned offsets.
+      encoded = encoded.slice();
     }
-
     const data = makeDataTypeArrayView(
       dataType,
       encoded.buffer,
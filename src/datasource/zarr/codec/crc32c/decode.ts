@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2023 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Configuration } from "#src/datasource/zarr/codec/crc32c/resolve.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/simple_decode.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+const checksumSize = 4;
+
+// Table for the reflected CRC-32C (Castagnoli) polynomial.
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; ++i) {
+    let c = i;
+    for (let j = 0; j < 8; ++j) {
+      c = c & 1 ? (c >>> 1) ^ 0x82f63b78 : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+function computeCrc32c(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0, n = data.length; i < n; ++i) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+registerCodec({
+  name: "crc32c",
+  kind: CodecKind.bytesToBytes,
+  async decode(
+    configuration: Configuration,
+    encoded: Uint8Array,
+    cancellationToken: CancellationToken,
+  ): Promise<Uint8Array> {
+    configuration;
+    cancellationToken;
+    if (encoded.length < checksumSize) {
+      throw new Error(
+        `Expected buffer of size at least ${checksumSize} bytes but received: ${encoded.length} bytes`,
+      );
+    }
+    const dataSize = encoded.length - checksumSize;
+    const data = encoded.subarray(0, dataSize);
+    // The checksum is stored as a little-endian uint32 following the data.
+    const expected = new DataView(
+      encoded.buffer,
+      encoded.byteOffset + dataSize,
+      checksumSize,
+    ).getUint32(0, true);
+    const actual = computeCrc32c(data);
+    if (actual !== expected) {
+      throw new Error(
+        `crc32c checksum mismatch: expected ${expected.toString(16)}, but computed ${actual.toString(16)}`,
+      );
+    }
+    return data;
+  },
+});
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Helpers shared by the element-wise array -> array codecs that correspond to the numcodecs
+ * filters used by zarr v2 arrays.
+ */
+
+import type { TypedArray } from "#src/util/array.js";
+import { DATA_TYPE_ARRAY_CONSTRUCTOR, DataType } from "#src/util/data_type.js";
+import { verifyEnumString } from "#src/util/json.js";
+
+export function verifyFilterDataType(name: string, dataType: DataType) {
+  // uint64 values are stored as pairs of 32-bit words and cannot be converted element-wise.
+  if (dataType === DataType.UINT64) {
+    throw new Error(`${JSON.stringify(name)} codec does not support uint64`);
+  }
+  return dataType;
+}
+
+export function parseFilterDataType(name: string, value: unknown) {
+  return verifyFilterDataType(name, verifyEnumString(value, DataType));
+}
+
+// Returns a new array of the specified data type with each element converted by `convert`, using
+// the same conversion semantics as typed array assignment.
+export function mapFilterArray(
+  encoded: ArrayBufferView,
+  dataType: DataType,
+  convert?: (value: number) => number,
+): ArrayBufferView {
+  const input = encoded as TypedArray;
+  const output = new DATA_TYPE_ARRAY_CONSTRUCTOR[dataType](input.length);
+  if (convert === undefined) {
+    output.set(input);
+  } else {
+    for (let i = 0, n = input.length; i < n; ++i) {
+      output[i] = convert(input[i]);
+    }
+  }
+  return output;
+}
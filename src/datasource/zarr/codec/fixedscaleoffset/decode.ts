@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Configuration } from "#src/datasource/zarr/codec/fixedscaleoffset/resolve.js";
+import { mapFilterArray } from "#src/datasource/zarr/codec/filter.js";
+import type { CodecArrayInfo } from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/simple_decode.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+
+registerCodec({
+  name: "fixedscaleoffset",
+  kind: CodecKind.arrayToArray,
+  async decode(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    encoded: ArrayBufferView,
+    cancellationToken: CancellationToken,
+  ): Promise<ArrayBufferView> {
+    cancellationToken;
+    const { scale, offset } = configuration;
+    return mapFilterArray(
+      encoded,
+      decodedArrayInfo.dataType,
+      (value) => value / scale + offset,
+    );
+  },
+});
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  CodecArrayInfo,
+  CodecArrayLayoutInfo,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import {
+  parseFilterDataType,
+  verifyFilterDataType,
+} from "#src/datasource/zarr/codec/filter.js";
+import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
+import type { DataType } from "#src/util/data_type.js";
+import {
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+} from "#src/util/json.js";
+
+// Corresponds to the numcodecs `quantize` filter.  Quantization is lossy, and decoding only
+// converts back to the decoded data type.
+export interface Configuration {
+  digits: number;
+  astype: DataType;
+}
+
+registerCodec({
+  name: "quantize",
+  kind: CodecKind.arrayToArray,
+  resolve(
+    configuration: unknown,
+    decodedArrayInfo: CodecArrayInfo,
+  ): { configuration: Configuration; encodedArrayInfo: CodecArrayInfo } {
+    verifyObject(configuration);
+    verifyFilterDataType("quantize", decodedArrayInfo.dataType);
+    const astype = verifyObjectProperty(configuration, "astype", (value) =>
+      parseFilterDataType("quantize", value),
+    );
+    const digits = verifyObjectProperty(configuration, "digits", verifyInt);
+    return {
+      configuration: { digits, astype },
+      encodedArrayInfo: {
+        dataType: astype,
+        chunkShape: decodedArrayInfo.chunkShape,
+      },
+    };
+  },
+  getDecodedArrayLayoutInfo(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    encodedLayout: CodecArrayLayoutInfo,
+  ): CodecArrayLayoutInfo {
+    configuration;
+    decodedArrayInfo;
+    return encodedLayout;
+  },
+});
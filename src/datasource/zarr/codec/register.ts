@@ -15,4 +15,17 @@
  */
 
 // Register all codecs
-import "./bytes/decode.ts"; 
\ No newline at end of file
+import "./bytes/decode.ts";
+import "#src/datasource/zarr/codec/astype/decode.js";
+import "#src/datasource/zarr/codec/bitround/decode.js";
+import "#src/datasource/zarr/codec/blosc/decode.js";
+import "#src/datasource/zarr/codec/bz2/decode.js";
+import "#src/datasource/zarr/codec/crc32c/decode.js";
+import "#src/datasource/zarr/codec/delta/decode.js";
+import "#src/datasource/zarr/codec/fixedscaleoffset/decode.js";
+import "#src/datasource/zarr/codec/gzip/decode.js";
+import "#src/datasource/zarr/codec/lz4/decode.js";
+import "#src/datasource/zarr/codec/quantize/decode.js";
+import "#src/datasource/zarr/codec/transpose/decode.js";
+import "#src/datasource/zarr/codec/zlib/decode.js";
+import "#src/datasource/zarr/codec/zstd/decode.js";
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * Copyright 2023 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChunkManager } from "#src/chunk_manager/backend.js";
+import type { SimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import { makeSimpleAsyncCache } from "#src/chunk_manager/generic_file_source.js";
+import type {
+  CodecChainSpec,
+  ShardingInfo,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import type { Configuration } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import { ShardIndexLocation } from "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import { decodeArray } from "#src/datasource/zarr/codec/simple_decode.js";
+import type { Configuration as TransposeConfiguration } from "#src/datasource/zarr/codec/transpose/resolve.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { uncancelableToken } from "#src/util/cancellation.js";
+import type { RefCounted } from "#src/util/disposable.js";
+import type {
+  ByteRange,
+  ByteRangeRequest,
+  FileReadOptions,
+  FileReadResponse,
+  ReadableStore,
+} from "#src/util/file_system.js";
+
+export interface ShardedKey<BaseKey> {
+  shard: BaseKey;
+  // Position of the sub-chunk within the sub-chunk grid of the shard.
+  subChunk: number[];
+}
+
+/**
+ * Decoded shard index: `(offset, length)` pairs of uint64 values, stored as pairs of uint32
+ * words, in the physical order given by the index codecs.
+ */
+type ShardIndex = Uint32Array;
+
+const MISSING_SUB_CHUNK = 0xffffffff;
+
+function getStrides(codecs: CodecChainSpec) {
+  const { physicalToLogicalDimension } = codecs.layoutInfo[0];
+  const { chunkShape } = codecs.arrayInfo[0];
+  const strides = new Array<number>(chunkShape.length);
+  let stride = 1;
+  for (let i = physicalToLogicalDimension.length; i--; ) {
+    const dim = physicalToLogicalDimension[i];
+    strides[dim] = stride;
+    stride *= chunkShape[dim];
+  }
+  return strides;
+}
+
+/**
+ * Returns the range of `inner` (relative to the start of `outer`) in the coordinates of the
+ * file containing `outer`.  Needed for nested sharding, where a shard is itself a sub-chunk.
+ */
+function composeByteRanges(
+  outer: ByteRange,
+  inner: ByteRangeRequest | undefined,
+): ByteRange {
+  if (inner === undefined) return outer;
+  if ("suffixLength" in inner) {
+    const length = Math.min(inner.suffixLength, outer.length);
+    return { offset: outer.offset + outer.length - length, length };
+  }
+  return { offset: outer.offset + inner.offset, length: inner.length };
+}
+
+/**
+ * Reads individual sub-chunks of shards stored in `base`.  The shard index is read first, with a
+ * single byte-range request, and cached; each sub-chunk is then fetched with its own byte-range
+ * request.
+ */
+export class ShardedReader<BaseKey> implements ReadableStore<ShardedKey<BaseKey>> {
+  private indexCache: SimpleAsyncCache<BaseKey, ShardIndex | undefined>;
+  private indexStrides: number[];
+
+  constructor(
+    chunkManager: ChunkManager,
+    owner: RefCounted,
+    private configuration: Configuration,
+    private base: ReadableStore<BaseKey>,
+    memoizeKey: string,
+  ) {
+    this.indexStrides = getStrides(configuration.indexCodecs);
+    this.indexCache = owner.registerDisposer(
+      makeSimpleAsyncCache(chunkManager, `zarr/shardIndex:${memoizeKey}`, {
+        get: async (shard: BaseKey, cancellationToken: CancellationToken) => {
+          const index = await this.readIndex(shard, cancellationToken);
+          return { data: index, size: index?.byteLength ?? 0 };
+        },
+      }),
+    );
+  }
+
+  private async readIndex(
+    shard: BaseKey,
+    cancellationToken: CancellationToken,
+  ): Promise<ShardIndex | undefined> {
+    const { indexCodecs, indexLocation } = this.configuration;
+    const indexSize = indexCodecs.encodedSize[indexCodecs.encodedSize.length - 1]!;
+    const response = await this.base.read(shard, {
+      byteRange:
+        indexLocation === ShardIndexLocation.START
+          ? { offset: 0, length: indexSize }
+          : { suffixLength: indexSize },
+      cancellationToken,
+    });
+    if (response === undefined) return undefined;
+    if (response.data.byteLength !== indexSize) {
+      throw new Error(
+        `Expected shard index of ${indexSize} bytes, but received: ` +
+          `${response.data.byteLength} bytes`,
+      );
+    }
+    return (await decodeArray(
+      indexCodecs,
+      response.data,
+      cancellationToken,
+    )) as Uint32Array;
+  }
+
+  async read(
+    key: ShardedKey<BaseKey>,
+    options: FileReadOptions = {},
+  ): Promise<FileReadResponse | undefined> {
+    const { cancellationToken = uncancelableToken } = options;
+    const index = await this.indexCache.get(key.shard, cancellationToken);
+    if (index === undefined) return undefined;
+    const { indexStrides } = this;
+    let entry = 0;
+    key.subChunk.forEach((x, i) => {
+      entry += x * indexStrides[i];
+    });
+    // The last index dimension selects between offset and length.
+    const offsetWord = entry * 2;
+    const lengthWord = (entry + indexStrides[indexStrides.length - 1]) * 2;
+    const offsetLow = index[offsetWord];
+    const offsetHigh = index[offsetWord + 1];
+    const lengthLow = index[lengthWord];
+    const lengthHigh = index[lengthWord + 1];
+    if (
+      offsetLow === MISSING_SUB_CHUNK &&
+      offsetHigh === MISSING_SUB_CHUNK &&
+      lengthLow === MISSING_SUB_CHUNK &&
+      lengthHigh === MISSING_SUB_CHUNK
+    ) {
+      return undefined;
+    }
+    const subChunkRange = {
+      offset: offsetHigh * 2 ** 32 + offsetLow,
+      length: lengthHigh * 2 ** 32 + lengthLow,
+    };
+    return this.base.read(key.shard, {
+      ...options,
+      byteRange: composeByteRanges(subChunkRange, options.byteRange),
+    });
+  }
+}
+
+export interface ChunkReader {
+  reader: ReadableStore<unknown>;
+
+  /**
+   * Returns the key of the innermost chunk that starts at `chunkOffset` (in voxels, indexed by
+   * logical dimension) within the outermost chunk stored under `baseKey`.
+   */
+  getKey(baseKey: string, chunkOffset: number[]): unknown;
+
+  // Codecs for decoding the data returned by `reader`.
+  codecs: CodecChainSpec;
+}
+
+/**
+ * Wraps `base` in one `ShardedReader` per level of (possibly nested) sharding in `codecs`.
+ */
+export function applySharding(
+  chunkManager: ChunkManager,
+  owner: RefCounted,
+  codecs: CodecChainSpec,
+  base: ReadableStore<string>,
+  memoizeKey: string,
+): ChunkReader {
+  let reader: ReadableStore<any> = base;
+  const levels: {
+    chunkShape: number[];
+    shardingInfo: ShardingInfo;
+    // Maps each dimension of the shard to the corresponding dimension of `codecs`.
+    dimensions: number[];
+  }[] = [];
+  let curCodecs = codecs;
+  let dimensions = Array.from(codecs.arrayInfo[0].chunkShape, (_, i) => i);
+  while (true) {
+    const { shardingInfo } = curCodecs;
+    if (shardingInfo === undefined) break;
+    // Only transpose codecs may precede sharding, since the sub-chunk data is decoded using just
+    // the innermost codecs.  Transpose decoding is accounted for by the chunk layout.
+    for (const codec of curCodecs[CodecKind.arrayToArray]) {
+      if (codec.name !== "transpose") {
+        throw new Error(
+          `array -> array codec ${JSON.stringify(codec.name)} preceding ` +
+            "sharding_indexed is not supported",
+        );
+      }
+      const { encodedToDecoded } =
+        codec.configuration as TransposeConfiguration;
+      dimensions = encodedToDecoded.map((dim) => dimensions[dim]);
+    }
+    reader = new ShardedReader(
+      chunkManager,
+      owner,
+      curCodecs[CodecKind.arrayToBytes].configuration as Configuration,
+      reader,
+      `${memoizeKey}:${levels.length}`,
+    );
+    const { arrayInfo } = curCodecs;
+    levels.push({
+      chunkShape: arrayInfo[arrayInfo.length - 1].chunkShape,
+      shardingInfo,
+      dimensions,
+    });
+    curCodecs = shardingInfo.subChunkCodecs;
+  }
+  return {
+    reader,
+    getKey(baseKey: string, chunkOffset: number[]) {
+      let key: unknown = baseKey;
+      for (const { chunkShape, shardingInfo, dimensions } of levels) {
+        const { subChunkShape } = shardingInfo;
+        key = {
+          shard: key,
+          subChunk: Array.from(dimensions, (dim, i) =>
+            Math.floor((chunkOffset[dim] % chunkShape[i]) / subChunkShape[i]),
+          ),
+        };
+      }
+      return key;
+    },
+    codecs: curCodecs,
+  };
+}
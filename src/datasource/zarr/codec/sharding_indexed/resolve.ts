@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2023 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  CodecArrayInfo,
+  CodecArrayLayoutInfo,
+  CodecChainSpec,
+  ShardingInfo,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import {
+  parseCodecChainSpec,
+  registerCodec,
+} from "#src/datasource/zarr/codec/resolve.js";
+import { parseChunkShape } from "#src/datasource/zarr/metadata/parse.js";
+import { DataType } from "#src/util/data_type.js";
+import {
+  verifyEnumString,
+  verifyObject,
+  verifyObjectProperty,
+  verifyOptionalObjectProperty,
+} from "#src/util/json.js";
+
+export enum ShardIndexLocation {
+  START = 0,
+  END = 1,
+}
+
+export interface Configuration {
+  indexCodecs: CodecChainSpec;
+  subChunkCodecs: CodecChainSpec;
+  indexLocation: ShardIndexLocation;
+}
+
+registerCodec({
+  name: "sharding_indexed",
+  kind: CodecKind.arrayToBytes,
+  resolve(
+    configuration: unknown,
+    decodedArrayInfo: CodecArrayInfo,
+  ): { configuration: Configuration; shardingInfo: ShardingInfo } {
+    verifyObject(configuration);
+    const { chunkShape, dataType } = decodedArrayInfo;
+    const subChunkShape = verifyObjectProperty(
+      configuration,
+      "chunk_shape",
+      (value) => parseChunkShape(value, chunkShape.length),
+    );
+    const subChunkGridShape = Array.from(chunkShape, (outerSize, i) => {
+      const innerSize = subChunkShape[i];
+      if (outerSize % innerSize !== 0) {
+        throw new Error(
+          `Sub-chunk shape ${JSON.stringify(subChunkShape)} does not evenly ` +
+            `divide outer chunk shape ${JSON.stringify(chunkShape)}`,
+        );
+      }
+      return outerSize / innerSize;
+    });
+    const subChunkCodecs = verifyObjectProperty(
+      configuration,
+      "codecs",
+      (value) =>
+        parseCodecChainSpec(value, { dataType, chunkShape: subChunkShape }),
+    );
+    const indexCodecs = verifyObjectProperty(
+      configuration,
+      "index_codecs",
+      (value) => {
+        const spec = parseCodecChainSpec(value, {
+          dataType: DataType.UINT64,
+          chunkShape: [...subChunkGridShape, 2],
+        });
+        if (spec.encodedSize[spec.encodedSize.length - 1] === undefined) {
+          throw new Error("index_codecs must specify a fixed-size encoding");
+        }
+        return spec;
+      },
+    );
+    const indexLocation = verifyOptionalObjectProperty(
+      configuration,
+      "index_location",
+      (value) => verifyEnumString(value, ShardIndexLocation),
+      ShardIndexLocation.END,
+    );
+    return {
+      configuration: { indexCodecs, subChunkCodecs, indexLocation },
+      shardingInfo: { subChunkShape, subChunkGridShape, subChunkCodecs },
+    };
+  },
+  getDecodedArrayLayoutInfo(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+  ): CodecArrayLayoutInfo {
+    decodedArrayInfo;
+    // Sub-chunks are read individually, so they determine the layout seen by the chunk source.
+    return configuration.subChunkCodecs.layoutInfo[0];
+  },
+});
@@ -17,6 +17,7 @@
 import type { CodecArrayInfo, CodecChainSpec } from "#src/datasource/zarr/codec/index.js";
 import { CodecKind } from "#src/datasource/zarr/codec/index.js";
 import type { CancellationToken } from "#src/util/cancellation.js";
+import { throwIfCanceled } from "#src/util/cancellation.js";
 
 export interface Codec {
   name: string;
@@ -80,6 +81,7 @@ export async function decodeArray(
     if (impl === undefined) {
       throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
     }
+    throwIfCanceled(cancellationToken);
     encoded = await impl.decode(
       codec.configuration,
       encoded,
@@ -95,6 +97,7 @@ export async function decodeArray(
     if (impl === undefined) {
       throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
     }
+    throwIfCanceled(cancellationToken);
     decoded = await impl.decode(
       codec.configuration,
       codecs.arrayInfo[codecs.arrayInfo.length - 1],
@@ -111,6 +114,7 @@ export async function decodeArray(
     if (impl === undefined) {
       throw new Error(`Unsupported codec: ${JSON.stringify(codec.name)}`);
     }
+    throwIfCanceled(cancellationToken);
     decoded = await impl.decode(
       codec.configuration,
       codecs.arrayInfo[i],
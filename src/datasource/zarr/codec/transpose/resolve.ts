@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2023 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  CodecArrayInfo,
+  CodecArrayLayoutInfo,
+} from "#src/datasource/zarr/codec/index.js";
+import { CodecKind } from "#src/datasource/zarr/codec/index.js";
+import { registerCodec } from "#src/datasource/zarr/codec/resolve.js";
+import {
+  parseFixedLengthArray,
+  verifyInt,
+  verifyObject,
+  verifyObjectProperty,
+} from "#src/util/json.js";
+
+export interface Configuration {
+  // `encodedToDecoded[i]` is the decoded dimension corresponding to encoded dimension `i`.
+  encodedToDecoded: number[];
+  // Inverse of `encodedToDecoded`.
+  decodedToEncoded: number[];
+}
+
+registerCodec({
+  name: "transpose",
+  kind: CodecKind.arrayToArray,
+  resolve(
+    configuration: unknown,
+    decodedArrayInfo: CodecArrayInfo,
+  ): { configuration: Configuration; encodedArrayInfo: CodecArrayInfo } {
+    verifyObject(configuration);
+    const { chunkShape } = decodedArrayInfo;
+    const rank = chunkShape.length;
+    const decodedToEncoded = new Array<number>(rank).fill(-1);
+    const encodedToDecoded = verifyObjectProperty(
+      configuration,
+      "order",
+      (value) =>
+        parseFixedLengthArray(new Array<number>(rank), value, (x, i) => {
+          const dim = verifyInt(x);
+          if (dim < 0 || dim >= rank || decodedToEncoded[dim] !== -1) {
+            throw new Error(
+              `Expected permutation of [0, ${rank}), but received: ${JSON.stringify(value)}`,
+            );
+          }
+          decodedToEncoded[dim] = i;
+          return dim;
+        }),
+    );
+    return {
+      configuration: { encodedToDecoded, decodedToEncoded },
+      encodedArrayInfo: {
+        dataType: decodedArrayInfo.dataType,
+        chunkShape: encodedToDecoded.map((dim) => chunkShape[dim]),
+      },
+    };
+  },
+  getDecodedArrayLayoutInfo(
+    configuration: Configuration,
+    decodedArrayInfo: CodecArrayInfo,
+    encodedLayout: CodecArrayLayoutInfo,
+  ): CodecArrayLayoutInfo {
+    decodedArrayInfo;
+    const { encodedToDecoded, decodedToEncoded } = configuration;
+    return {
+      physicalToLogicalDimension: encodedLayout.physicalToLogicalDimension.map(
+        (dim) => encodedToDecoded[dim],
+      ),
+      readChunkShape: decodedToEncoded.map(
+        (dim) => encodedLayout.readChunkShape[dim],
+      ),
+    };
+  },
+});
@@ -26,16 +26,34 @@ import type {
 } from "#src/datasource/index.js";
 import { DataSourceProvider } from "#src/datasource/index.js";
 import { VolumeChunkSourceParameters } from "#src/datasource/zarr/base.js";
+import "#src/datasource/zarr/codec/astype/resolve.js";
+import "#src/datasource/zarr/codec/bitround/resolve.js";
+import "#src/datasource/zarr/codec/blosc/resolve.js";
 import "#src/datasource/zarr/codec/bytes/resolve.js";
+import "#src/datasource/zarr/codec/bz2/resolve.js";
+import "#src/datasource/zarr/codec/crc32c/resolve.js";
+import "#src/datasource/zarr/codec/delta/resolve.js";
+import "#src/datasource/zarr/codec/fixedscaleoffset/resolve.js";
 import "#src/datasource/zarr/codec/gzip/resolve.js";
+import "#src/datasource/zarr/codec/lz4/resolve.js";
+import "#src/datasource/zarr/codec/quantize/resolve.js";
+import "#src/datasource/zarr/codec/sharding_indexed/resolve.js";
+import "#src/datasource/zarr/codec/transpose/resolve.js";
+import "#src/datasource/zarr/codec/zlib/resolve.js";
+import "#src/datasource/zarr/codec/zstd/resolve.js";
 import type {
   ArrayMetadata,
+  DimensionSeparator,
   Metadata,
+  NodeType,
 } from "#src/datasource/zarr/metadata/index.js";
 import {
   parseDimensionSeparator,
   parseDimensionUnit,
+  parseV2ConsolidatedMetadata,
   parseV2Metadata,
+  parseV3ConsolidatedMetadata,
+  parseV3Metadata,
 } from "#src/datasource/zarr/metadata/parse.js";
 import type { OmeMultiscaleMetadata } from "#src/datasource/zarr/ome.js";
 import { parseOmeMetadata } from "#src/datasource/zarr/ome.js";
@@ -148,10 +166,40 @@ export class MultiscaleVolumeChunkSource extends GenericMultiscaleVolumeChunkSou
   }
 }
 
+// Metadata documents of the zarr store rooted at `url`, obtained from its consolidated metadata.
+interface ConsolidatedMetadata {
+  url: string;
+  zarrVersion: 2 | 3;
+  documents: Map<string, unknown>;
+}
+
+// Names of the metadata files included in consolidated metadata, by zarr version.
+const CONSOLIDATED_METADATA_FILE_NAMES = {
+  2: [".zarray", ".zattrs", ".zgroup"],
+  3: ["zarr.json"],
+};
+
 function getJsonResource(
   chunkManager: ChunkManager,
   url: string,
+  consolidatedMetadata?: ConsolidatedMetadata,
 ): Promise<any | undefined> {
+  if (
+    consolidatedMetadata !== undefined &&
+    url.startsWith(`${consolidatedMetadata.url}/`)
+  ) {
+    const key = url.substring(consolidatedMetadata.url.length + 1);
+    const name = key.substring(key.lastIndexOf("/") + 1);
+    if (
+      CONSOLIDATED_METADATA_FILE_NAMES[
+        consolidatedMetadata.zarrVersion
+      ].includes(name)
+    ) {
+      // Consolidated metadata covers every node of the store, so that documents missing from it
+      // do not exist either.
+      return Promise.resolve(consolidatedMetadata.documents.get(key));
+    }
+  }
   return chunkManager.memoize.getUncounted(
     {
       type: "zarr:json",
@@ -159,7 +207,7 @@ function getJsonResource(
     },
     async () => {
       try {
-        return await cancellableFetchOk(url, responseJson);
+        return await cancellableFetchOk(url, {}, responseJson);
       } catch (e) {
         console.log(`Missing block: ${url}`);
         if (isNotFoundError(e)) return undefined;
@@ -169,6 +217,39 @@ function getJsonResource(
   );
 }
 
+/**
+ * Returns the consolidated metadata of the store rooted at `url`, preferring the inline
+ * consolidated metadata of a zarr v3 group over a zarr v2 `.zmetadata` file.
+ */
+async function getConsolidatedMetadata(
+  chunkManager: ChunkManager,
+  url: string,
+  zarrVersion: 2 | 3 | undefined,
+): Promise<ConsolidatedMetadata | undefined> {
+  const [zmetadata, zarrJson] = await Promise.all([
+    zarrVersion === 3
+      ? undefined
+      : getJsonResource(chunkManager, `${url}/.zmetadata`),
+    zarrVersion === 2
+      ? undefined
+      : getJsonResource(chunkManager, `${url}/zarr.json`),
+  ]);
+  try {
+    if (zarrJson !== undefined) {
+      const documents = parseV3ConsolidatedMetadata(zarrJson);
+      if (documents !== undefined) return { url, zarrVersion: 3, documents };
+    }
+    if (zmetadata !== undefined) {
+      const documents = parseV2ConsolidatedMetadata(zmetadata);
+      return { url, zarrVersion: 2, documents };
+    }
+  } catch (e) {
+    // Fall back to the metadata files of the individual nodes.
+    console.warn((e as Error).message);
+  }
+  return undefined;
+}
+
 interface ZarrScaleInfo {
   url: string;
   transform: Float64Array;
@@ -223,7 +304,6 @@ function getMultiscaleInfoForSingleArray(
     metadata.dimensionNames,
     metadata.zarrVersion,
   );
-  console.log('jwifw')
   const unitsAndScales = metadata.dimensionUnits.map(parseDimensionUnit);
   const modelSpace = makeCoordinateSpace({
     names,
@@ -251,16 +331,31 @@ function getMultiscaleInfoForSingleArray(
   };
 }
 
+interface GetMetadataOptions {
+  zarrVersion?: 2 | 3;
+  expectedNodeType?: NodeType;
+  explicitDimensionSeparator?: DimensionSeparator;
+  consolidatedMetadata?: ConsolidatedMetadata;
+}
+
 async function resolveOmeMultiscale(
   chunkManager: ChunkManager,
   multiscale: OmeMultiscaleMetadata,
+  options: {
+    zarrVersion: 2 | 3;
+    explicitDimensionSeparator?: DimensionSeparator;
+    consolidatedMetadata?: ConsolidatedMetadata;
+  },
 ): Promise<ZarrMultiscaleInfo> {
   const scaleZarrMetadata = await Promise.all(
     multiscale.scales.map(async (scale) => {
-      const metadata = await getMetadataB(chunkManager, scale.url);
+      const metadata = await getMetadata(chunkManager, scale.url, {
+        ...options,
+        expectedNodeType: "array",
+      });
       if (metadata === undefined) {
         throw new Error(
-          `zarr v{zarrVersion} array metadata not found at ${scale.url}`,
+          `zarr v${options.zarrVersion} array metadata not found at ${scale.url}`,
         );
       }
       return metadata as ArrayMetadata;
@@ -329,28 +424,82 @@ async function resolveOmeMultiscale(
   };
 }
 
-async function getMetadataA(
+async function getZarrV2Metadata(
   chunkManager: ChunkManager,
   url: string,
+  options: GetMetadataOptions,
 ): Promise<Metadata | undefined> {
-  const [zattrs] = await Promise.all([
-    getJsonResource(chunkManager, `${url}/.zattrs`),
+  const [zarray, zattrs] = await Promise.all([
+    getJsonResource(
+      chunkManager,
+      `${url}/.zarray`,
+      options.consolidatedMetadata,
+    ),
+    getJsonResource(
+      chunkManager,
+      `${url}/.zattrs`,
+      options.consolidatedMetadata,
+    ),
   ]);
-  return {
-    zarrVersion: 2,
-    nodeType: "group",
-    userAttributes: verifyObject(zattrs),
-  };
+  if (zarray === undefined) {
+    if (zattrs === undefined || options.expectedNodeType === "array") {
+      return undefined;
+    }
+    return {
+      zarrVersion: 2,
+      nodeType: "group",
+      userAttributes: verifyObject(zattrs),
+    };
+  }
+  if (options.expectedNodeType === "group") return undefined;
+  return parseV2Metadata(
+    zarray,
+    zattrs === undefined ? {} : verifyObject(zattrs),
+    options.explicitDimensionSeparator,
+  );
+}
+
+async function getZarrV3Metadata(
+  chunkManager: ChunkManager,
+  url: string,
+  options: GetMetadataOptions,
+): Promise<Metadata | undefined> {
+  if (options.explicitDimensionSeparator !== undefined) {
+    throw new Error(
+      "dimension_separator query parameter is not supported for zarr v3",
+    );
+  }
+  const zarrJson = await getJsonResource(
+    chunkManager,
+    `${url}/zarr.json`,
+    options.consolidatedMetadata,
+  );
+  if (zarrJson === undefined) return undefined;
+  return parseV3Metadata(zarrJson, options.expectedNodeType);
 }
 
-async function getMetadataB(
+async function getMetadata(
   chunkManager: ChunkManager,
   url: string,
+  options: GetMetadataOptions,
 ): Promise<Metadata | undefined> {
-  const [zarray] = await Promise.all([
-    getJsonResource(chunkManager, `${url}/.zarray`),
+  if (options.zarrVersion === 2) {
+    return getZarrV2Metadata(chunkManager, url, options);
+  }
+  if (options.zarrVersion === 3) {
+    return getZarrV3Metadata(chunkManager, url, options);
+  }
+  // Auto-detect the version.  A `dimension_separator` parameter only makes sense for v2.
+  const [v2Result, v3Result] = await Promise.all([
+    getZarrV2Metadata(chunkManager, url, options),
+    options.explicitDimensionSeparator === undefined
+      ? getZarrV3Metadata(chunkManager, url, options)
+      : undefined,
   ]);
-  return parseV2Metadata(zarray);
+  if (v2Result !== undefined && v3Result !== undefined) {
+    throw new Error("Both zarr v2 and v3 metadata found");
+  }
+  return v2Result ?? v3Result;
 }
 
 export class ZarrDataSource extends DataSourceProvider {
@@ -380,12 +529,23 @@ export class ZarrDataSource extends DataSourceProvider {
       {
         type: "zarr:MultiscaleVolumeChunkSource",
         providerUrl,
+        zarrVersion: this.zarrVersion,
         dimensionSeparator,
       },
       async () => {
         const url = providerUrl;
 
-        const metadata = await getMetadataA(options.chunkManager, url);
+        // Answers all metadata lookups at once, if available.
+        const consolidatedMetadata = await getConsolidatedMetadata(
+          options.chunkManager,
+          url,
+          this.zarrVersion,
+        );
+        const metadata = await getMetadata(options.chunkManager, url, {
+          zarrVersion: this.zarrVersion ?? consolidatedMetadata?.zarrVersion,
+          explicitDimensionSeparator: dimensionSeparator,
+          consolidatedMetadata,
+        });
         if (metadata === undefined) {
           throw new Error("No zarr metadata found");
         }
@@ -394,7 +554,7 @@ export class ZarrDataSource extends DataSourceProvider {
           // May be an OME-zarr multiscale dataset.
           const multiscale = parseOmeMetadata(url, metadata.userAttributes);
           if (multiscale === undefined) {
-            throw new Error("Neithre array nor OME multiscale metadata found");
+            throw new Error("Neither array nor OME multiscale metadata found");
           }
           multiscaleInfo = await resolveOmeMultiscale(
             options.chunkManager,
@@ -402,6 +562,7 @@ export class ZarrDataSource extends DataSourceProvider {
             {
               zarrVersion: metadata.zarrVersion,
               explicitDimensionSeparator: dimensionSeparator,
+              consolidatedMetadata,
             },
           );
         } else {
@@ -0,0 +1,340 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Discovery of the arrays and OME-NGFF multiscale images within a zarr hierarchy.
+ *
+ * The directories of the folder picked by the user are listed.  Remote directories cannot be
+ * listed, so that the nodes of remote hierarchies are instead found through their consolidated
+ * metadata and the links of their OME-NGFF metadata, i.e. the datasets of multiscale images and
+ * the labels of images.
+ *
+ * Directories that are not part of a zarr hierarchy are searched by `#src/datasource/browser.js`.
+ */
+
+import type {
+  ArrayMetadata,
+  NodeType,
+} from "#src/datasource/zarr/metadata/index.js";
+import {
+  parseV2ConsolidatedMetadata,
+  parseV2Metadata,
+  parseV3ConsolidatedMetadata,
+  parseV3Metadata,
+} from "#src/datasource/zarr/metadata/parse.js";
+import { parseOmeMetadata } from "#src/datasource/zarr/ome.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  CancellationError,
+  throwIfCanceled,
+  uncancelableToken,
+} from "#src/util/cancellation.js";
+import {
+  cancellableFetchOk,
+  isNotFoundError,
+  listDirectory,
+  responseJson,
+} from "#src/util/http_request.js";
+import { verifyObject } from "#src/util/json.js";
+
+export type ZarrNodeKind = "array" | "multiscale" | "label";
+
+export interface ZarrNode {
+  // Path relative to the root, or `""` for the root itself.
+  path: string;
+  url: string;
+  zarrVersion: 2 | 3;
+  kind: ZarrNodeKind;
+  // Metadata of the array, or of the first scale of a multiscale image.
+  metadata?: ArrayMetadata;
+  // Number of scales of a multiscale image.
+  numScales?: number;
+  // Reason why the node cannot be opened.
+  error?: string;
+}
+
+// Metadata documents of a node, before the array metadata is parsed.
+interface RawNode {
+  zarrVersion: 2 | 3;
+  nodeType: NodeType;
+  attributes: any;
+  // `.zarray` (v2) or `zarr.json` (v3) document.
+  document: unknown;
+}
+
+/**
+ * Returns the data source URL for opening `node`.
+ */
+export function getZarrNodeDataSourceUrl(node: ZarrNode) {
+  return `zarr${node.zarrVersion}://${node.url}/`;
+}
+
+function joinPath(path: string, name: string) {
+  return path === "" ? name : `${path}/${name}`;
+}
+
+// OME-NGFF 0.5 (zarr v3) nests the metadata under an "ome" attribute.
+function getOmeAttributes(attributes: any) {
+  return attributes.ome ?? attributes;
+}
+
+// Groups the documents of consolidated metadata by the path of their node.
+function getRawNodesFromConsolidatedMetadata(
+  zarrVersion: 2 | 3,
+  documents: Map<string, unknown>,
+) {
+  const nodes = new Map<string, RawNode>();
+  for (const [key, document] of documents) {
+    const separator = key.lastIndexOf("/");
+    const path = separator === -1 ? "" : key.substring(0, separator);
+    const name = key.substring(separator + 1);
+    if (![".zarray", ".zattrs", ".zgroup", "zarr.json"].includes(name)) {
+      continue;
+    }
+    let node = nodes.get(path);
+    if (node === undefined) {
+      node = { zarrVersion, nodeType: "group", attributes: {}, document: {} };
+      nodes.set(path, node);
+    }
+    if (name === "zarr.json") {
+      const zarrJson: any = verifyObject(document);
+      node.nodeType = zarrJson.node_type as NodeType;
+      node.attributes = zarrJson.attributes ?? {};
+      node.document = zarrJson;
+    } else if (name === ".zarray") {
+      node.nodeType = "array";
+      node.document = document;
+    } else if (name === ".zattrs") {
+      node.attributes = document;
+    }
+  }
+  return nodes;
+}
+
+class HierarchyWalker {
+  nodes = new Map<string, ZarrNode>();
+  private visited = new Set<string>();
+  // Path of the first scale of each multiscale image.
+  private firstScalePaths = new Map<string, string>();
+
+  constructor(
+    private rootUrl: string,
+    private cancellationToken: CancellationToken,
+  ) {}
+
+  getUrl(path: string) {
+    if (path === "") return this.rootUrl;
+    return `${this.rootUrl}/${path.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  private async fetchJson(url: string): Promise<any | undefined> {
+    try {
+      return await cancellableFetchOk(
+        url,
+        {},
+        responseJson,
+        this.cancellationToken,
+      );
+    } catch (e) {
+      if (isNotFoundError(e)) return undefined;
+      throw e;
+    }
+  }
+
+  private async readRawNode(
+    path: string,
+    zarrVersion: 2 | 3 | undefined,
+  ): Promise<RawNode | undefined> {
+    const url = this.getUrl(path);
+    const [zarray, zattrs, zgroup, zarrJson] = await Promise.all([
+      zarrVersion === 3 ? undefined : this.fetchJson(`${url}/.zarray`),
+      zarrVersion === 3 ? undefined : this.fetchJson(`${url}/.zattrs`),
+      zarrVersion === 3 ? undefined : this.fetchJson(`${url}/.zgroup`),
+      zarrVersion === 2 ? undefined : this.fetchJson(`${url}/zarr.json`),
+    ]);
+    if (zarrJson !== undefined) {
+      verifyObject(zarrJson);
+      return {
+        zarrVersion: 3,
+        nodeType: zarrJson.node_type as NodeType,
+        attributes: zarrJson.attributes ?? {},
+        document: zarrJson,
+      };
+    }
+    if (zarray !== undefined) {
+      return {
+        zarrVersion: 2,
+        nodeType: "array",
+        attributes: zattrs ?? {},
+        document: zarray,
+      };
+    }
+    if (zattrs !== undefined || zgroup !== undefined) {
+      return {
+        zarrVersion: 2,
+        nodeType: "group",
+        attributes: zattrs ?? {},
+        document: zgroup ?? {},
+      };
+    }
+    return undefined;
+  }
+
+  private async readConsolidatedMetadata(path: string, node: RawNode) {
+    if (node.zarrVersion === 3) {
+      return parseV3ConsolidatedMetadata(node.document);
+    }
+    const zmetadata = await this.fetchJson(`${this.getUrl(path)}/.zmetadata`);
+    return zmetadata === undefined
+      ? undefined
+      : parseV2ConsolidatedMetadata(zmetadata);
+  }
+
+  /**
+   * Records `node` and returns the paths of the nodes it links to through its OME-NGFF metadata.
+   */
+  private addNode(path: string, node: RawNode): string[] {
+    const { zarrVersion } = node;
+    const url = this.getUrl(path);
+    if (node.nodeType === "array") {
+      const arrayNode: ZarrNode = { path, url, zarrVersion, kind: "array" };
+      try {
+        arrayNode.metadata =
+          zarrVersion === 2
+            ? parseV2Metadata(node.document, node.attributes, undefined)
+            : (parseV3Metadata(node.document, "array") as ArrayMetadata);
+      } catch (e) {
+        arrayNode.error = (e as Error).message;
+      }
+      this.nodes.set(path, arrayNode);
+      return [];
+    }
+    const links: string[] = [];
+    const ome = getOmeAttributes(node.attributes);
+    if (Array.isArray(ome.labels)) {
+      for (const name of ome.labels) {
+        if (typeof name === "string") links.push(joinPath(path, name));
+      }
+    }
+    if (ome.multiscales === undefined) return links;
+    const multiscaleNode: ZarrNode = {
+      path,
+      url,
+      zarrVersion,
+      kind: ome["image-label"] === undefined ? "multiscale" : "label",
+    };
+    this.nodes.set(path, multiscaleNode);
+    try {
+      const multiscale = parseOmeMetadata(url, node.attributes);
+      if (multiscale === undefined) {
+        throw new Error("Invalid OME multiscale metadata");
+      }
+      const scalePaths = multiscale.scales.map((scale) =>
+        joinPath(path, scale.url.substring(url.length + 1)),
+      );
+      multiscaleNode.numScales = scalePaths.length;
+      this.firstScalePaths.set(path, scalePaths[0]);
+      links.push(...scalePaths);
+    } catch (e) {
+      multiscaleNode.error = (e as Error).message;
+    }
+    // Images may have label images, which do not themselves have labels.
+    if (multiscaleNode.kind === "multiscale") {
+      links.push(joinPath(path, "labels"));
+    }
+    return links;
+  }
+
+  async visit(path: string, zarrVersion?: 2 | 3): Promise<void> {
+    if (this.visited.has(path)) return;
+    this.visited.add(path);
+    const url = this.getUrl(path);
+    let node: RawNode | undefined;
+    try {
+      node = await this.readRawNode(path, zarrVersion);
+    } catch (e) {
+      if (e instanceof CancellationError) throw e;
+      console.warn(`Error reading zarr metadata at ${url}: ${(e as Error).message}`);
+      return;
+    }
+    if (node === undefined) return;
+    if (node.nodeType === "group") {
+      let documents: Map<string, unknown> | undefined;
+      try {
+        documents = await this.readConsolidatedMetadata(path, node);
+      } catch (e) {
+        if (e instanceof CancellationError) throw e;
+        // Fall back to the metadata files of the individual nodes.
+        console.warn((e as Error).message);
+      }
+      if (documents !== undefined) {
+        const rawNodes = getRawNodesFromConsolidatedMetadata(
+          node.zarrVersion,
+          documents,
+        );
+        for (const [subpath, rawNode] of rawNodes) {
+          const nodePath = subpath === "" ? path : joinPath(path, subpath);
+          this.visited.add(nodePath);
+          this.addNode(nodePath, rawNode);
+        }
+        return;
+      }
+    }
+    const links = this.addNode(path, node);
+    if (node.nodeType === "array") return;
+    const directories = (await listDirectory(url, "directory")) ?? [];
+    await Promise.all(
+      [...links, ...directories.map((name) => joinPath(path, name))].map(
+        (childPath) => this.visit(childPath, node.zarrVersion),
+      ),
+    );
+  }
+
+  /**
+   * Completes the multiscale images with the metadata of their first scale.
+   */
+  resolveMultiscales() {
+    for (const [path, firstScalePath] of this.firstScalePaths) {
+      const node = this.nodes.get(path)!;
+      const firstScale = this.nodes.get(firstScalePath);
+      if (firstScale?.metadata === undefined) {
+        node.error = firstScale?.error ?? `Array not found at ${firstScalePath}`;
+        continue;
+      }
+      node.metadata = firstScale.metadata;
+    }
+  }
+}
+
+/**
+ * Returns the zarr arrays, OME-NGFF multiscale images and label images within the hierarchy at
+ * `rootUrl`, ordered by path, or an empty list if `rootUrl` is not a zarr group or array.
+ */
+export async function listZarrHierarchy(
+  rootUrl: string,
+  cancellationToken: CancellationToken = uncancelableToken,
+): Promise<ZarrNode[]> {
+  if (rootUrl.endsWith("/")) {
+    rootUrl = rootUrl.substring(0, rootUrl.length - 1);
+  }
+  const walker = new HierarchyWalker(rootUrl, cancellationToken);
+  await walker.visit("");
+  throwIfCanceled(cancellationToken);
+  walker.resolveMultiscales();
+  return Array.from(walker.nodes.values()).sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+  );
+}
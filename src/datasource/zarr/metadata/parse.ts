@@ -16,25 +16,29 @@
 
 import { parseCodecChainSpec } from "#src/datasource/zarr/codec/resolve.js";
 import type {
+  ArrayMetadata,
   DimensionSeparator,
   Metadata,
   NodeType,
 } from "#src/datasource/zarr/metadata/index.js";
 import { ChunkKeyEncoding } from "#src/datasource/zarr/metadata/index.js";
 import { parseNameAndConfiguration } from "#src/datasource/zarr/metadata/parse_util.js";
-import { DataType } from "#src/util/data_type.js";
+import { DATA_TYPE_BYTES, DataType } from "#src/util/data_type.js";
 import { Endianness } from "#src/util/endian.js";
 import {
   parseArray,
   parseFixedLengthArray,
   verifyConstant,
   verifyEnumString,
+  verifyInt,
   verifyObject,
+  verifyObjectAsMap,
   verifyObjectProperty,
   verifyOptionalFixedLengthArrayOfStringOrNull,
   verifyOptionalObjectProperty,
   verifyString,
 } from "#src/util/json.js";
+import type { NumpyDtype } from "#src/util/numpy_dtype.js";
 import { parseNumpyDtype } from "#src/util/numpy_dtype.js";
 import { allSiPrefixes } from "#src/util/si_units.js";
 
@@ -165,7 +169,138 @@ function parseFillValue(dataType: DataType, value: unknown) {
   }
 }
 
-export function parseV2Metadata(obj: unknown): any {
+function parseDataType(value: unknown): DataType {
+  try {
+    return verifyEnumString(
+      value,
+      DataType,
+      /^(?:u?int(?:8|16|32|64)|float32)$/,
+    );
+  } catch {
+    throw new Error(`Unsupported data type: ${JSON.stringify(value)}`);
+  }
+}
+
+function parseUserAttributes(value: unknown): Record<string, unknown> {
+  if (value === undefined) return {};
+  return verifyObject(value);
+}
+
+// Converts a zarr v2 (numcodecs) compressor to the equivalent bytes -> bytes codec.
+function parseV2Compressor(
+  value: unknown,
+  dataType: DataType,
+): { name: string; configuration: unknown } {
+  const obj = verifyObject(value);
+  const id = verifyObjectProperty(obj, "id", verifyString);
+  switch (id) {
+    case "blosc": {
+      const shuffle = verifyOptionalObjectProperty(
+        obj,
+        "shuffle",
+        verifyInt,
+        1,
+      );
+      let shuffleName: string;
+      switch (shuffle) {
+        case 0:
+          shuffleName = "noshuffle";
+          break;
+        case 1:
+          shuffleName = "shuffle";
+          break;
+        case 2:
+          shuffleName = "bitshuffle";
+          break;
+        case -1:
+          // AUTOSHUFFLE
+          shuffleName =
+            DATA_TYPE_BYTES[dataType] === 1 ? "bitshuffle" : "shuffle";
+          break;
+        default:
+          throw new Error(`Invalid blosc shuffle value: ${shuffle}`);
+      }
+      return {
+        name: "blosc",
+        configuration: {
+          cname: obj.cname,
+          clevel: obj.clevel,
+          shuffle: shuffleName,
+          typesize: DATA_TYPE_BYTES[dataType],
+          blocksize: obj.blocksize ?? 0,
+        },
+      };
+    }
+    case "zstd":
+      return {
+        name: "zstd",
+        configuration: { level: obj.level, checksum: obj.checksum ?? false },
+      };
+    case "lz4":
+      return {
+        name: "lz4",
+        configuration: { acceleration: obj.acceleration ?? 1 },
+      };
+    case "bz2":
+    case "gzip":
+    case "zlib":
+      return { name: id, configuration: { level: obj.level } };
+    default:
+      throw new Error(`Unsupported compressor: ${JSON.stringify(id)}`);
+  }
+}
+
+// Converts a zarr v2 (numcodecs) filter to the equivalent array -> array codec.
+//
+// Also returns the dtype of the encoded array, which determines the input of the next filter and
+// the endianness of the \`bytes\` codec.
+function parseV2Filter(
+  value: unknown,
+  decodedDtype: NumpyDtype,
+): {
+  codec: { name: string; configuration: unknown };
+  encodedDtype: NumpyDtype;
+} {
+  const obj = verifyObject(value);
+  const id = verifyObjectProperty(obj, "id", verifyString);
+  const parseEncodedDtype = (key: string) =>
+    verifyOptionalObjectProperty(obj, key, parseNumpyDtype, decodedDtype);
+  let encodedDtype = decodedDtype;
+  let configuration: Record<string, unknown>;
+  switch (id) {
+    case "delta":
+      encodedDtype = parseEncodedDtype("astype");
+      configuration = {};
+      break;
+    case "fixedscaleoffset":
+      encodedDtype = parseEncodedDtype("astype");
+      configuration = { scale: obj.scale, offset: obj.offset };
+      break;
+    case "quantize":
+      encodedDtype = parseEncodedDtype("astype");
+      configuration = { digits: obj.digits };
+      break;
+    case "astype":
+      encodedDtype = verifyObjectProperty(obj, "encode_dtype", parseNumpyDtype);
+      configuration = {};
+      break;
+    case "bitround":
+      return {
+        codec: { name: id, configuration: { keepbits: obj.keepbits } },
+        encodedDtype,
+      };
+    default:
+      throw new Error(`Unsupported filter: ${JSON.stringify(id)}`);
+  }
+  configuration.astype = DataType[encodedDtype.dataType].toLowerCase();
+  return { codec: { name: id, configuration }, encodedDtype };
+}
+
+export function parseV2Metadata(
+  obj: unknown,
+  attrs: Record<string, unknown>,
+  explicitDimensionSeparator: DimensionSeparator | undefined,
+): ArrayMetadata {
   try {
     verifyObject(obj);
     verifyObjectProperty(obj, "zarr_format", (value) => {
@@ -184,16 +319,41 @@ export function parseV2Metadata(obj: unknown): any {
       }
       return order;
     });
-    const dimensionSeparator: DimensionSeparator = verifyOptionalObjectProperty(
+    let dimensionSeparator = verifyOptionalObjectProperty(
       obj,
       "dimension_separator",
       parseDimensionSeparator,
     );
+    if (
+      dimensionSeparator !== undefined &&
+      explicitDimensionSeparator !== undefined &&
+      dimensionSeparator !== explicitDimensionSeparator
+    ) {
+      throw new Error(
+        `Explicitly specified dimension separator ` +
+          `${JSON.stringify(explicitDimensionSeparator)} does not match value ` +
+          `in .zarray ${JSON.stringify(dimensionSeparator)}`,
+      );
+    }
+    dimensionSeparator ??= explicitDimensionSeparator ?? ".";
     const numpyDtype = verifyObjectProperty(obj, "dtype", (dtype) =>
       parseNumpyDtype(verifyString(dtype)),
     );
 
     const dataType = numpyDtype.dataType;
+    const fillValue = verifyObjectProperty(obj, "fill_value", (value) =>
+      parseFillValue(dataType, value ?? 0),
+    );
+    const dimensionNames = verifyObjectProperty(
+      attrs,
+      "_ARRAY_DIMENSIONS",
+      (names) => verifyOptionalFixedLengthArrayOfStringOrNull(names, rank),
+    );
+    const dimensionUnits = verifyObjectProperty(
+      attrs,
+      "dimension_units",
+      (units) => verifyOptionalFixedLengthArrayOfStringOrNull(units, rank),
+    );
 
     const codecs = [];
     if (order === "F") {
@@ -202,19 +362,37 @@ export function parseV2Metadata(obj: unknown): any {
         configuration: { order: Array.from(shape, (_, i) => rank - i - 1) },
       });
     }
+    // Filters are applied in order when encoding, each producing the input to the next.
+    let encodedDtype = numpyDtype;
+    verifyObjectProperty(obj, "filters", (value) => {
+      if (value == null) return;
+      parseArray(value, (filter) => {
+        const { codec, encodedDtype: filterEncodedDtype } = parseV2Filter(
+          filter,
+          encodedDtype,
+        );
+        codecs.push(codec);
+        encodedDtype = filterEncodedDtype;
+      });
+    });
     codecs.push({
       name: "bytes",
       configuration: {
-        endian: numpyDtype.endianness === Endianness.LITTLE ? "little" : "big",
-        compressor: obj.compressor
+        endian:
+          encodedDtype.endianness === Endianness.LITTLE ? "little" : "big",
       },
     });
+    const compressor = verifyObjectProperty(obj, "compressor", (value) =>
+      value === null ? null : parseV2Compressor(value, encodedDtype.dataType),
+    );
+    if (compressor !== null) {
+      codecs.push(compressor);
+    }
 
     const codecChainSpec = parseCodecChainSpec(codecs, {
       dataType,
       chunkShape,
     });
-    codecChainSpec[1].configuration.compressor = obj.compressor;
 
     return {
       zarrVersion: 2,
@@ -223,10 +401,180 @@ export function parseV2Metadata(obj: unknown): any {
       shape,
       chunkShape,
       dataType,
+      fillValue,
+      dimensionNames,
+      dimensionUnits,
+      userAttributes: attrs,
       dimensionSeparator,
+      chunkKeyEncoding: ChunkKeyEncoding.V2,
       codecs: codecChainSpec,
     };
   } catch (e) {
-    throw new Error(`Error parsing zarr v2 metadata: ${e.message}`);
+    throw new Error(`Error parsing zarr v2 metadata: ${(e as Error).message}`);
+  }
+}
+
+export function parseV3Metadata(
+  obj: unknown,
+  expectedNodeType: NodeType | undefined,
+): Metadata {
+  try {
+    verifyObject(obj);
+    verifyObjectProperty(obj, "zarr_format", (value) => {
+      verifyConstant(value, 3);
+    });
+    const nodeType = verifyObjectProperty(obj, "node_type", (value) => {
+      if (value !== "array" && value !== "group") {
+        throw new Error(
+          `Expected "array" or "group", but received: ${JSON.stringify(value)}`,
+        );
+      }
+      return value as NodeType;
+    });
+    if (expectedNodeType !== undefined && nodeType !== expectedNodeType) {
+      throw new Error(
+        `Expected node_type of ${JSON.stringify(expectedNodeType)}, ` +
+          `but received: ${JSON.stringify(nodeType)}`,
+      );
+    }
+    const userAttributes = verifyObjectProperty(
+      obj,
+      "attributes",
+      parseUserAttributes,
+    );
+    if (nodeType === "group") {
+      return { zarrVersion: 3, nodeType, userAttributes };
+    }
+    const shape = verifyObjectProperty(obj, "shape", parseShape);
+    const rank = shape.length;
+    const dataType = verifyObjectProperty(obj, "data_type", parseDataType);
+    const { configuration: chunkShape } = verifyObjectProperty(
+      obj,
+      "chunk_grid",
+      (value) =>
+        parseNameAndConfiguration(
+          value,
+          (name) => {
+            if (name !== "regular") {
+              throw new Error(
+                `Only "regular" chunk grid is supported, but received: ${JSON.stringify(name)}`,
+              );
+            }
+            return name;
+          },
+          (configuration) =>
+            verifyObjectProperty(configuration, "chunk_shape", (value) =>
+              parseChunkShape(value, rank),
+            ),
+        ),
+    );
+    const {
+      name: chunkKeyEncoding,
+      configuration: { separator: dimensionSeparator },
+    } = verifyObjectProperty(obj, "chunk_key_encoding", (value) =>
+      parseNameAndConfiguration(
+        value,
+        (name) => verifyEnumString(name, ChunkKeyEncoding),
+        (configuration, chunkKeyEncoding) => {
+          const separator = verifyOptionalObjectProperty(
+            configuration,
+            "separator",
+            parseDimensionSeparator,
+            chunkKeyEncoding === ChunkKeyEncoding.DEFAULT ? "/" : ".",
+          );
+          return { separator };
+        },
+      ),
+    );
+    const fillValue = verifyObjectProperty(obj, "fill_value", (value) =>
+      parseFillValue(dataType, value),
+    );
+    const dimensionNames = verifyObjectProperty(
+      obj,
+      "dimension_names",
+      (names) => verifyOptionalFixedLengthArrayOfStringOrNull(names, rank),
+    );
+    const dimensionUnits = verifyObjectProperty(
+      userAttributes,
+      "dimension_units",
+      (units) => verifyOptionalFixedLengthArrayOfStringOrNull(units, rank),
+    );
+    const codecs = verifyObjectProperty(obj, "codecs", (value) =>
+      parseCodecChainSpec(value, { dataType, chunkShape }),
+    );
+    return {
+      zarrVersion: 3,
+      nodeType,
+      rank,
+      shape,
+      chunkShape,
+      dataType,
+      fillValue,
+      dimensionNames,
+      dimensionUnits,
+      userAttributes,
+      dimensionSeparator,
+      chunkKeyEncoding,
+      codecs,
+    };
+  } catch (e) {
+    throw new Error(`Error parsing zarr v3 metadata: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Parses the `.zmetadata` file of a zarr v2 store.
+ *
+ * @returns The metadata documents of the store by key relative to its root, e.g. `"s0/.zarray"`.
+ */
+export function parseV2ConsolidatedMetadata(obj: unknown): Map<string, unknown> {
+  try {
+    verifyObject(obj);
+    verifyObjectProperty(obj, "zarr_consolidated_format", (value) => {
+      verifyConstant(value, 1);
+    });
+    return verifyObjectProperty(obj, "metadata", (value) =>
+      verifyObjectAsMap(value, (document) => document as unknown),
+    );
+  } catch (e) {
+    throw new Error(
+      `Error parsing zarr v2 consolidated metadata: ${(e as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Parses the inline consolidated metadata of the `zarr.json` file of a zarr v3 group.
+ *
+ * @returns The metadata documents of the group and its descendants by key relative to the group,
+ *     e.g. `"s0/zarr.json"`, or `undefined` if the metadata is not consolidated.
+ */
+export function parseV3ConsolidatedMetadata(
+  obj: unknown,
+): Map<string, unknown> | undefined {
+  try {
+    verifyObject(obj);
+    const nodes = verifyOptionalObjectProperty(
+      obj,
+      "consolidated_metadata",
+      (consolidated) => {
+        if (consolidated === null) return undefined;
+        verifyObject(consolidated);
+        verifyObjectProperty(consolidated, "kind", (value) => {
+          verifyConstant(value, "inline");
+        });
+        return verifyObjectProperty(consolidated, "metadata", verifyObject);
+      },
+    );
+    if (nodes === undefined) return undefined;
+    const documents = new Map<string, unknown>([["zarr.json", obj]]);
+    for (const [path, document] of Object.entries(nodes)) {
+      documents.set(`${path}/zarr.json`, document);
+    }
+    return documents;
+  } catch (e) {
+    throw new Error(
+      `Error parsing zarr v3 consolidated metadata: ${(e as Error).message}`,
+    );
   }
 }
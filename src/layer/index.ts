@@ -21,7 +21,9 @@ import {
   emptyInvalidCoordinateSpace,
   TrackableCoordinateSpace,
 } from "#src/state/coordinate_transform.js";
+import type { ChunkManager } from "#src/chunk_manager/frontend.js";
 import type {
+  DataSourceProviderRegistry,
   DataSourceSpecification,
 } from "#src/datasource/index.js";
 import type { LoadedDataSubsource } from "#src/layer/layer_data_source.js";
@@ -32,7 +34,6 @@ import {
   Position,
 } from '#src/state/navigation_state.js';
 import type { RenderLayer } from "#src/render/renderlayer.js";
-import type { WatchableValueInterface } from "#src/state/trackable_value.js";
 import type { Owned } from "#src/util/disposable.js";
 import { RefCounted } from "#src/util/disposable.js";
 import { MessageList } from "#src/util/message_list.js";
@@ -51,6 +52,42 @@ import {
 import { makeWatchableShaderError } from "#src/webgl/dynamic_shader.js";
 import { ShaderControlState } from "#src/webgl/shader_ui_controls.js";
 
+/**
+ * Holds the layers of the viewer and the state they share.
+ */
+export class LayerManager extends RefCounted {
+  layersChanged = new NullarySignal();
+  userLayers: UserLayer[] = [];
+
+  constructor(
+    public chunkManager: ChunkManager,
+    public coordinateSpace: TrackableCoordinateSpace,
+    public dataSourceProviderRegistry: DataSourceProviderRegistry,
+  ) {
+    super();
+  }
+
+  /**
+   * Adds a layer of type `specification.type` showing the data source `specification.url`.
+   */
+  addUserLayer(specification: UserLayerSpecification) {
+    const layerConstructor = layerTypes[specification.type];
+    const userLayer = this.registerDisposer(
+      new layerConstructor(this, specification.url),
+    );
+    this.userLayers.push(userLayer);
+    userLayer.layersChanged.add(this.layersChanged.dispatch);
+    this.layersChanged.dispatch();
+    return userLayer;
+  }
+
+  *readyRenderLayers() {
+    for (const userLayer of this.userLayers) {
+      yield* userLayer.readyRenderLayers();
+    }
+  }
+}
+
 export class UserLayer extends RefCounted {
   localCoordinateSpace = new TrackableCoordinateSpace();
   localPosition = this.registerDisposer(
@@ -76,7 +113,10 @@ export class UserLayer extends RefCounted {
   dataSourcesChanged = new NullarySignal();
   dataSources: LayerDataSource[] = [];
 
-  constructor(public manager: any) {
+  constructor(
+    public manager: LayerManager,
+    public dataSourceUrl: string,
+  ) {
     super();
     this.localPosition.changed.add(this.specificationChanged.dispatch);
     this.dataSourcesChanged.add(this.specificationChanged.dispatch);
@@ -123,25 +163,26 @@ export class UserLayer extends RefCounted {
 
   addCoordinateSpace(
   ) {
+    const space = this.manager.coordinateSpace.value;
     this.manager.coordinateSpace.value = {
+      ...space,
       bounds: {
-        lowerBounds: this.manager.coordinateSpace.value.bounds.lowerBounds,
-        uppperBounds: this.manager.coordinateSpace.value.bounds.upperBounds,
-        voxelCenterAtIntegerCoordinates: [true, true, true],
+        lowerBounds: space.bounds.lowerBounds,
+        upperBounds: space.bounds.upperBounds,
+        voxelCenterAtIntegerCoordinates: new Array(space.rank).fill(true),
       },
       valid: true,
-    }
+    };
   }
 
   getDataSourceSpecifications(layerSpec: any): DataSourceSpecification[] {
-    const specs = []
-    specs.push({
-      enableDefaultSubsources: true,
-      subsources: new Map(),
-      transform: undefined,
-      url:  "zarr2://http://localhost:9000/scroll.zarr/"
-    })
-    return specs;
+    return [
+      {
+        enableDefaultSubsources: true,
+        subsources: new Map(),
+        url: this.dataSourceUrl,
+      },
+    ];
   }
 
   restoreState(specification: any) {
@@ -154,6 +195,10 @@ export class UserLayer extends RefCounted {
     }
   }
 
+  *readyRenderLayers() {
+    yield* this.renderLayers;
+  }
+
   addRenderLayer(layer: Owned<RenderLayer>) {
     this.renderLayers.push(layer);
     const { layersChanged } = this;
@@ -166,11 +211,12 @@ export class UserLayer extends RefCounted {
 export class ImageUserLayer extends UserLayer {
   layerChanged = new NullarySignal();
 
-  *readyRenderLayers() {
-    yield* this.renderLayers;
-  }
+  // Shader used unless the specification provides one; defaults to showing the data as grayscale.
+  static defaultFragmentMain: string | undefined;
 
-  fragmentMain = getTrackableFragmentMain();
+  fragmentMain = getTrackableFragmentMain(
+    (this.constructor as typeof ImageUserLayer).defaultFragmentMain,
+  );
   shaderError = makeWatchableShaderError();
   dataType = new WatchableValue<DataType | undefined>(undefined);
   sliceViewRenderScaleTarget = new WatchableValue(1);
@@ -197,14 +243,8 @@ export class ImageUserLayer extends UserLayer {
     ),
   );
 
-  addCoordinateSpace(
-    coordinateSpace: WatchableValueInterface<CoordinateSpace>,
-  ) {
-    const baseBinding = super.addCoordinateSpace(coordinateSpace);
-  }
-
-  constructor(manager: any) {
-    super(manager);
+  constructor(manager: LayerManager, dataSourceUrl: string) {
+    super(manager, dataSourceUrl);
     this.fragmentMain.changed.add(this.specificationChanged.dispatch);
     this.sliceViewRenderScaleTarget.changed.add(
       this.specificationChanged.dispatch,
@@ -268,6 +308,67 @@ export class ImageUserLayer extends UserLayer {
   static typeAbbreviation = "img";
 }
 
+// Colors each nonzero label by a hash of its value, and leaves the background transparent.
+const SEGMENTATION_FRAGMENT_MAIN = `highp uint hashLabel(highp uint x) {
+  x ^= x >> 16u;
+  x *= 0x7feb352du;
+  x ^= x >> 15u;
+  x *= 0x846ca68bu;
+  x ^= x >> 16u;
+  return x;
+}
+void main() {
+  uint64_t label = toUint64(getDataValue());
+  if (label.value[0] == 0u && label.value[1] == 0u) {
+    emitTransparent();
+    return;
+  }
+  highp uint hash = hashLabel(label.value[0] ^ hashLabel(label.value[1]));
+  vec3 color = vec3(
+    float(hash & 0xffu),
+    float((hash >> 8u) & 0xffu),
+    float((hash >> 16u) & 0xffu)) / 255.0;
+  emitRGBA(vec4(color, 0.5));
+}
+`;
+
+/**
+ * Layer showing a label image, such as an OME-NGFF label, with a distinct color for each label.
+ */
+export class SegmentationUserLayer extends ImageUserLayer {
+  static defaultFragmentMain = SEGMENTATION_FRAGMENT_MAIN;
+
+  activateDataSubsources(subsources: Iterable<LoadedDataSubsource>) {
+    const labelSubsources: LoadedDataSubsource[] = [];
+    for (const loadedSubsource of subsources) {
+      const { volume } = loadedSubsource.subsourceEntry.subsource;
+      if (
+        volume instanceof MultiscaleVolumeChunkSource &&
+        volume.dataType === DataType.FLOAT32
+      ) {
+        loadedSubsource.deactivate("Labels must have an integer data type");
+        continue;
+      }
+      labelSubsources.push(loadedSubsource);
+    }
+    super.activateDataSubsources(labelSubsources);
+  }
+
+  static type = "segmentation";
+  static typeAbbreviation = "seg";
+}
+
+const layerTypes = {
+  image: ImageUserLayer,
+  segmentation: SegmentationUserLayer,
+};
+
+export interface UserLayerSpecification {
+  type: keyof typeof layerTypes;
+  // Data source URL, e.g. `zarr2://filetree://FOLDER_NAME/example.zarr/`.
+  url: string;
+}
+
 export class MouseSelectionState {
   changed = new NullarySignal();
   coordinateSpace: CoordinateSpace = emptyInvalidCoordinateSpace;
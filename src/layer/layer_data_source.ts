@@ -187,7 +187,7 @@ export class LayerDataSource extends RefCounted {
     super();
     this.registerDisposer(this.changed.add(layer.dataSourcesChanged.dispatch));
     this.registerDisposer(layer.messages.addChild(this.messages));
-    // spec.url = "zarr2://http://localhost:9000/scroll.zarr/";
+    // spec.url = "zarr2://filetree://scroll.zarr/";
     this.spec = spec;
   }
 
@@ -273,7 +273,6 @@ export class LayerDataSource extends RefCounted {
         url: spec.url,
         cancellationToken,
         globalCoordinateSpace: layer.manager.coordinateSpace,
-        transform: spec.transform,
         state: spec.state,
       })
       .then((source: DataSource) => {
@@ -26,8 +26,9 @@ import { TrackableCoordinateSpace } from "#src/state/coordinate_transform.js";
 import { getDefaultDataSourceProvider } from "#src/datasource/default_provider.js";
 import type { DataSourceProviderRegistry } from "#src/datasource/index.js";
 import { DisplayContext } from "#src/layer/display_context.js";
+import type { UserLayerSpecification } from "#src/layer/index.js";
 import {
-  ImageUserLayer,
+  LayerManager,
   MouseSelectionState,
 } from "#src/layer/index.js";
 import { EventActionMap } from "#src/util/keyboard_bindings.js";
@@ -41,34 +42,118 @@ import {
 } from "#src/state/navigation_state.js";
 import { SliceViewPanel } from "#src/sliceview/panel.js";
 import { quat } from "#src/util/geom.js";
-import { handleFileBtnOnClick } from "#src/util/file_system.js";
+import {
+  handleFileBtnOnClick,
+  handleFolderDrop,
+  handleZipFileBtnOnClick,
+} from "#src/util/file_system.js";
+import type { FileTree } from "#src/util/file_tree.js";
+import { isDirectoryHandle } from "#src/util/file_tree.js";
+import { FILE_TREE_URL_PREFIX } from "#src/util/http_request.js";
+import { CancellationTokenSource } from "#src/util/cancellation.js";
+import { listDataSources } from "#src/datasource/browser.js";
+import { chooseDataSources } from "#src/datasource/browser_dialog.js";
+import type { LocalCacheMount } from "#src/util/local_cache.js";
+import {
+  getOpfsCacheDirectory,
+  MOUNT_LOCAL_CACHE_RPC_ID,
+  mountLocalCache,
+} from "#src/util/local_cache.js";
+import { CredentialsManager } from "#src/credentials_provider/frontend.js";
+import { setDefaultCredentialsProvider } from "#src/credentials_provider/index.js";
+
+// Credentials for remote data, also used by the worker.
+setDefaultCredentialsProvider(new CredentialsManager());
 
 /**
- * Creates and sets up the upload button for .zarr files
+ * Creates and sets up the upload buttons and drop target for .zarr folders and zip archives
  */
 makeUploadButton();
 
+// A remote store is opened right away, unless its local copy is to be kept in a selected folder
+const startParams = new URLSearchParams(window.location.search);
+if (startParams.get('remote') !== null && startParams.get('cache') !== 'folder') {
+  makeMinimalViewer();
+}
+
 function makeUploadButton() {
   const button = document.querySelector<HTMLButtonElement>('#upload');
-  if (button) { button.onclick = makeMinimalViewer; }
+  if (button) { button.onclick = () => makeMinimalViewer(handleFileBtnOnClick); }
+
+  const zipButton = document.querySelector<HTMLButtonElement>('#upload-zip');
+  if (zipButton) { zipButton.onclick = () => makeMinimalViewer(handleZipFileBtnOnClick); }
+
+  const container = document.querySelector<HTMLDivElement>('#upload-container');
+  if (container) {
+    container.ondragover = (event) => event.preventDefault();
+    container.ondrop = (event) => {
+      event.preventDefault();
+      makeMinimalViewer(() => handleFolderDrop(event.dataTransfer));
+    };
+  }
 }
 
 /**
  * Creates a minimal viewer for 3D volume data visualization
+ *
+ * @param getFileTree Obtains the folder to display, in the given access mode.  May be omitted
+ *     with a remote URL, which then needs no folder.
  */
-async function makeMinimalViewer() {
-  // Get the file tree (via file system api)
-  const fileTree = await handleFileBtnOnClick();
-
-  if (fileTree) {
-    (window as any).fileTree = fileTree;
-  } else {
-    console.log("No file tree found");
-    return;
-  }
-
+async function makeMinimalViewer(
+  getFileTree?: (mode: "read" | "readwrite") => Promise<FileTree | undefined>,
+) {
   // Parse URL parameters
   const urlParams = new URLSearchParams(window.location.search);
+  // A remote zarr URL is only cached if asked for: `cache=folder` keeps the local copy in the
+  // selected folder, and `cache=opfs` in the origin private file system
+  const remoteUrl = urlParams.get('remote');
+  const cache = urlParams.get('cache');
+  const cacheInFolder = remoteUrl !== null && cache === 'folder';
+
+  // Get the folder; with the file system api, files are resolved on demand
+  let fileTree: FileTree | undefined;
+  if (getFileTree !== undefined) {
+    fileTree = await getFileTree(cacheInFolder ? "readwrite" : "read");
+    if (fileTree) {
+      window.fileTree = fileTree;
+    } else {
+      console.log("No folder selected");
+      return;
+    }
+  }
+
+  // Only folders opened through the file system api can be written to
+  let localCache: LocalCacheMount | undefined;
+  if (remoteUrl !== null) {
+    const directory = cache === 'opfs'
+      ? await getOpfsCacheDirectory(remoteUrl)
+      : cacheInFolder && fileTree !== undefined && isDirectoryHandle(fileTree)
+        ? fileTree
+        : undefined;
+    if (directory !== undefined) {
+      localCache = { url: remoteUrl, directory };
+      mountLocalCache(remoteUrl, directory);
+    } else if (cacheInFolder) {
+      console.warn("The selected folder cannot be written to; remote files are not cached");
+    }
+  }
+
+  // Let the user choose the data to open from the remote root or the folder
+  const rootUrl = remoteUrl ?? `${FILE_TREE_URL_PREFIX}${encodeURIComponent(
+    fileTree !== undefined && isDirectoryHandle(fileTree) ? fileTree.name : "folder",
+  )}`;
+  const cancellation = new CancellationTokenSource();
+  const nodes = await chooseDataSources(
+    rootUrl,
+    listDataSources(rootUrl, cancellation),
+  );
+  cancellation.cancel();
+  if (nodes === undefined) {
+    console.log("No data selected");
+    return;
+  }
+  // One layer for each chosen node
+  const layers = nodes.map((node) => node.layer);
   const x = urlParams.get('x');
   const y = urlParams.get('y');
   const z = urlParams.get('z');
@@ -116,7 +201,7 @@ async function makeMinimalViewer() {
 
   // create display context and viewer
   const display = new DisplayContext(target);
-  const viewer = new Viewer(display);
+  const viewer = new Viewer(display, layers, localCache);
 
   // Function to update URL parameters with throttling
   let lastUpdateTime = 0;
@@ -212,7 +297,7 @@ export interface ViewerUIState {
   coordinateSpace: TrackableCoordinateSpace;
   chunkManager: ChunkManager;
   navigationState: NavigationState;
-  layerManager: ImageUserLayer;
+  layerManager: LayerManager;
 }
 
 /**
@@ -226,6 +311,7 @@ class DataManagementContext extends RefCounted {
 
   constructor(
     public gl: GL,
+    localCache?: LocalCacheMount,
   ) {
     super();
     
@@ -238,11 +324,16 @@ class DataManagementContext extends RefCounted {
     // Setup RPC communication with the worker
     this.rpc = new RPC(this.worker, true);
 
+    // Mount the local cache first, so that it is in place before any chunk source is created
+    if (localCache !== undefined) {
+      this.rpc.invoke(MOUNT_LOCAL_CACHE_RPC_ID, { ...localCache });
+    }
+
     // Handle worker ready state and file tree initialization
     this.worker.addEventListener("message", (e: MessageEvent<{ functionName: string }>) => {
       const isReady = e.data.functionName === READY_ID;
       if (isReady) {
-        this.worker.postMessage({ fileTree: (window as any).fileTree });
+        this.worker.postMessage({ fileTree: window.fileTree });
       }
     });
 
@@ -299,10 +390,14 @@ class Viewer extends RefCounted {
     { orientation: quat.create() }
   );
 
-  constructor(public display: DisplayContext) {
+  constructor(
+    public display: DisplayContext,
+    layers: UserLayerSpecification[],
+    localCache?: LocalCacheMount,
+  ) {
     super();
 
-    this.dataContext = new DataManagementContext(display.gl);
+    this.dataContext = new DataManagementContext(display.gl, localCache);
     this.visibility = new WatchableVisibilityPriority(Infinity);
     const dataSourceProvider: DataSourceProviderRegistry = getDefaultDataSourceProvider();
 
@@ -318,11 +413,16 @@ class Viewer extends RefCounted {
       Number.NEGATIVE_INFINITY,
     );
 
-    const layerManager = new ImageUserLayer({
-      chunkManager: this.dataContext.chunkManager,
-      coordinateSpace: this.coordinateSpace,
-      dataSourceProviderRegistry: dataSourceProvider,
-    });
+    const layerManager = this.registerDisposer(
+      new LayerManager(
+        this.dataContext.chunkManager,
+        this.coordinateSpace,
+        dataSourceProvider,
+      ),
+    );
+    for (const layer of layers) {
+      layerManager.addUserLayer(layer);
+    }
 
     // Create panel layout
     const panel = this.registerDisposer(
@@ -443,7 +543,7 @@ function updateChunks() {
     [20, 24, 52]
   ];
 
-  const { visibleSourcesList } = holder.layerManager.renderLayers[0];
+  const { visibleSourcesList } = holder.layerManager.userLayers[0].renderLayers[0];
   // 0: level 5, 1: level 4, 2: level 3, 3: level 2, 4: level 1, 5: level 0
   const source = visibleSourcesList[5].source;
       
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Decoder for chunks in the compressed_segmentation format.
+ *
+ * Only the uncompressed chunk format is supported by the frontend, so chunks are fully decoded on
+ * the backend.
+ */
+
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+import { convertEndian32, Endianness } from "#src/util/endian.js";
+
+function decodeChannel(
+  input: Uint32Array,
+  baseOffset: number,
+  output: Uint32Array,
+  outputOffset: number,
+  size: ArrayLike<number>,
+  blockSize: ArrayLike<number>,
+  uint32sPerElement: number,
+) {
+  const bx = blockSize[0];
+  const by = blockSize[1];
+  const bz = blockSize[2];
+  const sx = size[0];
+  const sy = size[1];
+  const sz = size[2];
+  const gx = Math.ceil(sx / bx);
+  const gy = Math.ceil(sy / by);
+  const gz = Math.ceil(sz / bz);
+  for (let z0 = 0, blockIndex = 0; z0 < gz; ++z0) {
+    for (let y0 = 0; y0 < gy; ++y0) {
+      for (let x0 = 0; x0 < gx; ++x0, ++blockIndex) {
+        const headerOffset = baseOffset + blockIndex * 2;
+        const header = input[headerOffset];
+        const tableOffset = baseOffset + (header & 0xffffff);
+        const encodedBits = header >>> 24;
+        const valuesOffset = baseOffset + input[headerOffset + 1];
+        const mask = encodedBits === 32 ? 0xffffffff : (1 << encodedBits) - 1;
+        // Encoded values cover the full block, even where it extends past the chunk.
+        const xEnd = Math.min(bx, sx - x0 * bx);
+        const yEnd = Math.min(by, sy - y0 * by);
+        const zEnd = Math.min(bz, sz - z0 * bz);
+        for (let z = 0; z < zEnd; ++z) {
+          for (let y = 0; y < yEnd; ++y) {
+            for (let x = 0; x < xEnd; ++x) {
+              let index = 0;
+              if (encodedBits !== 0) {
+                const bitOffset = ((z * by + y) * bx + x) * encodedBits;
+                const word = input[valuesOffset + (bitOffset >>> 5)];
+                index = (word >>> (bitOffset & 31)) & mask;
+              }
+              const outputIndex =
+                outputOffset +
+                (((z0 * bz + z) * sy + y0 * by + y) * sx + x0 * bx + x) *
+                  uint32sPerElement;
+              const valueOffset = tableOffset + index * uint32sPerElement;
+              for (let i = 0; i < uint32sPerElement; ++i) {
+                output[outputIndex + i] = input[valueOffset + i];
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+export async function decodeCompressedSegmentationChunk(
+  chunk: VolumeChunk,
+  cancellationToken: CancellationToken,
+  response: ArrayBuffer,
+  blockSize: ArrayLike<number>,
+) {
+  const { dataType } = chunk.source!.spec;
+  let uint32sPerElement: number;
+  switch (dataType) {
+    case DataType.UINT32:
+      uint32sPerElement = 1;
+      break;
+    case DataType.UINT64:
+      uint32sPerElement = 2;
+      break;
+    default:
+      throw new Error(
+        `compressed_segmentation encoding not supported for data type ` +
+          DataType[dataType].toLowerCase(),
+      );
+  }
+  if (response.byteLength % 4 !== 0) {
+    throw new Error(
+      `Invalid compressed_segmentation chunk length: ${response.byteLength}`,
+    );
+  }
+  const input = new Uint32Array(response);
+  convertEndian32(input, Endianness.LITTLE);
+  const chunkDataSize = chunk.chunkDataSize!;
+  const numChannels = chunkDataSize[3] ?? 1;
+  const channelSize =
+    chunkDataSize[0] * chunkDataSize[1] * chunkDataSize[2] * uint32sPerElement;
+  const output = new Uint32Array(channelSize * numChannels);
+  for (let channel = 0; channel < numChannels; ++channel) {
+    decodeChannel(
+      input,
+      input[channel],
+      output,
+      channel * channelSize,
+      chunkDataSize,
+      blockSize,
+      uint32sPerElement,
+    );
+  }
+  await postProcessRawData(chunk, cancellationToken, output);
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { postProcessRawData } from "#src/sliceview/backend_chunk_decoders/postprocess.js";
+import type { VolumeChunk } from "#src/sliceview/volume/backend.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { DataType } from "#src/util/data_type.js";
+
+/**
+ * Decodes a JPEG chunk using the browser's image decoder.
+ *
+ * The image has a width of `chunkDataSize[0]` and a height of `chunkDataSize[1] *
+ * chunkDataSize[2]`.  Each color component of a 3-channel image becomes a separate channel.
+ */
+export async function decodeJpegChunk(
+  chunk: VolumeChunk,
+  cancellationToken: CancellationToken,
+  response: ArrayBuffer,
+) {
+  const { dataType } = chunk.source!.spec;
+  if (dataType !== DataType.UINT8) {
+    throw new Error(
+      `jpeg encoding not supported for data type ${DataType[dataType].toLowerCase()}`,
+    );
+  }
+  const chunkDataSize = chunk.chunkDataSize!;
+  const numChannels = chunkDataSize[3] ?? 1;
+  if (numChannels !== 1 && numChannels !== 3) {
+    throw new Error(
+      `jpeg encoding requires 1 or 3 channels, but received: ${numChannels}`,
+    );
+  }
+  const width = chunkDataSize[0];
+  const height = chunkDataSize[1] * chunkDataSize[2];
+  const bitmap = await createImageBitmap(
+    new Blob([response], { type: "image/jpeg" }),
+    { colorSpaceConversion: "none", premultiplyAlpha: "none" },
+  );
+  let rgba: Uint8ClampedArray;
+  try {
+    if (bitmap.width !== width || bitmap.height !== height) {
+      throw new Error(
+        `JPEG chunk is ${bitmap.width}x${bitmap.height}, ` +
+          `but ${width}x${height} is expected`,
+      );
+    }
+    const context = new OffscreenCanvas(width, height).getContext("2d")!;
+    context.drawImage(bitmap, 0, 0);
+    rgba = context.getImageData(0, 0, width, height).data;
+  } finally {
+    bitmap.close();
+  }
+  const numPixels = width * height;
+  const data = new Uint8Array(numPixels * numChannels);
+  for (let channel = 0; channel < numChannels; ++channel) {
+    const outputOffset = channel * numPixels;
+    for (let i = 0; i < numPixels; ++i) {
+      data[outputOffset + i] = rgba[i * 4 + channel];
+    }
+  }
+  await postProcessRawData(chunk, cancellationToken, data);
+}
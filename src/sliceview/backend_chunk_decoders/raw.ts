@@ -42,7 +42,7 @@ export async function decodeRawChunk(
   }
   const data = makeDataTypeArrayView(dataType, response);
   if (endianness !== ENDIANNESS) {
-    convertEndian(data, bytesPerElement, endianness);
+    convertEndian(data, endianness, bytesPerElement);
   }
   await postProcessRawData(chunk, cancellationToken, data);
 }
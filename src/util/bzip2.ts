@@ -0,0 +1,362 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Decoder for the bzip2 compression format.
+ *
+ * Follows the structure of the reference implementation: each block is Huffman decoded into
+ * move-to-front indices, which are then undone along with the run-length encoding of zeros, the
+ * Burrows-Wheeler transform, and finally the initial run-length encoding.
+ */
+
+const BLOCK_MAGIC_HIGH = 0x314159;
+const BLOCK_MAGIC_LOW = 0x265359;
+const END_OF_STREAM_MAGIC_HIGH = 0x177245;
+const END_OF_STREAM_MAGIC_LOW = 0x385090;
+
+const GROUP_SIZE = 50;
+const MAX_CODE_LENGTH = 20;
+
+const RUNA = 0;
+const RUNB = 1;
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; ++i) {
+    let c = i << 24;
+    for (let j = 0; j < 8; ++j) {
+      c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+class BitReader {
+  private offset = 0;
+  private buffer = 0;
+  private bufferBits = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  get atEnd() {
+    return this.offset >= this.data.length;
+  }
+
+  // Reads up to 24 bits, most significant bit first.
+  read(count: number): number {
+    while (this.bufferBits < count) {
+      if (this.offset >= this.data.length) {
+        throw new Error("Unexpected end of bzip2 data");
+      }
+      this.buffer = (this.buffer << 8) | this.data[this.offset++];
+      this.bufferBits += 8;
+    }
+    this.bufferBits -= count;
+    return (this.buffer >>> this.bufferBits) & ((1 << count) - 1);
+  }
+
+  read32(): number {
+    return ((this.read(16) << 16) | this.read(16)) >>> 0;
+  }
+
+  alignToByte() {
+    this.bufferBits -= this.bufferBits % 8;
+  }
+}
+
+class OutputBuffer {
+  data: Uint8Array;
+  length = 0;
+
+  constructor(initialCapacity: number) {
+    this.data = new Uint8Array(Math.max(initialCapacity, 1024));
+  }
+
+  push(value: number) {
+    if (this.length === this.data.length) {
+      const newData = new Uint8Array(this.data.length * 2);
+      newData.set(this.data);
+      this.data = newData;
+    }
+    this.data[this.length++] = value;
+  }
+}
+
+interface HuffmanTable {
+  minLength: number;
+  maxLength: number;
+  // `limit[len]` is the largest code of length `len`.
+  limit: Int32Array;
+  // Maps a code of length `len` to an index into `symbols`.
+  base: Int32Array;
+  symbols: Uint16Array;
+}
+
+function makeHuffmanTable(lengths: Uint8Array): HuffmanTable {
+  let minLength = MAX_CODE_LENGTH;
+  let maxLength = 0;
+  for (const length of lengths) {
+    minLength = Math.min(minLength, length);
+    maxLength = Math.max(maxLength, length);
+  }
+  const symbols = new Uint16Array(lengths.length);
+  const limit = new Int32Array(MAX_CODE_LENGTH + 1);
+  const base = new Int32Array(MAX_CODE_LENGTH + 1);
+  let numSymbols = 0;
+  let code = 0;
+  for (let length = minLength; length <= maxLength; ++length) {
+    base[length] = numSymbols - code;
+    for (let symbol = 0; symbol < lengths.length; ++symbol) {
+      if (lengths[symbol] === length) {
+        symbols[numSymbols++] = symbol;
+        ++code;
+      }
+    }
+    limit[length] = code - 1;
+    code <<= 1;
+  }
+  return { minLength, maxLength, limit, base, symbols };
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable) {
+  let length = table.minLength;
+  let code = reader.read(length);
+  while (code > table.limit[length]) {
+    if (++length > table.maxLength) {
+      throw new Error("Invalid bzip2 Huffman code");
+    }
+    code = (code << 1) | reader.read(1);
+  }
+  return table.symbols[code + table.base[length]];
+}
+
+function decodeBlock(
+  reader: BitReader,
+  maxBlockSize: number,
+  tt: Uint32Array,
+  output: OutputBuffer,
+) {
+  const expectedCrc = reader.read32();
+  if (reader.read(1)) {
+    throw new Error("Randomized bzip2 blocks are not supported");
+  }
+  const origPtr = reader.read(24);
+
+  // Symbols present in the block.
+  const seqToUnseq = new Uint8Array(256);
+  let numInUse = 0;
+  const inUse16 = reader.read(16);
+  for (let i = 0; i < 16; ++i) {
+    if (!(inUse16 & (0x8000 >>> i))) continue;
+    const inUse = reader.read(16);
+    for (let j = 0; j < 16; ++j) {
+      if (inUse & (0x8000 >>> j)) {
+        seqToUnseq[numInUse++] = i * 16 + j;
+      }
+    }
+  }
+  if (numInUse === 0) {
+    throw new Error("Invalid bzip2 block: no symbols in use");
+  }
+  const alphaSize = numInUse + 2;
+  const endOfBlock = alphaSize - 1;
+
+  const numGroups = reader.read(3);
+  if (numGroups < 2 || numGroups > 6) {
+    throw new Error(`Invalid number of bzip2 Huffman groups: ${numGroups}`);
+  }
+  const numSelectors = reader.read(15);
+  if (numSelectors === 0) {
+    throw new Error("Invalid bzip2 block: no selectors");
+  }
+  // Selectors are move-to-front encoded.
+  const groupMtf = Array.from({ length: numGroups }, (_, i) => i);
+  const selectors = new Uint8Array(numSelectors);
+  for (let i = 0; i < numSelectors; ++i) {
+    let j = 0;
+    while (reader.read(1)) {
+      if (++j >= numGroups) {
+        throw new Error("Invalid bzip2 selector");
+      }
+    }
+    const group = groupMtf[j];
+    groupMtf.splice(j, 1);
+    groupMtf.unshift(group);
+    selectors[i] = group;
+  }
+
+  // Code lengths are delta encoded.
+  const tables: HuffmanTable[] = [];
+  for (let group = 0; group < numGroups; ++group) {
+    const lengths = new Uint8Array(alphaSize);
+    let length = reader.read(5);
+    for (let symbol = 0; symbol < alphaSize; ++symbol) {
+      while (true) {
+        if (length < 1 || length > MAX_CODE_LENGTH) {
+          throw new Error("Invalid bzip2 code length");
+        }
+        if (!reader.read(1)) break;
+        length += reader.read(1) ? -1 : 1;
+      }
+      lengths[symbol] = length;
+    }
+    tables.push(makeHuffmanTable(lengths));
+  }
+
+  // Undo the Huffman coding, the run-length encoding of zeros and the move-to-front transform.
+  const counts = new Int32Array(256);
+  const mtf = Array.from({ length: numInUse }, (_, i) => i);
+  let blockSize = 0;
+  let selectorIndex = 0;
+  let groupRemaining = 0;
+  let table = tables[0];
+  let runLength = 0;
+  let runWeight = 1;
+  while (true) {
+    if (groupRemaining === 0) {
+      if (selectorIndex >= numSelectors) {
+        throw new Error("Invalid bzip2 block: ran out of selectors");
+      }
+      table = tables[selectors[selectorIndex++]];
+      groupRemaining = GROUP_SIZE;
+    }
+    --groupRemaining;
+    const symbol = decodeSymbol(reader, table);
+    if (symbol === RUNA || symbol === RUNB) {
+      runLength += (symbol + 1) * runWeight;
+      runWeight *= 2;
+      if (runLength > maxBlockSize) {
+        throw new Error("Invalid bzip2 block: run exceeds block size");
+      }
+      continue;
+    }
+    if (runLength > 0) {
+      if (blockSize + runLength > maxBlockSize) {
+        throw new Error("Invalid bzip2 block: block size exceeded");
+      }
+      const value = seqToUnseq[mtf[0]];
+      counts[value] += runLength;
+      tt.fill(value, blockSize, blockSize + runLength);
+      blockSize += runLength;
+      runLength = 0;
+      runWeight = 1;
+    }
+    if (symbol === endOfBlock) break;
+    if (blockSize >= maxBlockSize) {
+      throw new Error("Invalid bzip2 block: block size exceeded");
+    }
+    const index = symbol - 1;
+    const seq = mtf[index];
+    mtf.splice(index, 1);
+    mtf.unshift(seq);
+    const value = seqToUnseq[seq];
+    ++counts[value];
+    tt[blockSize++] = value;
+  }
+  if (origPtr >= blockSize) {
+    throw new Error("Invalid bzip2 block: origPtr out of range");
+  }
+
+  // Undo the Burrows-Wheeler transform.  The low 8 bits of each entry of `tt` hold the byte
+  // value; the high 24 bits hold the index of the next entry.
+  const starts = new Int32Array(256);
+  for (let i = 0, sum = 0; i < 256; ++i) {
+    starts[i] = sum;
+    sum += counts[i];
+  }
+  for (let i = 0; i < blockSize; ++i) {
+    const value = tt[i] & 0xff;
+    tt[starts[value]++] |= i << 8;
+  }
+
+  // Undo the initial run-length encoding, in which 4 equal bytes are followed by a count of
+  // additional repetitions.
+  let crc = 0xffffffff;
+  const emit = (value: number) => {
+    output.push(value);
+    crc = (crc << 8) ^ crcTable[((crc >>> 24) ^ value) & 0xff];
+  };
+  let pos = tt[origPtr] >>> 8;
+  let last = -1;
+  let repeat = 0;
+  for (let i = 0; i < blockSize; ++i) {
+    const entry = tt[pos];
+    const value = entry & 0xff;
+    pos = entry >>> 8;
+    if (repeat === 4) {
+      for (let j = 0; j < value; ++j) emit(last);
+      repeat = 0;
+      last = -1;
+      continue;
+    }
+    if (value === last) {
+      ++repeat;
+    } else {
+      repeat = 1;
+      last = value;
+    }
+    emit(value);
+  }
+  if (~crc >>> 0 !== expectedCrc) {
+    throw new Error("bzip2 block checksum mismatch");
+  }
+}
+
+/**
+ * Decompresses bzip2-compressed data, which may consist of multiple concatenated streams.
+ */
+export function decodeBzip2(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  const output = new OutputBuffer(data.length * 4);
+  let tt: Uint32Array | undefined;
+  do {
+    if (
+      reader.read(8) !== 0x42 /* B */ ||
+      reader.read(8) !== 0x5a /* Z */ ||
+      reader.read(8) !== 0x68 /* h */
+    ) {
+      throw new Error("Invalid bzip2 header");
+    }
+    const level = reader.read(8) - 0x30;
+    if (level < 1 || level > 9) {
+      throw new Error(`Invalid bzip2 block size: ${level}`);
+    }
+    const maxBlockSize = level * 100000;
+    if (tt === undefined || tt.length < maxBlockSize) {
+      tt = new Uint32Array(maxBlockSize);
+    }
+    while (true) {
+      const magicHigh = reader.read(24);
+      const magicLow = reader.read(24);
+      if (magicHigh === BLOCK_MAGIC_HIGH && magicLow === BLOCK_MAGIC_LOW) {
+        decodeBlock(reader, maxBlockSize, tt, output);
+        continue;
+      }
+      if (
+        magicHigh === END_OF_STREAM_MAGIC_HIGH &&
+        magicLow === END_OF_STREAM_MAGIC_LOW
+      ) {
+        // Combined stream checksum; the block checksums have already been verified.
+        reader.read32();
+        reader.alignToByte();
+        break;
+      }
+      throw new Error("Invalid bzip2 block header");
+    }
+  } while (!reader.atEnd);
+  return output.data.subarray(0, output.length);
+}
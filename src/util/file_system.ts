@@ -1,29 +1,44 @@
-import { cancellableFetchOk, HttpError } from "#src/util/http_request.js";
-
-interface FileSystemDirectoryHandle {
-  kind: 'directory';
-  name: string;
-  values(): AsyncIterableIterator<FileSystemHandle>;
-  getDirectoryHandle(name: string): Promise<FileSystemDirectoryHandle>;
-}
-
-interface FileSystemHandle {
-  kind: 'file' | 'directory';
-  name: string;
-  getFile(): Promise<File>;
-}
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type { FileTree, FileTreeObject } from "#src/util/file_tree.js";
+import { ZIP_ARCHIVE_PATTERN } from "#src/util/file_tree.js";
+import { cancellableFetchOk, isNotFoundError } from "#src/util/http_request.js";
 
 declare global {
   interface Window {
-    showDirectoryPicker(): Promise<FileSystemDirectoryHandle>;
+    // Only available in Chromium-based browsers.
+    showDirectoryPicker?(options?: {
+      mode?: "read" | "readwrite";
+    }): Promise<FileSystemDirectoryHandle>;
+  }
+  interface DataTransferItem {
+    // Only available in Chromium-based browsers.
+    getAsFileSystemHandle?(): Promise<FileSystemHandle | null>;
   }
 }
 
-export const handleFileBtnOnClick = async () => {
+/**
+ * Prompts the user to pick a folder.
+ *
+ * Where the File System Access API is available, only the handle of the folder is obtained; its
+ * files are resolved on demand (see `file_tree.ts`), so that even a folder with millions of files
+ * opens instantly.  Other browsers fall back to `<input type="file" webkitdirectory>`, which lists
+ * every file of the folder up front and does not support writing.
+ *
+ * @param mode Use `"readwrite"` to also request permission to write to the folder.
+ */
+export const handleFileBtnOnClick = async (
+  mode: "read" | "readwrite" = "read",
+): Promise<FileTree | undefined> => {
+  if (window.showDirectoryPicker === undefined) {
+    const files = await pickDirectoryFiles();
+    if (files === undefined || files.length === 0) {
+      console.log('Directory selection was cancelled by user');
+      return;
+    }
+    return makeFileTreeFromFileList(files);
+  }
   try {
-    const directoryHandle = await window.showDirectoryPicker();
-    const dir = await readDirectory(directoryHandle);
-    return dir;
+    return await window.showDirectoryPicker({ mode });
   } catch (error: unknown) {
     if (error instanceof Error && error.name === 'AbortError') {
       console.log('Directory selection was cancelled by user');
@@ -33,56 +48,218 @@ export const handleFileBtnOnClick = async () => {
   }
 };
 
-async function readDirectory(
-  directoryHandle: FileSystemDirectoryHandle,
-  path = "",
-) {
-  const files: any = {};
+/**
+ * Prompts the user to pick a zip archive, such as a `.zarr.zip` store, which is opened as a folder
+ * containing only the archive.
+ */
+export const handleZipFileBtnOnClick = async (): Promise<
+  FileTree | undefined
+> => {
+  const files = await pickFiles((input) => {
+    input.accept = ".zip";
+  });
+  if (files === undefined || files.length === 0) {
+    console.log('File selection was cancelled by user');
+    return;
+  }
+  return makeFileTreeFromZipFile(files[0]);
+};
 
-  for await (const item of directoryHandle.values()) {
-    if (item.kind === "directory") {
-      const subDirectoryHandle = await directoryHandle.getDirectoryHandle(
-        item.name,
-      );
-      files[item.name] = await readDirectory(
-        subDirectoryHandle,
-        path + item.name + "/",
-      );
-    } else {
-      const file = await item.getFile();
-      files[item.name] = file;
+/**
+ * Returns the folder, or the zip archive as a folder containing only the archive, dropped by the
+ * user.
+ *
+ * Must be called synchronously from the `drop` event handler, since the items of `dataTransfer`
+ * are inaccessible afterwards.
+ */
+export const handleFolderDrop = async (
+  dataTransfer: DataTransfer | null,
+): Promise<FileTree | undefined> => {
+  const items = Array.from(dataTransfer?.items ?? []).filter(
+    (item) => item.kind === "file",
+  );
+  if (items.length !== 1) {
+    console.log('Exactly one folder or zip archive must be dropped');
+    return;
+  }
+  const [item] = items;
+  // The file must be obtained synchronously as well.
+  const file = item.getAsFile();
+  if (item.getAsFileSystemHandle !== undefined) {
+    const handle = await item.getAsFileSystemHandle();
+    if (handle?.kind === "directory") {
+      return handle as FileSystemDirectoryHandle;
+    }
+  } else {
+    const entry = item.webkitGetAsEntry();
+    if (entry?.isDirectory) {
+      return readDirectoryEntry(entry as FileSystemDirectoryEntry);
+    }
+  }
+  if (file !== null && ZIP_ARCHIVE_PATTERN.test(file.name)) {
+    return makeFileTreeFromZipFile(file);
+  }
+  console.log('Dropped item is neither a folder nor a zip archive');
+  return;
+};
+
+function pickDirectoryFiles() {
+  return pickFiles((input) => {
+    input.webkitdirectory = true;
+  });
+}
+
+function pickFiles(configure: (input: HTMLInputElement) => void) {
+  return new Promise<FileList | undefined>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    configure(input);
+    input.addEventListener("change", () => resolve(input.files ?? undefined));
+    input.addEventListener("cancel", () => resolve(undefined));
+    input.click();
+  });
+}
+
+// Builds the file tree of the selected folder from the paths, which include the name of the folder
+// itself, of its files.
+function makeFileTreeFromFileList(files: FileList) {
+  const root: FileTreeObject = {};
+  for (const file of files) {
+    const parts = file.webkitRelativePath.split("/").slice(1);
+    let directory = root;
+    for (const name of parts.slice(0, -1)) {
+      let child = directory[name];
+      if (child === undefined) {
+        child = directory[name] = {};
+      }
+      directory = child as FileTreeObject;
     }
+    directory[parts[parts.length - 1]] = file;
   }
+  return root;
+}
+
+function makeFileTreeFromZipFile(file: File): FileTreeObject {
+  return { [file.name]: file };
+}
 
+async function readDirectoryEntry(
+  directoryEntry: FileSystemDirectoryEntry,
+): Promise<FileTreeObject> {
+  const reader = directoryEntry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // Entries are returned in batches, until an empty batch.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const files: FileTreeObject = {};
+  await Promise.all(
+    entries.map(async (entry) => {
+      if (entry.isDirectory) {
+        files[entry.name] = await readDirectoryEntry(
+          entry as FileSystemDirectoryEntry,
+        );
+      } else {
+        files[entry.name] = await new Promise<File>((resolve, reject) =>
+          (entry as FileSystemFileEntry).file(resolve, reject),
+        );
+      }
+    }),
+  );
   return files;
 }
 
 export interface FileReadResponse {
   data: Uint8Array;
+  // Size of the entire file, which may exceed the length of `data` for a byte range request.
   totalSize: number;
 }
 
-export class FileReader {
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Either an explicit byte range, or the last `suffixLength` bytes of the file.
+ */
+export type ByteRangeRequest = ByteRange | { suffixLength: number };
+
+export interface FileReadOptions {
+  byteRange?: ByteRangeRequest;
+  cancellationToken?: CancellationToken;
+}
+
+/**
+ * Key-value interface shared by `FileReader` and the readers layered on top of it, such as the
+ * zarr sharding codec.
+ */
+export interface ReadableStore<Key> {
+  read(key: Key, options?: FileReadOptions): Promise<FileReadResponse | undefined>;
+}
+
+function getRangeHeader(byteRange: ByteRangeRequest) {
+  if ("suffixLength" in byteRange) {
+    return `bytes=-${byteRange.suffixLength}`;
+  }
+  return `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}`;
+}
+
+function sliceByteRange(data: Uint8Array, byteRange: ByteRangeRequest) {
+  if ("suffixLength" in byteRange) {
+    return data.subarray(Math.max(0, data.length - byteRange.suffixLength));
+  }
+  return data.subarray(byteRange.offset, byteRange.offset + byteRange.length);
+}
+
+export class FileReader implements ReadableStore<string> {
   constructor(public baseUrl: string) {}
 
-  async read(key: string): Promise<FileReadResponse | undefined> {
+  async read(
+    key: string,
+    options: FileReadOptions = {},
+  ): Promise<FileReadResponse | undefined> {
     const url = this.baseUrl + key;
+    const { byteRange, cancellationToken } = options;
+    const init: RequestInit = {};
+    if (byteRange !== undefined) {
+      if ("length" in byteRange && byteRange.length === 0) {
+        return { data: new Uint8Array(0), totalSize: 0 };
+      }
+      init.headers = { range: getRangeHeader(byteRange) };
+    }
+    let response: { status: number; contentRange: string | null; data: Uint8Array };
     try {
-      const { data } = await cancellableFetchOk(url, async (response) => ({
-        response,
-        data: await response.arrayBuffer(),
-      }));
+      response = await cancellableFetchOk(
+        url,
+        init,
+        async (response) => ({
+          status: response.status,
+          contentRange: response.headers.get("content-range"),
+          data: new Uint8Array(await response.arrayBuffer()),
+        }),
+        cancellationToken,
+      );
+    } catch (e) {
+      if (isNotFoundError(e)) return undefined;
+      throw e;
+    }
+    const { data } = response;
+    if (byteRange === undefined || response.status !== 206) {
+      // The server may ignore the `Range` header and return the entire file.
       return {
-        data: new Uint8Array(data),
-        totalSize: data.byteLength,
+        data: byteRange === undefined ? data : sliceByteRange(data, byteRange),
+        totalSize: data.length,
       };
-    } catch (e) {
-      // Only log non-404 errors
-      if (e instanceof HttpError && e.status === 404) {
-        return undefined;
-      }
-      console.error(`Failed to read file: ${url}`, e);
-      return undefined;
     }
+    const totalSize = response.contentRange?.match(/\/(\d+)$/)?.[1];
+    return {
+      data,
+      totalSize: totalSize === undefined ? data.length : Number(totalSize),
+    };
   }
 }
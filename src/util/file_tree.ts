@@ -0,0 +1,348 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Access to the files of the folder picked by the user.
+ *
+ * The folder is represented either by its `FileSystemDirectoryHandle`, in which case files are
+ * resolved on demand, or, if the File System Access API is unavailable, by a nested object mapping
+ * names to the `File` objects and subdirectories it contains.
+ *
+ * The members of zip archives within the folder, such as `.zarr.zip` stores, are accessible as if
+ * the archive were a directory, and the directories within an archive may be listed.  Only the
+ * central directory of an archive is read, after which stored members are served as slices of the
+ * archive without extracting it.
+ */
+
+import type {
+  FileReadOptions,
+  FileReadResponse,
+  ReadableStore,
+} from "#src/util/file_system.js";
+import { ZipCompressionMethod, ZipReader } from "#src/util/zip.js";
+
+export type FileTree = FileSystemDirectoryHandle | FileTreeObject;
+
+export interface FileTreeObject {
+  [name: string]: FileTreeObject | Blob;
+}
+
+// Maximum number of directory handles cached for each root directory.
+const DIRECTORY_HANDLE_CACHE_SIZE = 1024;
+
+// Directory handles by path relative to the root directory, in least recently used order.
+const directoryHandleCache = new WeakMap<
+  FileSystemDirectoryHandle,
+  Map<string, Promise<FileSystemDirectoryHandle | undefined>>
+>();
+
+// Files with this extension are treated as zip archives when a path continues past them.
+export const ZIP_ARCHIVE_PATTERN = /\.zip$/i;
+
+interface ZipArchive {
+  file: Blob;
+  reader: ZipReader;
+  // Names of the directories of the archive, each ending in `/`.
+  directories?: Promise<Set<string>>;
+}
+
+// Opened zip archives by path relative to the root directory.
+const zipArchiveCache = new WeakMap<FileTree, Map<string, ZipArchive>>();
+
+/**
+ * Directory within a zip archive, consisting of the members whose names start with `prefix`.
+ */
+export class ZipArchiveDirectory {
+  constructor(
+    public archive: ZipArchive,
+    // Empty for the root directory of the archive, and otherwise ending in `/`.
+    public prefix: string,
+  ) {}
+}
+
+// Serves the contents of a single blob, regardless of the key.
+class BlobStore implements ReadableStore<string> {
+  constructor(private blob: Blob) {}
+
+  async read(
+    _key: string,
+    options: FileReadOptions = {},
+  ): Promise<FileReadResponse | undefined> {
+    const { byteRange } = options;
+    const totalSize = this.blob.size;
+    let offset = 0;
+    let length = totalSize;
+    if (byteRange !== undefined) {
+      if ("suffixLength" in byteRange) {
+        length = Math.min(byteRange.suffixLength, totalSize);
+        offset = totalSize - length;
+      } else {
+        offset = Math.min(byteRange.offset, totalSize);
+        length = Math.min(byteRange.length, totalSize - offset);
+      }
+    }
+    const data = new Uint8Array(
+      await this.blob.slice(offset, offset + length).arrayBuffer(),
+    );
+    return { data, totalSize };
+  }
+}
+
+// Files obtained from a `FileSystemFileHandle` are distinct objects for each access.
+function isSameFile(a: Blob, b: Blob) {
+  return (
+    a === b ||
+    (a instanceof File &&
+      b instanceof File &&
+      a.size === b.size &&
+      a.lastModified === b.lastModified)
+  );
+}
+
+function getZipArchive(tree: FileTree, path: string[], file: Blob) {
+  let cache = zipArchiveCache.get(tree);
+  if (cache === undefined) {
+    cache = new Map();
+    zipArchiveCache.set(tree, cache);
+  }
+  const key = path.join("/");
+  let archive = cache.get(key);
+  if (archive === undefined || !isSameFile(archive.file, file)) {
+    archive = { file, reader: new ZipReader(new BlobStore(file), key) };
+    cache.set(key, archive);
+  }
+  return archive;
+}
+
+/**
+ * Returns the names of the directories of `archive`, including the ones implied by the names of
+ * their members, which are determined once the members are read.
+ */
+function getZipDirectories(archive: ZipArchive) {
+  if (archive.directories === undefined) {
+    const directories = archive.reader.getEntries().then((entries) => {
+      const names = new Set<string>();
+      for (const memberName of entries.keys()) {
+        // The parents of a directory already in the set are in the set as well.
+        for (
+          let end = memberName.lastIndexOf("/");
+          end > 0 && !names.has(memberName.slice(0, end + 1));
+          end = memberName.lastIndexOf("/", end - 1)
+        ) {
+          names.add(memberName.slice(0, end + 1));
+        }
+      }
+      return names;
+    });
+    archive.directories = directories;
+    // Allow retrying after a failure.
+    directories.catch(() => {
+      archive.directories = undefined;
+    });
+  }
+  return archive.directories;
+}
+
+async function getZipMember(
+  archive: ZipArchive,
+  name: string,
+): Promise<Blob | ZipArchiveDirectory | undefined> {
+  const { reader, file } = archive;
+  const entries = await reader.getEntries();
+  const entry = entries.get(name);
+  if (entry === undefined) {
+    // Directories need not have entries of their own.
+    const prefix = `${name}/`;
+    if ((await getZipDirectories(archive)).has(prefix)) {
+      return new ZipArchiveDirectory(archive, prefix);
+    }
+    return undefined;
+  }
+  if (entry.compressionMethod === ZipCompressionMethod.STORED) {
+    const dataOffset = await reader.getDataOffset(entry);
+    return file.slice(dataOffset, dataOffset + entry.compressedSize);
+  }
+  // Compressed members are decompressed in their entirety.
+  const response = await reader.read(name);
+  return response && new Blob([response.data]);
+}
+
+export function isDirectoryHandle(
+  entry: FileTree | Blob,
+): entry is FileSystemDirectoryHandle {
+  return (
+    !(entry instanceof Blob) &&
+    typeof (entry as FileSystemDirectoryHandle).getDirectoryHandle === "function"
+  );
+}
+
+function isNotFoundError(e: unknown) {
+  return (
+    e instanceof DOMException &&
+    (e.name === "NotFoundError" || e.name === "TypeMismatchError")
+  );
+}
+
+function getDirectoryHandle(
+  root: FileSystemDirectoryHandle,
+  path: string[],
+): Promise<FileSystemDirectoryHandle | undefined> {
+  if (path.length === 0) return Promise.resolve(root);
+  let cache = directoryHandleCache.get(root);
+  if (cache === undefined) {
+    cache = new Map();
+    directoryHandleCache.set(root, cache);
+  }
+  const key = path.join("/");
+  let promise = cache.get(key);
+  if (promise !== undefined) {
+    // Move to the end of the least recently used order.
+    cache.delete(key);
+    cache.set(key, promise);
+    return promise;
+  }
+  promise = (async () => {
+    const parent = await getDirectoryHandle(root, path.slice(0, -1));
+    if (parent === undefined) return undefined;
+    try {
+      return await parent.getDirectoryHandle(path[path.length - 1]);
+    } catch (e) {
+      if (isNotFoundError(e)) return undefined;
+      throw e;
+    }
+  })();
+  cache.set(key, promise);
+  if (cache.size > DIRECTORY_HANDLE_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  // Missing directories may be created later, so only handles that were found remain cached.
+  const uncache = () => {
+    if (cache.get(key) === promise) cache.delete(key);
+  };
+  promise.then((handle) => {
+    if (handle === undefined) uncache();
+  }, uncache);
+  return promise;
+}
+
+/**
+ * Returns the file or directory at `path` within `tree`, or `undefined` if there is none.
+ */
+export async function getFileTreeEntry(
+  tree: FileTree | undefined,
+  path: string[],
+): Promise<FileTree | ZipArchiveDirectory | Blob | undefined> {
+  if (tree === undefined) return undefined;
+  const archiveEnd =
+    path.findIndex((name) => ZIP_ARCHIVE_PATTERN.test(name)) + 1;
+  if (archiveEnd > 0 && archiveEnd < path.length) {
+    const archivePath = path.slice(0, archiveEnd);
+    const file = await getDirectoryEntry(tree, archivePath);
+    if (file instanceof Blob) {
+      return getZipMember(
+        getZipArchive(tree, archivePath, file),
+        path.slice(archiveEnd).join("/"),
+      );
+    }
+  }
+  return getDirectoryEntry(tree, path);
+}
+
+/**
+ * Returns the directory at `path` within `tree`, or `undefined` if there is none.  A zip archive is
+ * treated as a directory.
+ */
+export async function getFileTreeDirectory(
+  tree: FileTree | undefined,
+  path: string[],
+): Promise<FileTree | ZipArchiveDirectory | undefined> {
+  const entry = await getFileTreeEntry(tree, path);
+  if (!(entry instanceof Blob)) return entry;
+  const archiveEnd =
+    path.findIndex((name) => ZIP_ARCHIVE_PATTERN.test(name)) + 1;
+  if (archiveEnd !== path.length) return undefined;
+  return new ZipArchiveDirectory(getZipArchive(tree!, path, entry), "");
+}
+
+async function getDirectoryEntry(
+  tree: FileTree,
+  path: string[],
+): Promise<FileTree | Blob | undefined> {
+  if (isDirectoryHandle(tree)) {
+    if (path.length === 0) return tree;
+    const directory = await getDirectoryHandle(tree, path.slice(0, -1));
+    if (directory === undefined) return undefined;
+    const name = path[path.length - 1];
+    try {
+      const handle = await directory.getFileHandle(name);
+      return await handle.getFile();
+    } catch (e) {
+      if (!isNotFoundError(e)) throw e;
+    }
+    return getDirectoryHandle(tree, path);
+  }
+  let entry: FileTree | Blob = tree;
+  for (const name of path) {
+    if (
+      entry instanceof Blob ||
+      !Object.prototype.hasOwnProperty.call(entry, name)
+    ) {
+      return undefined;
+    }
+    entry = (entry as FileTreeObject)[name];
+  }
+  return entry;
+}
+
+/**
+ * Returns the names of the files, or of the subdirectories if `kind` is `"directory"`, directly
+ * within `directory`.
+ */
+export async function listFileTreeDirectory(
+  directory: FileTree | ZipArchiveDirectory,
+  kind: FileSystemHandleKind = "file",
+): Promise<string[]> {
+  if (directory instanceof ZipArchiveDirectory) {
+    const { archive, prefix } = directory;
+    const names = new Set<string>();
+    for (const memberName of (await archive.reader.getEntries()).keys()) {
+      if (!memberName.startsWith(prefix)) continue;
+      const relativeName = memberName.slice(prefix.length);
+      const separator = relativeName.indexOf("/");
+      if (kind === "directory") {
+        // Members of subdirectories, and the entries of the subdirectories themselves, end in `/`.
+        if (separator > 0) names.add(relativeName.slice(0, separator));
+      } else if (separator === -1 && relativeName !== "") {
+        names.add(relativeName);
+      }
+    }
+    return Array.from(names);
+  }
+  if (isDirectoryHandle(directory)) {
+    const names: string[] = [];
+    // `values` is missing from the TypeScript DOM library without `DOM.AsyncIterable`.
+    const entries = (
+      directory as unknown as { values(): AsyncIterable<FileSystemHandle> }
+    ).values();
+    for await (const entry of entries) {
+      if (entry.kind === kind) names.push(entry.name);
+    }
+    return names;
+  }
+  return Object.keys(directory).filter(
+    (name) => (directory[name] instanceof Blob) === (kind === "file"),
+  );
+}
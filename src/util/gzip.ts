@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { CancellationToken } from "#src/util/cancellation.js";
+import {
+  CANCELED,
+  CancellationError,
+  throwIfCanceled,
+  uncancelableToken,
+} from "#src/util/cancellation.js";
+
+/**
+ * Decompresses `data` using the browser's built-in `DecompressionStream`.
+ *
+ * @param format `"gzip"` for gzip-wrapped data, `"deflate"` for zlib-wrapped data, or
+ * `"deflate-raw"` for raw deflate data.
+ */
+export async function decodeGzip(
+  data: ArrayBuffer | ArrayBufferView,
+  format: CompressionFormat,
+  cancellationToken: CancellationToken = uncancelableToken,
+): Promise<ArrayBuffer> {
+  throwIfCanceled(cancellationToken);
+  const reader = new Response(data)
+    .body!.pipeThrough(new DecompressionStream(format))
+    .getReader();
+  // Canceling the reader stops the decompression, and ends the pending read.
+  const unregisterCancellation = cancellationToken.add(() => {
+    reader.cancel(CANCELED).catch(() => {});
+  });
+  try {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      length += value.length;
+    }
+    throwIfCanceled(cancellationToken);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result.buffer;
+  } catch (e) {
+    if (e instanceof CancellationError) throw e;
+    throwIfCanceled(cancellationToken);
+    throw new Error(`Failed to decode ${format}`);
+  } finally {
+    unregisterCancellation();
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Uint64 } from "#src/util/uint64.js";
+
+function rotl32(x: number, r: number) {
+  return (x << r) | (x >>> (32 - r));
+}
+
+function fmix32(h: number) {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h;
+}
+
+/**
+ * Computes the low 64 bits of the MurmurHash3_x86_128 hash of the 8-byte little-endian encoding
+ * of `(high << 32) | low`.
+ */
+export function murmurHash3_x86_128Hash64Bits(
+  out: Uint64,
+  seed: number,
+  low: number,
+  high: number,
+) {
+  const c1 = 0x239b961b;
+  const c2 = 0xab0e9789;
+  const c3 = 0x38b34ae5;
+  const length = 8;
+
+  let h1 = seed;
+  let h2 = seed;
+  let h3 = seed;
+  let h4 = seed;
+
+  // The input is shorter than a single 16-byte block, and is entirely processed as the tail.
+  let k2 = Math.imul(high, c2);
+  k2 = rotl32(k2, 16);
+  k2 = Math.imul(k2, c3);
+  h2 ^= k2;
+
+  let k1 = Math.imul(low, c1);
+  k1 = rotl32(k1, 15);
+  k1 = Math.imul(k1, c2);
+  h1 ^= k1;
+
+  h1 ^= length;
+  h2 ^= length;
+  h3 ^= length;
+  h4 ^= length;
+
+  h1 = (h1 + h2) | 0;
+  h1 = (h1 + h3) | 0;
+  h1 = (h1 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+  h3 = (h3 + h1) | 0;
+  h4 = (h4 + h1) | 0;
+
+  h1 = fmix32(h1);
+  h2 = fmix32(h2);
+  h3 = fmix32(h3);
+  h4 = fmix32(h4);
+
+  h1 = (h1 + h2) | 0;
+  h1 = (h1 + h3) | 0;
+  h1 = (h1 + h4) | 0;
+  h2 = (h2 + h1) | 0;
+
+  out.low = h1 >>> 0;
+  out.high = h2 >>> 0;
+  return out;
+}
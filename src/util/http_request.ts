@@ -14,9 +14,30 @@
  * limitations under the License.
  */
 
+import type { CredentialsWithGeneration } from "#src/credentials_provider/index.js";
+import {
+  applyCredentials,
+  getDefaultCredentialsProvider,
+} from "#src/credentials_provider/index.js";
+import type { CancellationToken } from "#src/util/cancellation.js";
+import { CANCELED, uncancelableToken } from "#src/util/cancellation.js";
+import type { FileTree } from "#src/util/file_tree.js";
+import {
+  getFileTreeDirectory,
+  getFileTreeEntry,
+  listFileTreeDirectory,
+} from "#src/util/file_tree.js";
+import {
+  getLocalCacheRanges,
+  readLocalCache,
+  readLocalCacheRange,
+  writeLocalCache,
+  writeLocalCacheRange,
+} from "#src/util/local_cache.js";
+
 declare global {
   interface Window {
-    fileTree: any;
+    fileTree: FileTree | undefined;
   }
 }
 
@@ -92,46 +113,296 @@ export function pickDelay(attemptNumber: number): number {
 }
 
 /**
- * Issues a `fetch` request.
+ * Returns a promise that resolves after `milliseconds`, or rejects with `CANCELED` once `signal` is
+ * aborted.
+ */
+function delay(milliseconds: number, signal: AbortSignal | null | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(CANCELED);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(CANCELED);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * URL prefix under which the folder picked by the user is served from `self.fileTree`.  The first
+ * path component of a URL with this prefix names the picked folder itself, e.g.
+ * `filetree://scroll.zarr/.zarray`.  The scheme cannot collide with a real server, so requests for
+ * any other URL are issued over the network.
+ */
+export const FILE_TREE_URL_PREFIX = "filetree://";
+
+function isFileTreeUrl(url: string) {
+  return url.startsWith(FILE_TREE_URL_PREFIX);
+}
+
+function getFilePath(input: string) {
+  // Opaque URLs are not normalized by `URL`, so the path is split directly.
+  const path = input
+    .substring(FILE_TREE_URL_PREFIX.length)
+    .replace(/[?#].*$/, "");
+  return path
+    .split("/")
+    .filter((part) => part.length > 0)
+    .slice(1)
+    .map(decodeURIComponent);
+}
+
+function getFile(input: string) {
+  return getFileTreeEntry(self.fileTree, getFilePath(input));
+}
+
+/**
+ * Returns the names of the files, or of the subdirectories if `kind` is `"directory"`, directly
+ * within the directory at `url` in the file tree, or `undefined` if `url` does not refer to a
+ * directory.  Zip archives, and the directories within them, may be listed as well.
+ */
+export async function listDirectory(
+  url: string,
+  kind: FileSystemHandleKind = "file",
+): Promise<string[] | undefined> {
+  // Remote directories cannot be listed.
+  if (!isFileTreeUrl(url)) return undefined;
+  const directory = await getFileTreeDirectory(self.fileTree, getFilePath(url));
+  if (directory === undefined) return undefined;
+  return listFileTreeDirectory(directory, kind);
+}
+
+/**
+ * Returns the byte range `[start, end)` of a file of `size` bytes requested by the `Range` header
+ * value `range`, in the same way as an HTTP server.
+ */
+function parseRangeHeader(range: string, size: number) {
+  const m = range.match(/^bytes=(\d*)-(\d*)$/);
+  if (m === null || (m[1] === "" && m[2] === "")) {
+    throw new Error(`Invalid range header: ${JSON.stringify(range)}`);
+  }
+  let start: number;
+  let end: number;
+  if (m[1] === "") {
+    // Suffix range: the last `n` bytes.
+    start = Math.max(0, size - Number(m[2]));
+    end = size;
+  } else {
+    start = Math.min(Number(m[1]), size);
+    end = m[2] === "" ? size : Math.min(Number(m[2]) + 1, size);
+  }
+  return { start, end };
+}
+
+/**
+ * Answers a range request with `data`, the bytes `[start, end)` of a file of `size` bytes.
+ */
+function makeRangeResponse(
+  data: Blob,
+  start: number,
+  end: number,
+  size: number,
+): Response {
+  const contentRange =
+    end > start ? `bytes ${start}-${end - 1}/${size}` : `bytes */${size}`;
+  return new Response(data, {
+    status: 206,
+    headers: { "content-range": contentRange },
+  });
+}
+
+/**
+ * Answers a request for a local file, applying the `Range` header of `init`, if any, in the same way
+ * as an HTTP server.
+ */
+function makeFileResponse(file: Blob, init: RequestInit): Response {
+  const range = new Headers(init.headers).get("range");
+  if (range === null) return new Response(file, { status: 200 });
+  const { size } = file;
+  const { start, end } = parseRangeHeader(range, size);
+  return makeRangeResponse(file.slice(start, end), start, end, size);
+}
+
+/**
+ * Issues a `fetch` request, or reads the file from the file tree if `input` has the
+ * `FILE_TREE_URL_PREFIX`.
  *
  * If the request fails due to an HTTP status outside `[200, 300)`, throws an `HttpError`.  If the
  * request fails due to a network or CORS restriction, throws an `HttpError` with a `status` of `0`.
  *
  * If the request fails due to a transient error (429, 503, 504), retry.
+ *
+ * If `init.signal` is aborted, throws `CANCELED`.
  */
-async function getFile(input: string, fileTree: any) {
-  let res = fileTree;
-  // console.log("File Tree: ", fileTree, input);
-
-  const path = new URL(input).pathname;
-  const parts = path
-    .split("/")
-    .filter((part) => part.length > 0)
-    .slice(1);
-
-  for (const part of parts) {
-    if (res === undefined || res[part] === undefined) {
-      return undefined;
+async function fetchOk(
+  input: RequestInfo,
+  init: RequestInit = {},
+): Promise<Response> {
+  const url = typeof input === "string" ? input : input.url;
+  if (isFileTreeUrl(url)) {
+    if (init.signal?.aborted) throw CANCELED;
+    const file = await getFile(url);
+    if (!(file instanceof Blob)) {
+      throw new HttpError(url, 404, "File not found");
+    }
+    return makeFileResponse(file, init);
+  }
+  for (let requestAttempt = 0; ; ) {
+    let response: Response;
+    try {
+      response = await fetch(input, init);
+    } catch (error) {
+      if (init.signal?.aborted) throw CANCELED;
+      throw HttpError.fromRequestError(input, error);
+    }
+    if (
+      response.status === 429 ||
+      response.status === 503 ||
+      response.status === 504
+    ) {
+      if (++requestAttempt !== maxAttempts) {
+        await delay(pickDelay(requestAttempt - 1), init.signal);
+        continue;
+      }
+    }
+    if (!response.ok) {
+      throw HttpError.fromResponse(response);
     }
-    res = res[part];
+    return response;
   }
+}
 
-  return res;
+/**
+ * Issues a request in the same way as `fetchOk`, attaching the credentials for the origin of
+ * `input` from the default `CredentialsProvider`, if any.
+ *
+ * If the request is rejected with a 401 status, it is retried with fresh credentials, for which the
+ * user may be prompted.
+ */
+async function fetchOkWithCredentials(
+  input: RequestInfo,
+  init: RequestInit,
+): Promise<Response> {
+  const url = typeof input === "string" ? input : input.url;
+  const provider = getDefaultCredentialsProvider();
+  if (provider === undefined || isFileTreeUrl(url)) {
+    return fetchOk(input, init);
+  }
+  const { origin } = new URL(url);
+  let credentials: CredentialsWithGeneration | undefined = await provider.get(
+    origin,
+    { prompt: false },
+  );
+  while (true) {
+    try {
+      return await fetchOk(
+        input,
+        applyCredentials(init, credentials?.credentials),
+      );
+    } catch (e) {
+      if (!(e instanceof HttpError) || e.status !== 401) throw e;
+      const newCredentials = await provider.get(origin, {
+        invalidCredentials: credentials,
+        prompt: true,
+      });
+      if (newCredentials === undefined) throw e;
+      credentials = newCredentials;
+    }
+  }
 }
 
-async function fetchOk(input: RequestInfo): Promise<Response> {
-  let response: Response;
+/**
+ * Answers a range request for the remote file at `url` from the byte ranges of it in the local
+ * cache, or returns `undefined` if the requested range is not contained in a single cached range.
+ */
+async function readCachedRange(
+  url: string,
+  range: string,
+): Promise<Response | undefined> {
+  const cachedRanges = await getLocalCacheRanges(url);
+  if (cachedRanges.length === 0) return undefined;
+  const { totalSize } = cachedRanges[0];
+  const { start, end } = parseRangeHeader(range, totalSize);
+  const cachedRange = cachedRanges.find(
+    (r) => r.start <= start && r.end >= end,
+  );
+  if (cachedRange === undefined) return undefined;
+  const data = await readLocalCacheRange(url, cachedRange);
+  if (data === undefined) return undefined;
+  return makeRangeResponse(
+    data.slice(start - cachedRange.start, end - cachedRange.start),
+    start,
+    end,
+    totalSize,
+  );
+}
 
-  const result = await getFile(input.toString(), self.fileTree);
-  if (result === undefined) {
-    const error = new HttpError(
-      typeof input === 'string' ? input : input.url,
-      404,
-      'File not found'
-    );
-    throw error;
+/**
+ * Issues a request in the same way as `fetchOkWithCredentials`, using the local cache for remote
+ * files (see `local_cache.ts`).
+ *
+ * A cached file answers any request for it, including byte range requests.  Otherwise, a byte
+ * range request is answered from a cached byte range that contains it.
+ */
+async function fetchOkWithLocalCache(
+  input: RequestInfo,
+  init: RequestInit,
+): Promise<Response> {
+  const url = typeof input === "string" ? input : input.url;
+  const method = init.method ?? "GET";
+  if (isFileTreeUrl(url) || method !== "GET") {
+    return fetchOkWithCredentials(input, init);
+  }
+  const cached = await readLocalCache(url);
+  if (cached !== undefined) {
+    if (init.signal?.aborted) throw CANCELED;
+    return makeFileResponse(cached, init);
+  }
+  const range = new Headers(init.headers).get("range");
+  if (range !== null) {
+    const cachedRange = await readCachedRange(url, range);
+    if (cachedRange !== undefined) {
+      if (init.signal?.aborted) throw CANCELED;
+      return cachedRange;
+    }
+  }
+  const response = await fetchOkWithCredentials(input, init);
+  // The copy is read and written in the background; it fails along with the original response if
+  // the request is aborted.
+  if (response.status === 200) {
+    // A 200 status indicates the complete file, even if a byte range was requested.
+    response
+      .clone()
+      .blob()
+      .then(
+        (data) => writeLocalCache(url, data),
+        () => {},
+      );
+  } else if (response.status === 206) {
+    const m = response.headers
+      .get("content-range")
+      ?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+    if (m) {
+      const cachedRange = {
+        start: Number(m[1]),
+        end: Number(m[2]) + 1,
+        totalSize: Number(m[3]),
+      };
+      response
+        .clone()
+        .blob()
+        .then(
+          (data) => writeLocalCacheRange(url, cachedRange, data),
+          () => {},
+        );
+    }
   }
-  response = result;
   return response;
 }
 
@@ -147,20 +418,42 @@ export async function responseJson(response: Response): Promise<any> {
 export type ResponseTransform<T> = (response: Response) => Promise<T>;
 
 /**
- * Issues a `fetch` request in the same way as `fetchOk`, and returns the result of the promise
+ * Issues a `fetch` request in the same way as `fetchOkWithLocalCache`, and returns the result of the promise
  * returned by `transformResponse`.
  *
- * Additionally, the request may be cancelled through `cancellationToken`.
+ * Additionally, the request may be cancelled through `cancellationToken`, which aborts the network
+ * transfer and rejects the returned promise with `CANCELED`.
  *
  * The `transformResponse` function should not do anything with the `Response` object after its
  * result becomes ready; otherwise, cancellation may not work as expected.
  */
 export async function cancellableFetchOk<T>(
   input: RequestInfo,
+  init: RequestInit,
   transformResponse: ResponseTransform<T>,
+  cancellationToken: CancellationToken = uncancelableToken,
 ): Promise<T> {
-  const response = await fetchOk(input);
-  return await transformResponse(response);
+  if (cancellationToken === uncancelableToken) {
+    const response = await fetchOkWithLocalCache(input, init);
+    return await transformResponse(response);
+  }
+  const abortController = new AbortController();
+  const unregisterCancellation = cancellationToken.add(() =>
+    abortController.abort(),
+  );
+  try {
+    const response = await fetchOkWithLocalCache(input, {
+      ...init,
+      signal: abortController.signal,
+    });
+    return await transformResponse(response);
+  } catch (e) {
+    // Reading the body of an aborted response fails with an `AbortError`.
+    if (cancellationToken.isCanceled) throw CANCELED;
+    throw e;
+  } finally {
+    unregisterCancellation();
+  }
 }
 
 export function isNotFoundError(e: any) {
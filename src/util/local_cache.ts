@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Write-through cache of remote files in a local directory.
+ *
+ * Remote files are cached only under the base URLs for which a directory has been mounted, either
+ * a directory picked by the user or one in the origin private file system (OPFS) under
+ * `remote-cache/HOST/PATH`.  A remote file is stored at the path given by its URL relative to the
+ * base URL, so that a cached zarr store has the same layout on disk as the remote store.  Byte
+ * ranges of files that are requested only in part are stored separately, as the files
+ * `START-END-SIZE` of the directory `NAME.ranges` next to the path of the file.
+ */
+
+import { listFileTreeDirectory } from "#src/util/file_tree.js";
+import { registerRPC } from "#src/worker/worker_rpc.js";
+
+export const MOUNT_LOCAL_CACHE_RPC_ID = "localCache.mount";
+
+const OPFS_CACHE_DIRECTORY_NAME = "remote-cache";
+
+const RANGES_SUFFIX = ".ranges";
+
+export interface LocalCacheMount {
+  // Base URL, ending in `/`.
+  url: string;
+  directory: FileSystemDirectoryHandle;
+}
+
+const mounts: LocalCacheMount[] = [];
+
+/**
+ * Caches remote files under `url` in `directory`, which must have been granted write permission.
+ */
+export function mountLocalCache(url: string, directory: FileSystemDirectoryHandle) {
+  url = url.replace(/\/*$/, "/");
+  const index = mounts.findIndex((mount) => mount.url === url);
+  if (index !== -1) mounts.splice(index, 1);
+  mounts.push({ url, directory });
+  // Longer base URLs take precedence.
+  mounts.sort((a, b) => b.url.length - a.url.length);
+}
+
+registerRPC(MOUNT_LOCAL_CACHE_RPC_ID, function (x: LocalCacheMount) {
+  mountLocalCache(x.url, x.directory);
+});
+
+/**
+ * Returns the directory in which remote files under `url` are cached in the origin private file
+ * system, creating it if necessary, or `undefined` if OPFS is unavailable, e.g. in a private
+ * browsing window.
+ */
+export async function getOpfsCacheDirectory(
+  url: string,
+): Promise<FileSystemDirectoryHandle | undefined> {
+  const { host, pathname } = new URL(url);
+  try {
+    const path = [OPFS_CACHE_DIRECTORY_NAME, host, ...pathname.split("/")]
+      .filter((part) => part !== "")
+      .map(decodeURIComponent);
+    let directory = await navigator.storage.getDirectory();
+    for (const part of path) {
+      directory = await directory.getDirectoryHandle(part, { create: true });
+    }
+    return directory;
+  } catch {
+    return undefined;
+  }
+}
+
+interface CacheLocation {
+  directory: FileSystemDirectoryHandle;
+  // Path components relative to `directory`.
+  path: string[];
+}
+
+function getCacheLocation(url: string): CacheLocation | undefined {
+  const parsedUrl = new URL(url);
+  if (
+    (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") ||
+    parsedUrl.search !== "" ||
+    parsedUrl.hash !== ""
+  ) {
+    return undefined;
+  }
+  const mount = mounts.find((mount) => url.startsWith(mount.url));
+  if (mount === undefined) return undefined;
+  let path = url.slice(mount.url.length).split("/");
+  try {
+    path = path.map(decodeURIComponent);
+  } catch {
+    return undefined;
+  }
+  // Directory URLs and paths that would escape the cache directory are not cached.
+  if (path.some((part) => part === "" || part === "." || part === "..")) {
+    return undefined;
+  }
+  return { directory: mount.directory, path };
+}
+
+/**
+ * Returns the location of the directory in which the byte ranges of the file at `location` are
+ * stored.
+ */
+function getRangesLocation(location: CacheLocation): CacheLocation {
+  const { directory, path } = location;
+  return {
+    directory,
+    path: [...path.slice(0, -1), `${path[path.length - 1]}${RANGES_SUFFIX}`],
+  };
+}
+
+function isNotFoundError(e: unknown) {
+  return (
+    e instanceof DOMException &&
+    (e.name === "NotFoundError" || e.name === "TypeMismatchError")
+  );
+}
+
+async function getDirectoryHandle(
+  location: CacheLocation,
+  create: boolean,
+): Promise<FileSystemDirectoryHandle | undefined> {
+  let { directory } = location;
+  try {
+    for (const part of location.path) {
+      directory = await directory.getDirectoryHandle(part, { create });
+    }
+    return directory;
+  } catch (e) {
+    if (!create && isNotFoundError(e)) return undefined;
+    throw e;
+  }
+}
+
+async function getFileHandle(
+  location: CacheLocation,
+  create: boolean,
+): Promise<FileSystemFileHandle | undefined> {
+  const { path } = location;
+  const directory = await getDirectoryHandle(
+    { directory: location.directory, path: path.slice(0, -1) },
+    create,
+  );
+  if (directory === undefined) return undefined;
+  try {
+    return await directory.getFileHandle(path[path.length - 1], { create });
+  } catch (e) {
+    if (!create && isNotFoundError(e)) return undefined;
+    throw e;
+  }
+}
+
+async function writeFile(location: CacheLocation, data: Blob) {
+  const handle = (await getFileHandle(location, /*create=*/ true))!;
+  // The file is replaced atomically when the stream is closed, so a partially written file is
+  // never visible.
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(data);
+    await writable.close();
+  } catch (e) {
+    await writable.abort().catch(() => {});
+    throw e;
+  }
+}
+
+/**
+ * Returns the cached copy of the remote file at `url`, or `undefined` if it is not cached.
+ */
+export async function readLocalCache(url: string): Promise<Blob | undefined> {
+  const location = getCacheLocation(url);
+  if (location === undefined) return undefined;
+  try {
+    const handle = await getFileHandle(location, /*create=*/ false);
+    return await handle?.getFile();
+  } catch (e) {
+    console.warn(`Failed to read ${JSON.stringify(url)} from local cache`, e);
+    return undefined;
+  }
+}
+
+/**
+ * Stores a copy of the remote file at `url`.  Failures are logged rather than thrown, since the
+ * cache is only an optimization.
+ */
+export async function writeLocalCache(url: string, data: Blob): Promise<void> {
+  const location = getCacheLocation(url);
+  if (location === undefined) return;
+  try {
+    await writeFile(location, data);
+  } catch (e) {
+    console.warn(`Failed to write ${JSON.stringify(url)} to local cache`, e);
+  }
+}
+
+/**
+ * Byte range `[start, end)` of a remote file of `totalSize` bytes.
+ */
+export interface CachedByteRange {
+  start: number;
+  end: number;
+  totalSize: number;
+}
+
+function getRangeFileName(range: CachedByteRange) {
+  return `${range.start}-${range.end}-${range.totalSize}`;
+}
+
+function parseRangeFileName(name: string): CachedByteRange | undefined {
+  const m = name.match(/^(\d+)-(\d+)-(\d+)$/);
+  if (m === null) return undefined;
+  return { start: Number(m[1]), end: Number(m[2]), totalSize: Number(m[3]) };
+}
+
+// Byte ranges cached for each URL, listed from the cache directory on first use.
+const cachedRanges = new Map<string, Promise<CachedByteRange[]>>();
+
+async function listCachedRanges(
+  location: CacheLocation,
+): Promise<CachedByteRange[]> {
+  const directory = await getDirectoryHandle(
+    getRangesLocation(location),
+    /*create=*/ false,
+  );
+  const ranges: CachedByteRange[] = [];
+  if (directory === undefined) return ranges;
+  for (const name of await listFileTreeDirectory(directory)) {
+    const range = parseRangeFileName(name);
+    if (range !== undefined) ranges.push(range);
+  }
+  return ranges;
+}
+
+/**
+ * Returns the byte ranges of the remote file at `url` that are cached.
+ */
+export async function getLocalCacheRanges(
+  url: string,
+): Promise<CachedByteRange[]> {
+  const location = getCacheLocation(url);
+  if (location === undefined) return [];
+  let ranges = cachedRanges.get(url);
+  if (ranges === undefined) {
+    ranges = listCachedRanges(location).catch((e) => {
+      console.warn(
+        `Failed to list cached byte ranges of ${JSON.stringify(url)}`,
+        e,
+      );
+      return [];
+    });
+    cachedRanges.set(url, ranges);
+  }
+  return ranges;
+}
+
+/**
+ * Returns the data of `range`, one of the cached byte ranges of the remote file at `url`, or
+ * `undefined` if it is no longer cached.
+ */
+export async function readLocalCacheRange(
+  url: string,
+  range: CachedByteRange,
+): Promise<Blob | undefined> {
+  const location = getCacheLocation(url);
+  if (location === undefined) return undefined;
+  const { directory, path } = getRangesLocation(location);
+  try {
+    const handle = await getFileHandle(
+      { directory, path: [...path, getRangeFileName(range)] },
+      /*create=*/ false,
+    );
+    return await handle?.getFile();
+  } catch (e) {
+    console.warn(
+      `Failed to read byte range of ${JSON.stringify(url)} from local cache`,
+      e,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Stores a copy of a byte range of the remote file at `url`.  Failures are logged rather than
+ * thrown, since the cache is only an optimization.
+ */
+export async function writeLocalCacheRange(
+  url: string,
+  range: CachedByteRange,
+  data: Blob,
+): Promise<void> {
+  const location = getCacheLocation(url);
+  if (location === undefined) return;
+  const { directory, path } = getRangesLocation(location);
+  try {
+    const ranges = await getLocalCacheRanges(url);
+    await writeFile(
+      { directory, path: [...path, getRangeFileName(range)] },
+      data,
+    );
+    ranges.push(range);
+  } catch (e) {
+    console.warn(
+      `Failed to write byte range of ${JSON.stringify(url)} to local cache`,
+      e,
+    );
+  }
+}
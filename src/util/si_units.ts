@@ -176,6 +176,22 @@ export function parseScale(s: string) {
   return { scale, unit };
 }
 
+/**
+ * Parses either a comma-separated list of `count` scales, e.g. `"4nm,4nm,30nm"`, or a single scale
+ * that applies to all `count` elements, e.g. `"7.91µm"`.
+ */
+export function parseScaleList(s: string, count: number) {
+  const parts = s.split(",");
+  if (parts.length !== 1 && parts.length !== count) return undefined;
+  const result: { scale: number; unit: string }[] = [];
+  for (let i = 0; i < count; ++i) {
+    const scale = parseScale(parts[parts.length === 1 ? 0 : i].trim());
+    if (scale === undefined) return undefined;
+    result.push(scale);
+  }
+  return result;
+}
+
 export function unitFromJson(x: unknown) {
   const result = supportedUnits.get(x as string);
   if (result === undefined) {
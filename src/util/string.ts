@@ -17,3 +17,13 @@
 export function defaultStringCompare(a: string, b: string) {
   return a < b ? -1 : a > b ? +1 : 0;
 }
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true });
+
+/**
+ * Compares strings such that embedded numbers are ordered by value, e.g. `"slice2"` sorts before
+ * `"slice10"`.
+ */
+export function naturalStringCompare(a: string, b: string) {
+  return naturalCollator.compare(a, b);
+}
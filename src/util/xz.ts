@@ -0,0 +1,551 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Decoder for the xz compression format.
+ *
+ * Only blocks using just the LZMA2 filter, which is what xz produces by default, are supported.
+ * The integrity check of each block is skipped rather than validated.
+ */
+
+const STREAM_HEADER_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const STREAM_FOOTER_MAGIC = [0x59, 0x5a];
+const STREAM_HEADER_SIZE = 12;
+
+const FILTER_LZMA2 = 0x21;
+
+// Size in bytes of the check that follows each block, indexed by the check type.
+const CHECK_SIZES = [0, 4, 4, 4, 8, 8, 8, 16, 16, 16, 32, 32, 32, 64, 64, 64];
+
+const NUM_STATES = 12;
+const NUM_LITERAL_STATES = 7;
+const POS_BITS_MAX = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const NUM_POS_SLOT_BITS = 6;
+const NUM_ALIGN_BITS = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 128;
+const MATCH_MIN_LEN = 2;
+
+// Initial value of each probability, representing 0.5.
+const PROB_INIT = 1024;
+
+class RangeDecoder {
+  private range = 0;
+  private code = 0;
+  private offset = 0;
+  private end = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  init(offset: number, length: number) {
+    const { data } = this;
+    if (length < 5 || data[offset] !== 0) {
+      throw new Error("Invalid LZMA data");
+    }
+    this.range = 0xffffffff;
+    this.code =
+      ((data[offset + 1] << 24) |
+        (data[offset + 2] << 16) |
+        (data[offset + 3] << 8) |
+        data[offset + 4]) >>>
+      0;
+    this.offset = offset + 5;
+    this.end = offset + length;
+  }
+
+  private normalize() {
+    if (this.range < 0x1000000) {
+      if (this.offset >= this.end) {
+        throw new Error("Unexpected end of LZMA data");
+      }
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.data[this.offset++]) >>> 0;
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    this.normalize();
+    const prob = probs[index];
+    const bound = (this.range >>> 11) * prob;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = prob + ((2048 - prob) >>> 5);
+      return 0;
+    }
+    this.range -= bound;
+    this.code -= bound;
+    probs[index] = prob - (prob >>> 5);
+    return 1;
+  }
+
+  // Decodes `numBits` bits, most significant bit first, using the probabilities at
+  // `probs[base + 1]` through `probs[base + 2**numBits - 1]`.
+  decodeBitTree(probs: Uint16Array, base: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; ++i) {
+      m = (m << 1) | this.decodeBit(probs, base + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  // Same as `decodeBitTree`, but least significant bit first.
+  decodeReverseBitTree(
+    probs: Uint16Array,
+    base: number,
+    numBits: number,
+  ): number {
+    let m = 1;
+    let result = 0;
+    for (let i = 0; i < numBits; ++i) {
+      const bit = this.decodeBit(probs, base + m);
+      m = (m << 1) | bit;
+      result |= bit << i;
+    }
+    return result;
+  }
+
+  decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; ++i) {
+      this.normalize();
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = ((result << 1) | bit) >>> 0;
+    }
+    return result;
+  }
+}
+
+class LengthDecoder {
+  private choice = new Uint16Array(2);
+  private low = new Uint16Array(8 << POS_BITS_MAX);
+  private mid = new Uint16Array(8 << POS_BITS_MAX);
+  private high = new Uint16Array(256);
+
+  reset() {
+    this.choice.fill(PROB_INIT);
+    this.low.fill(PROB_INIT);
+    this.mid.fill(PROB_INIT);
+    this.high.fill(PROB_INIT);
+  }
+
+  // Returns the match length minus `MATCH_MIN_LEN`.
+  decode(rc: RangeDecoder, posState: number): number {
+    if (rc.decodeBit(this.choice, 0) === 0) {
+      return rc.decodeBitTree(this.low, posState << 3, 3);
+    }
+    if (rc.decodeBit(this.choice, 1) === 0) {
+      return 8 + rc.decodeBitTree(this.mid, posState << 3, 3);
+    }
+    return 16 + rc.decodeBitTree(this.high, 0, 8);
+  }
+}
+
+/**
+ * Decodes LZMA2 data.  The entire output serves as the dictionary, so the dictionary size
+ * specified in the block header is not needed.
+ */
+class Lzma2Decoder {
+  data = new Uint8Array(65536);
+  length = 0;
+
+  // Start of the current dictionary within `data`.
+  private dictStart = 0;
+  private needDictReset = true;
+  private needProperties = true;
+
+  private lc = 0;
+  private lp = 0;
+  private pb = 0;
+
+  private state = 0;
+  private rep0 = 0;
+  private rep1 = 0;
+  private rep2 = 0;
+  private rep3 = 0;
+
+  private literal = new Uint16Array(0x300 << 4);
+  private isMatch = new Uint16Array(NUM_STATES << POS_BITS_MAX);
+  private isRep = new Uint16Array(NUM_STATES);
+  private isRepG0 = new Uint16Array(NUM_STATES);
+  private isRepG1 = new Uint16Array(NUM_STATES);
+  private isRepG2 = new Uint16Array(NUM_STATES);
+  private isRep0Long = new Uint16Array(NUM_STATES << POS_BITS_MAX);
+  private posSlot = new Uint16Array(NUM_LEN_TO_POS_STATES << NUM_POS_SLOT_BITS);
+  private posDecoders = new Uint16Array(
+    NUM_FULL_DISTANCES - END_POS_MODEL_INDEX,
+  );
+  private align = new Uint16Array(1 << NUM_ALIGN_BITS);
+  private lengthDecoder = new LengthDecoder();
+  private repLengthDecoder = new LengthDecoder();
+
+  private reserve(count: number) {
+    const required = this.length + count;
+    if (required <= this.data.length) return;
+    const newData = new Uint8Array(Math.max(required, this.data.length * 2));
+    newData.set(this.data.subarray(0, this.length));
+    this.data = newData;
+  }
+
+  private resetDictionary() {
+    this.dictStart = this.length;
+    this.needDictReset = false;
+  }
+
+  private setProperties(properties: number) {
+    if (properties >= 9 * 5 * 5) {
+      throw new Error(`Invalid LZMA properties: ${properties}`);
+    }
+    this.lc = properties % 9;
+    properties = Math.floor(properties / 9);
+    this.lp = properties % 5;
+    this.pb = Math.floor(properties / 5);
+    if (this.lc + this.lp > 4) {
+      throw new Error("Invalid LZMA2 properties: lc + lp > 4");
+    }
+    this.needProperties = false;
+  }
+
+  private resetState() {
+    this.state = 0;
+    this.rep0 = this.rep1 = this.rep2 = this.rep3 = 0;
+    this.literal.fill(PROB_INIT);
+    this.isMatch.fill(PROB_INIT);
+    this.isRep.fill(PROB_INIT);
+    this.isRepG0.fill(PROB_INIT);
+    this.isRepG1.fill(PROB_INIT);
+    this.isRepG2.fill(PROB_INIT);
+    this.isRep0Long.fill(PROB_INIT);
+    this.posSlot.fill(PROB_INIT);
+    this.posDecoders.fill(PROB_INIT);
+    this.align.fill(PROB_INIT);
+    this.lengthDecoder.reset();
+    this.repLengthDecoder.reset();
+  }
+
+  private decodeLiteral(rc: RangeDecoder) {
+    const { data, length, lc } = this;
+    const prevByte = length > this.dictStart ? data[length - 1] : 0;
+    const literalState =
+      (((length - this.dictStart) & ((1 << this.lp) - 1)) << lc) +
+      (prevByte >>> (8 - lc));
+    const base = 0x300 * literalState;
+    const probs = this.literal;
+    let symbol = 1;
+    if (this.state >= NUM_LITERAL_STATES) {
+      // Following a match, the byte at distance `rep0` is used as additional context.
+      let matchByte = data[length - this.rep0 - 1];
+      do {
+        const matchBit = (matchByte >>> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(probs, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      } while (symbol < 0x100);
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(probs, base + symbol);
+    }
+    data[this.length++] = symbol & 0xff;
+    const { state } = this;
+    this.state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+  }
+
+  private decodeDistance(rc: RangeDecoder, len: number): number {
+    const lenToPosState = Math.min(len, NUM_LEN_TO_POS_STATES - 1);
+    const posSlot = rc.decodeBitTree(
+      this.posSlot,
+      lenToPosState << NUM_POS_SLOT_BITS,
+      NUM_POS_SLOT_BITS,
+    );
+    if (posSlot < 4) return posSlot;
+    const numDirectBits = (posSlot >>> 1) - 1;
+    let dist = ((2 | (posSlot & 1)) << numDirectBits) >>> 0;
+    if (posSlot < END_POS_MODEL_INDEX) {
+      return (
+        dist +
+        rc.decodeReverseBitTree(
+          this.posDecoders,
+          dist - posSlot - 1,
+          numDirectBits,
+        )
+      );
+    }
+    dist +=
+      rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+    dist += rc.decodeReverseBitTree(this.align, 0, NUM_ALIGN_BITS);
+    return dist >>> 0;
+  }
+
+  private decodeLzmaChunk(
+    rc: RangeDecoder,
+    offset: number,
+    packedSize: number,
+    unpackedSize: number,
+  ) {
+    rc.init(offset, packedSize);
+    this.reserve(unpackedSize);
+    const { data } = this;
+    const end = this.length + unpackedSize;
+    const posMask = (1 << this.pb) - 1;
+    while (this.length < end) {
+      const posState = (this.length - this.dictStart) & posMask;
+      const { state } = this;
+      if (
+        rc.decodeBit(this.isMatch, (state << POS_BITS_MAX) + posState) === 0
+      ) {
+        this.decodeLiteral(rc);
+        continue;
+      }
+      let len: number;
+      if (rc.decodeBit(this.isRep, state) === 0) {
+        len = this.lengthDecoder.decode(rc, posState);
+        this.state = state < NUM_LITERAL_STATES ? 7 : 10;
+        const dist = this.decodeDistance(rc, len);
+        if (dist === 0xffffffff) {
+          throw new Error("Unexpected LZMA end marker in LZMA2 data");
+        }
+        this.rep3 = this.rep2;
+        this.rep2 = this.rep1;
+        this.rep1 = this.rep0;
+        this.rep0 = dist;
+      } else {
+        if (rc.decodeBit(this.isRepG0, state) === 0) {
+          if (
+            rc.decodeBit(this.isRep0Long, (state << POS_BITS_MAX) + posState) ===
+            0
+          ) {
+            // Short rep: a single byte at distance `rep0`.
+            this.state = state < NUM_LITERAL_STATES ? 9 : 11;
+            if (this.rep0 >= this.length - this.dictStart) {
+              throw new Error("Invalid LZMA match distance");
+            }
+            data[this.length] = data[this.length - this.rep0 - 1];
+            ++this.length;
+            continue;
+          }
+        } else {
+          let dist: number;
+          if (rc.decodeBit(this.isRepG1, state) === 0) {
+            dist = this.rep1;
+          } else {
+            if (rc.decodeBit(this.isRepG2, state) === 0) {
+              dist = this.rep2;
+            } else {
+              dist = this.rep3;
+              this.rep3 = this.rep2;
+            }
+            this.rep2 = this.rep1;
+          }
+          this.rep1 = this.rep0;
+          this.rep0 = dist;
+        }
+        len = this.repLengthDecoder.decode(rc, posState);
+        this.state = state < NUM_LITERAL_STATES ? 8 : 11;
+      }
+      len += MATCH_MIN_LEN;
+      const { rep0 } = this;
+      if (rep0 >= this.length - this.dictStart) {
+        throw new Error("Invalid LZMA match distance");
+      }
+      if (this.length + len > end) {
+        throw new Error("LZMA match exceeds LZMA2 chunk size");
+      }
+      // Copy byte by byte since the source and destination may overlap.
+      for (let i = 0; i < len; ++i, ++this.length) {
+        data[this.length] = data[this.length - rep0 - 1];
+      }
+    }
+  }
+
+  /**
+   * Decodes the LZMA2 data starting at `offset` and returns the offset following the end marker.
+   */
+  decode(input: Uint8Array, offset: number): number {
+    const rc = new RangeDecoder(input);
+    while (true) {
+      if (offset >= input.length) {
+        throw new Error("Unexpected end of LZMA2 data");
+      }
+      const control = input[offset++];
+      if (control === 0x00) return offset;
+      if (control === 0x01 || control === 0x02) {
+        // Uncompressed chunk, with (0x01) or without (0x02) a dictionary reset.
+        if (control === 0x01) {
+          this.resetDictionary();
+        } else if (this.needDictReset) {
+          throw new Error("Invalid LZMA2 data: missing dictionary reset");
+        }
+        const size = ((input[offset] << 8) | input[offset + 1]) + 1;
+        offset += 2;
+        if (offset + size > input.length) {
+          throw new Error("Unexpected end of LZMA2 data");
+        }
+        this.reserve(size);
+        this.data.set(input.subarray(offset, offset + size), this.length);
+        this.length += size;
+        offset += size;
+        continue;
+      }
+      if (control < 0x80) {
+        throw new Error(`Invalid LZMA2 control byte: ${control}`);
+      }
+      const unpackedSize =
+        (control & 0x1f) * 0x10000 +
+        ((input[offset] << 8) | input[offset + 1]) +
+        1;
+      const packedSize = ((input[offset + 2] << 8) | input[offset + 3]) + 1;
+      offset += 4;
+      // 0: nothing reset, 1: state reset, 2: state reset and new properties, 3: all of the
+      // above as well as a dictionary reset.
+      const reset = (control >>> 5) & 3;
+      if (reset === 3) {
+        this.resetDictionary();
+      } else if (this.needDictReset) {
+        throw new Error("Invalid LZMA2 data: missing dictionary reset");
+      }
+      if (reset >= 2) {
+        this.setProperties(input[offset++]);
+      } else if (this.needProperties) {
+        throw new Error("Invalid LZMA2 data: missing properties");
+      }
+      if (reset >= 1) {
+        this.resetState();
+      }
+      if (offset + packedSize > input.length) {
+        throw new Error("Unexpected end of LZMA2 data");
+      }
+      this.decodeLzmaChunk(rc, offset, packedSize, unpackedSize);
+      offset += packedSize;
+    }
+  }
+
+  // Each xz block is independent.
+  startBlock() {
+    this.needDictReset = true;
+    this.needProperties = true;
+  }
+}
+
+function readVarint(data: Uint8Array, offset: number) {
+  let value = 0;
+  for (let i = 0; i < 9; ++i) {
+    if (offset >= data.length) break;
+    const byte = data[offset++];
+    value += (byte & 0x7f) * 2 ** (7 * i);
+    if ((byte & 0x80) === 0) return { value, offset };
+  }
+  throw new Error("Invalid xz variable-length integer");
+}
+
+function checkMagic(data: Uint8Array, offset: number, magic: number[]) {
+  for (let i = 0; i < magic.length; ++i) {
+    if (data[offset + i] !== magic[i]) return false;
+  }
+  return true;
+}
+
+function align4(offset: number, start: number) {
+  return offset + ((4 - ((offset - start) % 4)) % 4);
+}
+
+// Decodes the stream starting at `offset` and returns the offset following its footer.
+function decodeStream(
+  data: Uint8Array,
+  offset: number,
+  decoder: Lzma2Decoder,
+): number {
+  const streamStart = offset;
+  if (
+    offset + STREAM_HEADER_SIZE > data.length ||
+    !checkMagic(data, offset, STREAM_HEADER_MAGIC)
+  ) {
+    throw new Error("Invalid xz header");
+  }
+  const checkType = data[offset + 7] & 0xf;
+  const checkSize = CHECK_SIZES[checkType];
+  offset += STREAM_HEADER_SIZE;
+
+  // Blocks
+  while (true) {
+    if (offset >= data.length) {
+      throw new Error("Unexpected end of xz data");
+    }
+    const headerSizeByte = data[offset];
+    // A zero byte instead of a block header marks the start of the index.
+    if (headerSizeByte === 0) break;
+    const headerEnd = offset + (headerSizeByte + 1) * 4;
+    const flags = data[offset + 1];
+    const numFilters = (flags & 3) + 1;
+    let p = offset + 2;
+    if (flags & 0x40) {
+      p = readVarint(data, p).offset; // Compressed size
+    }
+    if (flags & 0x80) {
+      p = readVarint(data, p).offset; // Uncompressed size
+    }
+    for (let i = 0; i < numFilters; ++i) {
+      const filter = readVarint(data, p);
+      const propertiesSize = readVarint(data, filter.offset);
+      if (filter.value !== FILTER_LZMA2 || numFilters !== 1) {
+        throw new Error(
+          `Unsupported xz filter: 0x${filter.value.toString(16)}`,
+        );
+      }
+      p = propertiesSize.offset + propertiesSize.value;
+    }
+    if (p > headerEnd) {
+      throw new Error("Invalid xz block header");
+    }
+    decoder.startBlock();
+    offset = decoder.decode(data, headerEnd);
+    offset = align4(offset, streamStart) + checkSize;
+  }
+
+  // Index
+  const index = readVarint(data, offset + 1);
+  let p = index.offset;
+  for (let i = 0; i < index.value; ++i) {
+    p = readVarint(data, p).offset; // Unpadded size
+    p = readVarint(data, p).offset; // Uncompressed size
+  }
+  offset = align4(p, streamStart) + 4;
+
+  // Footer
+  if (
+    offset + STREAM_HEADER_SIZE > data.length ||
+    !checkMagic(data, offset + 10, STREAM_FOOTER_MAGIC)
+  ) {
+    throw new Error("Invalid xz footer");
+  }
+  return offset + STREAM_HEADER_SIZE;
+}
+
+export function decodeXz(data: Uint8Array): Uint8Array {
+  const decoder = new Lzma2Decoder();
+  let offset = 0;
+  do {
+    offset = decodeStream(data, offset, decoder);
+    // Concatenated streams may be separated by stream padding consisting of null bytes.
+    while (offset < data.length && data[offset] === 0) ++offset;
+  } while (offset < data.length);
+  return decoder.data.slice(0, decoder.length);
+}
@@ -0,0 +1,300 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @file Reader for members of zip archives, such as NumPy `.npz` files.
+ *
+ * Only the central directory and the local headers of accessed members are read.  Stored members
+ * support efficient byte range reads, while deflated members are decompressed in their entirety.
+ */
+
+import type { CancellationToken } from "#src/util/cancellation.js";
+import type {
+  FileReadOptions,
+  FileReadResponse,
+  ReadableStore,
+} from "#src/util/file_system.js";
+import { decodeGzip } from "#src/util/gzip.js";
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE = 20;
+const LOCAL_FILE_HEADER_SIZE = 30;
+// The end of central directory record may be followed by a comment of up to 65535 bytes.
+const MAX_END_OF_CENTRAL_DIRECTORY_SEARCH =
+  END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff;
+
+export enum ZipCompressionMethod {
+  STORED = 0,
+  DEFLATE = 8,
+}
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+function getDataView(data: Uint8Array) {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function getUint64(dv: DataView, offset: number) {
+  return Number(dv.getBigUint64(offset, true));
+}
+
+export class ZipReader implements ReadableStore<string> {
+  private entries: Promise<Map<string, ZipEntry>> | undefined;
+  private dataOffsets = new Map<string, Promise<number>>();
+
+  /**
+   * @param store Store containing the archive.
+   * @param key Key of the archive within `store`.
+   */
+  constructor(
+    private store: ReadableStore<string>,
+    private key: string,
+  ) {}
+
+  private async readRange(
+    offset: number,
+    length: number,
+    cancellationToken?: CancellationToken,
+  ) {
+    const response = await this.store.read(this.key, {
+      byteRange: { offset, length },
+      cancellationToken,
+    });
+    if (response === undefined || response.data.length !== length) {
+      throw new Error(
+        `Failed to read ${length} bytes at offset ${offset} of zip archive ` +
+          JSON.stringify(this.key),
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * Returns the members of the archive, in the order of the central directory.
+   */
+  getEntries(): Promise<Map<string, ZipEntry>> {
+    if (this.entries === undefined) {
+      this.entries = this.readCentralDirectory();
+      // Allow retrying after a failure.
+      this.entries.catch(() => {
+        this.entries = undefined;
+      });
+    }
+    return this.entries;
+  }
+
+  private async readCentralDirectory(): Promise<Map<string, ZipEntry>> {
+    const response = await this.store.read(this.key, {
+      byteRange: { suffixLength: MAX_END_OF_CENTRAL_DIRECTORY_SEARCH },
+    });
+    if (response === undefined) {
+      throw new Error(`Failed to read zip archive ${JSON.stringify(this.key)}`);
+    }
+    const tail = response.data;
+    const tailView = getDataView(tail);
+    let eocdPosition = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+    while (
+      eocdPosition >= 0 &&
+      tailView.getUint32(eocdPosition, true) !==
+        END_OF_CENTRAL_DIRECTORY_SIGNATURE
+    ) {
+      --eocdPosition;
+    }
+    if (eocdPosition < 0) {
+      throw new Error(
+        `Invalid zip archive ${JSON.stringify(this.key)}: ` +
+          "end of central directory not found",
+      );
+    }
+    let numEntries = tailView.getUint16(eocdPosition + 10, true);
+    let directorySize = tailView.getUint32(eocdPosition + 12, true);
+    let directoryOffset = tailView.getUint32(eocdPosition + 16, true);
+    const locatorPosition =
+      eocdPosition - ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE;
+    if (
+      locatorPosition >= 0 &&
+      tailView.getUint32(locatorPosition, true) ===
+        ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE
+    ) {
+      const zip64EocdOffset = getUint64(tailView, locatorPosition + 8);
+      const zip64Eocd = getDataView(await this.readRange(zip64EocdOffset, 56));
+      if (
+        zip64Eocd.getUint32(0, true) !==
+        ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE
+      ) {
+        throw new Error(
+          `Invalid zip archive ${JSON.stringify(this.key)}: ` +
+            "invalid zip64 end of central directory",
+        );
+      }
+      numEntries = getUint64(zip64Eocd, 32);
+      directorySize = getUint64(zip64Eocd, 40);
+      directoryOffset = getUint64(zip64Eocd, 48);
+    }
+    const directory = await this.readRange(directoryOffset, directorySize);
+    const dv = getDataView(directory);
+    const entries = new Map<string, ZipEntry>();
+    const decoder = new TextDecoder();
+    for (let i = 0, offset = 0; i < numEntries; ++i) {
+      if (dv.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+        throw new Error(
+          `Invalid zip archive ${JSON.stringify(this.key)}: ` +
+            "invalid central directory header",
+        );
+      }
+      const flags = dv.getUint16(offset + 8, true);
+      const compressionMethod = dv.getUint16(offset + 10, true);
+      let compressedSize = dv.getUint32(offset + 20, true);
+      let uncompressedSize = dv.getUint32(offset + 24, true);
+      const nameLength = dv.getUint16(offset + 28, true);
+      const extraLength = dv.getUint16(offset + 30, true);
+      const commentLength = dv.getUint16(offset + 32, true);
+      let localHeaderOffset = dv.getUint32(offset + 42, true);
+      const nameOffset = offset + 46;
+      const name = decoder.decode(
+        directory.subarray(nameOffset, nameOffset + nameLength),
+      );
+      // Sizes and offsets that do not fit in 32 bits are stored in the zip64 extra field, in this
+      // order, with the 32-bit fields set to 0xffffffff.
+      const extraEnd = nameOffset + nameLength + extraLength;
+      let extraOffset = nameOffset + nameLength;
+      while (extraOffset + 4 <= extraEnd) {
+        const id = dv.getUint16(extraOffset, true);
+        const size = dv.getUint16(extraOffset + 2, true);
+        if (id === ZIP64_EXTRA_FIELD_ID) {
+          let fieldOffset = extraOffset + 4;
+          if (uncompressedSize === 0xffffffff) {
+            uncompressedSize = getUint64(dv, fieldOffset);
+            fieldOffset += 8;
+          }
+          if (compressedSize === 0xffffffff) {
+            compressedSize = getUint64(dv, fieldOffset);
+            fieldOffset += 8;
+          }
+          if (localHeaderOffset === 0xffffffff) {
+            localHeaderOffset = getUint64(dv, fieldOffset);
+          }
+        }
+        extraOffset += 4 + size;
+      }
+      offset = extraEnd + commentLength;
+      // Encrypted members are not supported.
+      if (flags & 1) continue;
+      entries.set(name, {
+        name,
+        compressionMethod,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Returns the offset of the data of `entry` within the archive, which is determined from the
+   * size of its local header.
+   */
+  getDataOffset(entry: ZipEntry): Promise<number> {
+    let dataOffset = this.dataOffsets.get(entry.name);
+    if (dataOffset === undefined) {
+      dataOffset = (async () => {
+        const header = getDataView(
+          await this.readRange(entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE),
+        );
+        if (header.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+          throw new Error(
+            `Invalid zip archive ${JSON.stringify(this.key)}: ` +
+              `invalid local header for ${JSON.stringify(entry.name)}`,
+          );
+        }
+        return (
+          entry.localHeaderOffset +
+          LOCAL_FILE_HEADER_SIZE +
+          header.getUint16(26, true) +
+          header.getUint16(28, true)
+        );
+      })();
+      this.dataOffsets.set(entry.name, dataOffset);
+      // Allow retrying after a failure.
+      dataOffset.catch(() => {
+        this.dataOffsets.delete(entry.name);
+      });
+    }
+    return dataOffset;
+  }
+
+  async read(
+    name: string,
+    options: FileReadOptions = {},
+  ): Promise<FileReadResponse | undefined> {
+    const entry = (await this.getEntries()).get(name);
+    if (entry === undefined) return undefined;
+    const { byteRange, cancellationToken } = options;
+    const totalSize = entry.uncompressedSize;
+    let offset = 0;
+    let length = totalSize;
+    if (byteRange !== undefined) {
+      if ("suffixLength" in byteRange) {
+        length = Math.min(byteRange.suffixLength, totalSize);
+        offset = totalSize - length;
+      } else {
+        offset = Math.min(byteRange.offset, totalSize);
+        length = Math.min(byteRange.length, totalSize - offset);
+      }
+    }
+    const dataOffset = await this.getDataOffset(entry);
+    switch (entry.compressionMethod) {
+      case ZipCompressionMethod.STORED: {
+        const data = await this.readRange(
+          dataOffset + offset,
+          length,
+          cancellationToken,
+        );
+        return { data, totalSize };
+      }
+      case ZipCompressionMethod.DEFLATE: {
+        const compressed = await this.readRange(
+          dataOffset,
+          entry.compressedSize,
+          cancellationToken,
+        );
+        const data = new Uint8Array(
+          await decodeGzip(compressed, "deflate-raw", cancellationToken),
+        );
+        return { data: data.subarray(offset, offset + length), totalSize };
+      }
+      default:
+        throw new Error(
+          `Unsupported compression method ${entry.compressionMethod} for zip ` +
+            `member ${JSON.stringify(name)}`,
+        );
+    }
+  }
+}
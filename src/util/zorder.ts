@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2024 Google Inc.
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Uint64 } from "#src/util/uint64.js";
+
+/**
+ * Computes the "compressed" Morton (z-order) index of `position` within a grid of the specified
+ * shape: bits are interleaved starting from dimension 0, but each dimension `i` only contributes
+ * `ceil(log2(gridShape[i]))` bits.
+ */
+export function encodeZIndexCompressed(
+  out: Uint64,
+  gridShape: ArrayLike<number>,
+  position: ArrayLike<number>,
+) {
+  const rank = gridShape.length;
+  const bits = new Array<number>(rank);
+  let maxBits = 0;
+  for (let dim = 0; dim < rank; ++dim) {
+    bits[dim] = 32 - Math.clz32(gridShape[dim] - 1);
+    maxBits = Math.max(maxBits, bits[dim]);
+  }
+  let low = 0;
+  let high = 0;
+  let outputBit = 0;
+  for (let bit = 0; bit < maxBits; ++bit) {
+    for (let dim = 0; dim < rank; ++dim) {
+      if (bit >= bits[dim]) continue;
+      if ((position[dim] >>> bit) & 1) {
+        if (outputBit < 32) {
+          low |= 1 << outputBit;
+        } else {
+          high |= 1 << (outputBit - 32);
+        }
+      }
+      ++outputBit;
+    }
+  }
+  out.low = low >>> 0;
+  out.high = high >>> 0;
+  return out;
+}
@@ -2,9 +2,22 @@
 // on Node.js subpath imports to translate paths for Workers since those paths
 // must be valid for use in `new URL` with multiple bundlers.
 import "#src/worker/shared_watchable_value.js";
+import "#datasource/dicom/backend";
+import "#datasource/image_sequence/backend";
+import "#datasource/mrc/backend";
+import "#datasource/n5/backend";
+import "#datasource/nifti/backend";
+import "#datasource/npy/backend";
+import "#datasource/nrrd/backend";
+import "#datasource/precomputed/backend";
+import "#datasource/raw/backend";
+import "#datasource/tiff/backend";
 import "#datasource/zarr/backend";
+import { RpcCredentialsProvider } from "#src/credentials_provider/backend.js";
+import { setDefaultCredentialsProvider } from "#src/credentials_provider/index.js";
 import { RPC } from "#src/worker/worker_rpc.js";
 
 const rpc = new RPC(self, /*waitUntilReady=*/ false);
+setDefaultCredentialsProvider(new RpcCredentialsProvider(rpc));
 rpc.sendReady();
 